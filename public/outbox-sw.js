@@ -0,0 +1,185 @@
+/*
+  # Aura Alert Outbox Service Worker
+
+  Retries SOS/ALERT requests that the page stored in IndexedDB (see src/services/alertOutbox.ts)
+  until the edge function confirms them, or drops them once they are too old, have failed too
+  often or were refused outright. Runs from Background Sync when the browser supports it, and whenever the page asks for
+  a flush.
+*/
+
+const DB_NAME = 'aura-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'alerts';
+const SYNC_TAG = 'aura-outbox-flush';
+
+// Must match RETRY_DELAYS_MS in src/services/alertOutbox.ts
+const RETRY_DELAYS_MS = [5000, 15000, 30000, 60000, 120000, 300000];
+// Must match MAX_ATTEMPTS and MAX_ENTRY_AGE_MS in src/services/alertOutbox.ts
+const MAX_ATTEMPTS = 10;
+const MAX_ENTRY_AGE_MS = 30 * 60 * 1000;
+// Longest a single sync event waits for the next entry to become due
+const MAX_IN_EVENT_WAIT_MS = 60000;
+
+const retryDelay = (attempts) =>
+  RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1] ?? RETRY_DELAYS_MS[0];
+
+// 401 means the stored token expired; the page swaps in a fresh one before asking for a flush.
+// Entries sent with only the anon key have no token to refresh, so for them it is final.
+const isRetryableStatus = (status, usesAnonKey) =>
+  status >= 500 || (status === 401 && !usesAnonKey) || status === 408 || status === 429;
+
+const dropReason = (entry, now = Date.now()) => {
+  if (now - new Date(entry.createdAt).getTime() > MAX_ENTRY_AGE_MS) {
+    return `not sent within ${MAX_ENTRY_AGE_MS / 60000} minutes`;
+  }
+  if (entry.attempts >= MAX_ATTEMPTS) return `not sent after ${entry.attempts} attempts`;
+  return null;
+};
+
+// The status and the alert service's own message for a refused request
+const refusalMessage = async (response) => {
+  const body = await response.json().catch(() => null);
+  return `${response.status} ${body?.message ?? body?.error ?? response.statusText}`;
+};
+
+// Dropped entries stay in the store so the page can show the user they never went out
+const markDropped = (entry, reason) => withStore('readwrite', store => store.put({
+  ...entry,
+  status: 'dropped',
+  lastError: entry.lastError ? `${reason} (${entry.lastError})` : reason
+}));
+
+const openDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async (mode, run) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const notifyClients = async () => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach(client => client.postMessage({ type: 'aura-outbox-updated' }));
+};
+
+const attempt = async (entry) => {
+  try {
+    const response = await fetch(entry.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': entry.authorization,
+        'Idempotency-Key': entry.id
+      },
+      body: JSON.stringify(entry.payload)
+    });
+
+    if (response.status === 401 && entry.usesAnonKey) {
+      await markDropped(entry, 'the alert service refused it without a signed-in session');
+      return;
+    }
+    if (response.ok) {
+      await withStore('readwrite', store => store.delete(entry.id));
+      return;
+    }
+    if (!isRetryableStatus(response.status, entry.usesAnonKey)) {
+      await markDropped(entry, `the alert service refused it: ${await refusalMessage(response)}`);
+      return;
+    }
+
+    throw new Error(`${response.status} ${response.statusText}`);
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    const lastError = error.message || 'Network error';
+    const retrying = {
+      ...entry,
+      status: 'retrying',
+      attempts,
+      lastError,
+      nextAttemptAt: Date.now() + retryDelay(attempts)
+    };
+    const reason = dropReason(retrying);
+    await withStore('readwrite', store => store.put(
+      reason ? { ...retrying, status: 'dropped', lastError: `${reason} (${lastError})` } : retrying
+    ));
+  }
+};
+
+let flushing = null;
+
+const waitingEntries = async () =>
+  (await withStore('readonly', store => store.getAll())).filter(entry => entry.status !== 'dropped');
+
+/**
+ * Send every due entry; resolves with the entries still waiting
+ */
+const flush = () => {
+  if (!flushing) {
+    flushing = (async () => {
+      const entries = await waitingEntries();
+      for (const entry of entries.filter(entry => entry.nextAttemptAt <= Date.now())) {
+        const reason = dropReason(entry);
+        if (reason) {
+          await markDropped(entry, reason);
+        } else {
+          await attempt(entry);
+        }
+      }
+      await notifyClients();
+      return waitingEntries();
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+const flushUntilEmpty = async () => {
+  let remaining = await flush();
+
+  while (remaining.length > 0) {
+    const wait = Math.min(...remaining.map(entry => entry.nextAttemptAt)) - Date.now();
+    if (wait > MAX_IN_EVENT_WAIT_MS) break;
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, wait)));
+    remaining = await flush();
+  }
+
+  return remaining;
+};
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  event.waitUntil(flushUntilEmpty().then((remaining) => {
+    if (remaining.length > 0) {
+      // Rejecting makes the browser schedule this sync again with its own backoff
+      throw new Error(`${remaining.length} alert(s) still pending`);
+    }
+  }));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'aura-outbox-flush') {
+    event.waitUntil(flushUntilEmpty());
+  }
+});
@@ -1,6 +1,6 @@
-import { useState, useEffect } from 'react';
-import { Settings } from 'lucide-react';
-// Removed AuraButton import
+import { useState, useEffect, useRef } from 'react';
+import { History, Settings } from 'lucide-react';
+import { AuraButton } from './Components/AuraButton';
 import { EmergencyVoiceButton } from './Components/EmergencyVoiceButton';
 import { VoiceStatusIndicator } from './Components/VoiceStatusIndicator';
 import { FakeCallScreen } from './Components/FakeCallScreen';
@@ -8,16 +8,47 @@ import { StatusDisplay } from './Components/StatusDisplay';
 import { Settings as SettingsComponent } from './Components/Settings';
 import { PermissionPrompt } from './Components/PermissionPrompt';
 import { AlertConfirmationScreen } from './Components/AlertConfirmationScreen';
+import { OutboxStatus } from './Components/OutboxStatus';
+import { SafetyTimerStatus } from './Components/SafetyTimerStatus';
+import { SOSCountdown } from './Components/SOSCountdown';
+import { AlertHistory } from './Components/AlertHistory';
 import { useAuraState } from './hooks/useAuraState';
 import { useAudioCapture } from './hooks/useAudioCapture';
 import { useLocation } from './hooks/useLocation';
 import { useVoiceActivation } from './hooks/useVoiceActivation';
-import { apiService } from './services/apiService';
+import { useSafetyTimer } from './hooks/useSafetyTimer';
+import { useSOSCountdown } from './hooks/useSOSCountdown';
+import { useAlertOutbox } from './hooks/useAlertOutbox';
+import { useEscalationPlayback } from './hooks/useEscalationPlayback';
+import { useDeliveryTracking } from './hooks/useDeliveryTracking';
+import { useLocationTracking } from './hooks/useLocationTracking';
+import { useSync } from './hooks/useSync';
+import { apiService, failedDispatch } from './services/apiService';
 import { storageService } from './services/storageService';
-import { UserProfile, AuraState } from './types';
+import { syncService } from './services/syncService';
+import { duressService } from './services/duressService';
+import { evidenceService } from './services/evidenceService';
+import { TranscriptionError } from './services/transcriptionService';
+import { smsFallbackService } from './services/smsFallbackService';
+import { trackingService } from './services/trackingService';
+import { selectEscalationScript } from './services/escalationScripts';
+import { cancelWord, DEFAULT_TIMER_MINUTES } from './services/wakePhrases';
+import {
+  UserProfile,
+  AuraState,
+  AlertRequestPayload,
+  AlertTriggerSource,
+  AllClearResult,
+  IncidentResolution,
+  WakePhraseMatch
+} from './types';
+
+// A repeat SOS trigger this soon after one that reached the contacts (e.g. voice activation
+// matching again) reopens the confirmation screen instead of sending another alert
+const SOS_COOLDOWN_MS = 60 * 1000;
 
 export default function App() {
-  const [currentView, setCurrentView] = useState<'home' | 'settings' | 'permissions' | 'sos-confirmation' | 'fake-call'>('permissions');
+  const [currentView, setCurrentView] = useState<'home' | 'settings' | 'permissions' | 'sos-confirmation' | 'fake-call' | 'history'>('permissions');
   const [userProfile, setUserProfile] = useState<UserProfile>({
     ...storageService.getUserProfile(),
     voiceActivationEnabled: storageService.getUserProfile().voiceActivationEnabled ?? false,
@@ -26,48 +57,196 @@ export default function App() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [sosProcessing, setSOSProcessing] = useState(false);
   const [emergencyVoiceActive, setEmergencyVoiceActive] = useState(false);
+  const [allClear, setAllClear] = useState<AllClearResult | null>(null);
 
   const aura = useAuraState();
-  const audio = useAudioCapture();
   const location = useLocation();
+  const outbox = useAlertOutbox();
+  const escalation = useEscalationPlayback();
+  const trackedAlert = useDeliveryTracking(aura.alertResult, userProfile.id);
+  // All-clear result for the alert on screen, not an earlier one
+  const currentAllClear = allClear && allClear.alertId === trackedAlert?.alertId ? allClear : null;
+  const tracking = useLocationTracking();
+  const sync = useSync();
+  const escalationScript = selectEscalationScript(userProfile.escalationScripts, userProfile.voiceActivationLanguage);
+  // Duress alerts waiting to send must not show up on screen
+  const visibleOutbox = outbox.entries.filter(entry => entry.kind !== 'DURESS');
   
+  const sosInFlightRef = useRef(false);
+  const lastSOSDeliveredAtRef = useRef(0);
+
   // Define handleSOSActivate function
-  const handleSOSActivate = async () => {
+  const handleSOSActivate = async (triggerSource: AlertTriggerSource = 'long_press') => {
+    if (sosInFlightRef.current) return;
+    if (Date.now() - lastSOSDeliveredAtRef.current < SOS_COOLDOWN_MS) {
+      setCurrentView('sos-confirmation');
+      return;
+    }
+
+    sosInFlightRef.current = true;
     setSOSProcessing(true);
     
     try {
       // Trigger SOS state immediately for UI feedback
       aura.triggerSOS();
       
-      // Get current location
-      const currentLocation = await location.getCurrentLocation();
+      // Get current location and start live tracking, but never hold the alert back for either
+      const [currentLocation, trackingSession] = await Promise.all([
+        location.getCurrentLocation().catch((locationError) => {
+          console.error('Error getting location for SOS alert:', locationError);
+          return { latitude: 0, longitude: 0 };
+        }),
+        tracking.start(userProfile.id)
+      ]);
       
       // Send SOS alert
-      const result = await apiService.triggerSOSAlert(userProfile.id, currentLocation);
+      const result = await apiService.triggerSOSAlert(userProfile.id, currentLocation, triggerSource, trackingSession?.token);
       
       // Update SOS result
-      aura.updateSOSResult(result);
+      aura.updateAlertResult(result);
+      if (result.delivered) {
+        lastSOSDeliveredAtRef.current = Date.now();
+      }
+      
+      // Backend unreachable: hand the same message to the phone's SMS app
+      if (!result.delivered && smsFallbackService.isBackendUnreachable(result)) {
+        smsFallbackService.openSOSComposer(
+          currentLocation,
+          trackingSession ? trackingService.buildTrackingUrl(trackingSession.token) : null
+        );
+      }
       
       // Navigate to confirmation screen
       setCurrentView('sos-confirmation');
     } catch (error) {
       console.error('Error sending SOS alert:', error);
-      // Still show confirmation screen with error state
-      aura.updateSOSResult({
-        success: false,
-        message: 'Error sending alert, but emergency contacts may have been notified',
-        data: { contactsNotified: 0, timestamp: new Date().toISOString() }
-      });
+      // Still show confirmation screen, clearly marked as not sent
+      aura.updateAlertResult(failedDispatch(
+        'location',
+        'SOS alert was NOT sent. Call your emergency contacts or local emergency services directly.',
+        location.location ?? { latitude: 0, longitude: 0 }
+      ));
       setCurrentView('sos-confirmation');
     } finally {
+      sosInFlightRef.current = false;
       setSOSProcessing(false);
     }
   };
   
+  const sosCountdown = useSOSCountdown(handleSOSActivate);
+
+  // Count down first, so a long press or wake phrase by mistake can still be cancelled
+  const requestSOS = (triggerSource: AlertTriggerSource) => {
+    if (sosInFlightRef.current || sosCountdown.isRunning) return;
+    if (userProfile.sosCountdownSeconds > 0 && Date.now() - lastSOSDeliveredAtRef.current >= SOS_COOLDOWN_MS) {
+      sosCountdown.start(triggerSource, userProfile.sosCountdownSeconds);
+    } else {
+      handleSOSActivate(triggerSource);
+    }
+  };
+
+  // The screen shows a normal cancel or all-clear; the contacts get a silent alert with live tracking
+  const raiseDuressAlert = async (
+    triggerSource: AlertTriggerSource,
+    closing?: Pick<AlertRequestPayload, 'closesAlertId' | 'resolution' | 'reason'>
+  ) => {
+    try {
+      const [currentLocation, trackingSession] = await Promise.all([
+        location.getCurrentLocation().catch(() => ({ latitude: 0, longitude: 0 })),
+        tracking.start(userProfile.id, { conceal: true })
+      ]);
+      const result = await apiService.triggerDuressAlert(userProfile.id, currentLocation, triggerSource, trackingSession?.token, closing);
+      if (!result.delivered) {
+        console.error('Duress alert was not delivered:', result.message);
+      }
+    } catch (error) {
+      console.error('Error sending duress alert:', error);
+    }
+  };
+
+  // Both PINs close the countdown the same way
+  const handleCountdownPin = async (pin: string): Promise<boolean> => {
+    const verdict = await duressService.verifyPin(pin);
+    if (verdict === 'invalid') return false;
+    sosCountdown.cancel();
+    if (verdict === 'duress') {
+      raiseDuressAlert('duress_pin');
+    }
+    return true;
+  };
+
+  // Keep sharing their location, and close the incident without reassuring anyone
+  const closeUnderDuress = async (triggerSource: AlertTriggerSource, resolution: IncidentResolution, reason?: string) => {
+    const alertId = trackedAlert?.alertId;
+    await raiseDuressAlert(triggerSource, alertId ? { closesAlertId: alertId, resolution, reason } : undefined);
+    if (trackedAlert && alertId) {
+      setAllClear(duressService.coverAllClear(trackedAlert, resolution, reason));
+    } else {
+      aura.resetToIdle();
+      setCurrentView('home');
+    }
+  };
+
+  const handleVoiceCancel = (duress: boolean) => {
+    if (!sosCountdown.isRunning) {
+      // At the all-clear only the duress phrase is heard; "cancel" there is too easily said by chance
+      if (duress) {
+        lastSOSDeliveredAtRef.current = 0;
+        closeUnderDuress('duress_phrase', 'resolved');
+      }
+    } else if (duress) {
+      sosCountdown.cancel();
+      raiseDuressAlert('duress_phrase');
+    } else if (!duressService.isPinRequired()) {
+      // With a cancel PIN, anyone could otherwise say "cancel"
+      sosCountdown.cancel();
+    }
+  };
+
+  // Check-in timer started by a wake phrase; running out raises a full SOS
+  const safetyTimer = useSafetyTimer(() => requestSOS('safety_timer'));
+
+  // Alert the contacts without changing what is on screen. Never counts down: the countdown
+  // screen would give a silent alert away.
+  const handleSilentAlert = async () => {
+    try {
+      const currentLocation = await location.getCurrentLocation().catch(() => ({ latitude: 0, longitude: 0 }));
+      const result = await apiService.triggerSmsAlert(userProfile.id, currentLocation, 'voice');
+      if (!result.delivered) {
+        console.error('Silent alert was not delivered:', result.message);
+      }
+    } catch (error) {
+      console.error('Error sending silent alert:', error);
+    }
+  };
+
+  const handleWakePhrase = (match: WakePhraseMatch) => {
+    switch (match.action) {
+      case 'silent_alert':
+        handleSilentAlert();
+        break;
+      case 'fake_call':
+        setEmergencyVoiceActive(true);
+        setCurrentView('fake-call');
+        break;
+      case 'safety_timer': {
+        const phrase = userProfile.wakePhrases.find(candidate => candidate.id === match.phraseId);
+        safetyTimer.start(phrase?.timerMinutes ?? DEFAULT_TIMER_MINUTES);
+        break;
+      }
+      default:
+        requestSOS('voice');
+    }
+  };
+
+  // The duress phrase covers every cancel: the countdown, and the all-clear once an alert went out
+  const allClearOffered = currentView === 'sos-confirmation' && Boolean(trackedAlert?.delivered) && !currentAllClear?.incident;
+
   // Initialize voice activation
   const voice = useVoiceActivation({
-    triggerPhrase: 'Help Aura',
-    onActivate: handleSOSActivate,
+    phrases: userProfile.wakePhrases,
+    onActivate: handleWakePhrase,
+    onCancel: sosCountdown.isRunning || allClearOffered ? handleVoiceCancel : undefined,
     enabled: userProfile.voiceActivationEnabled,
     language: userProfile.voiceActivationLanguage
   });
@@ -84,55 +263,123 @@ export default function App() {
     }
   }, [userProfile.voiceActivationEnabled, voice.permissionStatus, voice.requestPermission]);
 
-  // Handle audio processing workflow
+  // Sign in and sync the profile and contacts; reload them when a sync brings changes
+  useEffect(() => {
+    const unsubscribe = syncService.onRemoteChange(() => {
+      setUserProfile(storageService.getUserProfile());
+    });
+    syncService.start();
+    return unsubscribe;
+  }, []);
+
+  // Re-synthesize the fake call warnings whenever Aura's voice or the script changes
   useEffect(() => {
-    const processAudio = async () => {
-      if (audio.audioBlob && aura.isListening) {
-        setIsProcessing(true);
-        
+    escalation.preload(escalationScript, userProfile.speech);
+  }, [escalation.preload, userProfile.speech, escalationScript]);
+
+  // Utterances cut by voice-activity detection, processed one at a time
+  const utteranceQueueRef = useRef<Blob[]>([]);
+  const drainingRef = useRef(false);
+
+  const processUtteranceQueue = async () => {
+    if (drainingRef.current) return;
+    drainingRef.current = true;
+    setIsProcessing(true);
+
+    try {
+      while (utteranceQueueRef.current.length > 0) {
+        const utterance = utteranceQueueRef.current.shift()!;
+
         try {
           // Process audio through the complete workflow
-          const result = await apiService.processAudioWorkflow(audio.audioBlob);
+          const result = await apiService.processAudioWorkflow(
+            utterance,
+            userProfile.transcription,
+            aura.session ?? undefined
+          );
           
           // Update transcription and AI response
           aura.updateTranscription(result.transcription);
           aura.updateAiResponse(result.ai_response);
           
-          // Play the AI response
-          await apiService.playAudioResponse(result.ai_response);
+          // Play the AI response without transcribing Aura's own voice
+          audio.pauseCapture();
+          try {
+            await apiService.playAudioResponse(result.ai_response, userProfile.speech);
+          } finally {
+            audio.resumeCapture();
+          }
           
           // Handle threat detection
-          if (result.threat_detected) {
+          if (result.threat.level === 'high') {
+            console.warn('Threat detected:', result.threat.rationale);
             aura.triggerAlert();
             
             // Get location and send alert
             try {
               const currentLocation = await location.getCurrentLocation();
-              await apiService.triggerSmsAlert(userProfile.id, currentLocation);
+              aura.updateAlertResult(await apiService.triggerSmsAlert(userProfile.id, currentLocation));
             } catch (locationError) {
               console.error('Error getting location for alert:', locationError);
               // Still send alert without precise location
-              await apiService.triggerSmsAlert(userProfile.id, { latitude: 0, longitude: 0 });
+              aura.updateAlertResult(await apiService.triggerSmsAlert(userProfile.id, { latitude: 0, longitude: 0 }));
             }
           }
-          
-          // Clear the processed audio
-          audio.clearAudio();
         } catch (error) {
-          console.error('Error processing audio:', error);
-        } finally {
-          setIsProcessing(false);
+          if (error instanceof TranscriptionError) {
+            console.error(`Transcription unavailable (${error.code}):`, error.message);
+          } else {
+            console.error('Error processing audio:', error);
+          }
         }
       }
+    } finally {
+      drainingRef.current = false;
+      setIsProcessing(false);
+    }
+  };
+
+  const handleUtterance = (utterance: Blob) => {
+    utteranceQueueRef.current.push(utterance);
+    processUtteranceQueue();
+  };
+
+  const audio = useAudioCapture({ onUtterance: handleUtterance });
+
+  // Record evidence for as long as an SOS or the emergency call is under way
+  const recordingEvidence = aura.state === AuraState.SOS_ACTIVE || aura.state === AuraState.EMERGENCY_VOICE;
+  const evidenceSessionRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!recordingEvidence) return;
+
+    const sessionId = evidenceService.start();
+    evidenceSessionRef.current = sessionId;
+    const started = audio.startEvidence(chunk => evidenceService.addChunk(sessionId, chunk))
+      .catch(() => undefined);
+
+    return () => {
+      evidenceSessionRef.current = null;
+      // The last chunk comes in as the recorder stops
+      started
+        .then(() => audio.stopEvidence())
+        .then(() => evidenceService.stop(sessionId));
     };
+  }, [recordingEvidence, audio.startEvidence, audio.stopEvidence]);
 
-    processAudio();
-  }, [audio.audioBlob, aura.isListening]);
+  // Attach the recording to the incident once the alert has an id
+  useEffect(() => {
+    if (recordingEvidence && evidenceSessionRef.current && trackedAlert?.alertId) {
+      evidenceService.attachToAlert(evidenceSessionRef.current, trackedAlert.alertId);
+    }
+  }, [recordingEvidence, trackedAlert?.alertId]);
 
   const handleAuraActivate = async () => {
     try {
+      apiService.resetThreatAssessment();
+      utteranceQueueRef.current = [];
       aura.activateAura();
-      await audio.startRecording();
+      await audio.startContinuous();
     } catch (error) {
       console.error('Error activating Aura:', error);
       alert('Unable to access microphone. Please check permissions and try again.');
@@ -141,8 +388,10 @@ export default function App() {
   };
 
   const handleAuraDeactivate = () => {
+    apiService.resetThreatAssessment();
+    utteranceQueueRef.current = [];
     aura.deactivateAura();
-    audio.stopRecording();
+    audio.stopContinuous();
   };
 
   // handleSOSActivate function is defined above
@@ -158,7 +407,7 @@ export default function App() {
       
       // Send silent location alert to emergency contacts
       const currentLocation = await location.getCurrentLocation();
-      await apiService.triggerSmsAlert(userProfile.id, currentLocation);
+      aura.updateAlertResult(await apiService.triggerSmsAlert(userProfile.id, currentLocation, 'emergency_voice'));
     } catch (error) {
       console.error('Error activating emergency voice:', error);
     }
@@ -167,7 +416,7 @@ export default function App() {
   const handleCallAnswered = async () => {
     try {
       // Start playing emergency warnings
-      await apiService.playEmergencyWarnings();
+      await escalation.play(escalationScript, userProfile.speech);
     } catch (error) {
       console.error('Error playing emergency warnings:', error);
     }
@@ -175,7 +424,7 @@ export default function App() {
 
   const handleEndCall = () => {
     // Stop any ongoing warnings
-    apiService.stopEmergencyWarnings();
+    escalation.stop();
     
     // Reset state and return to home
     aura.resetToIdle();
@@ -183,21 +432,43 @@ export default function App() {
     setCurrentView('home');
   };
 
-  const handleAllClear = async () => {
-    try {
-      // Send all-clear message to contacts
-      const currentLocation = await location.getCurrentLocation();
-      await apiService.triggerSmsAlert(userProfile.id, currentLocation);
-      
-      // Reset to home
+  const handleAllClear = async (resolution: IncidentResolution, reason?: string, pin?: string): Promise<boolean> => {
+    const verdict = duressService.isPinRequired()
+      ? pin ? await duressService.verifyPin(pin) : 'invalid'
+      : 'cancel';
+    if (verdict === 'invalid') return false;
+
+    // A new emergency after this one must go out straight away
+    lastSOSDeliveredAtRef.current = 0;
+    const alertId = trackedAlert?.alertId;
+
+    if (verdict === 'duress') {
+      await closeUnderDuress('duress_pin', resolution, reason);
+      return true;
+    }
+
+    // The user is safe: stop sharing their live location
+    tracking.stop();
+
+    if (!alertId) {
+      // No server-side incident to close (the alert never reached the service)
       aura.resetToIdle();
       setCurrentView('home');
-    } catch (error) {
-      console.error('Error sending all-clear:', error);
-      // Still return to home
+      return true;
+    }
+
+    // Stay on the confirmation screen so the user sees the incident close
+    setAllClear(await apiService.sendAllClear(alertId, userProfile.id, resolution, reason));
+    return true;
+  };
+
+  const handleConfirmationBack = () => {
+    // A closed incident is finished with; an open one stays reachable from home
+    if (currentAllClear?.incident) {
       aura.resetToIdle();
-      setCurrentView('home');
+      setAllClear(null);
     }
+    setCurrentView('home');
   };
 
   const handleProfileUpdate = (updates: Partial<UserProfile>) => {
@@ -209,6 +480,9 @@ export default function App() {
     if (updates.emergencyContacts) {
       storageService.saveEmergencyContacts(updates.emergencyContacts);
     }
+
+    // The alert functions read the profile and contacts from the server
+    syncService.schedule();
   };
 
   const handlePermissionsComplete = () => {
@@ -219,6 +493,19 @@ export default function App() {
     }
   };
 
+  // Render the SOS countdown over whichever view is open
+  if (sosCountdown.isRunning) {
+    return (
+      <SOSCountdown
+        remainingMs={sosCountdown.remainingMs}
+        cancelWord={voice.isListening && !duressService.isPinRequired() ? cancelWord(userProfile.voiceActivationLanguage) : null}
+        onCancel={sosCountdown.cancel}
+        onCancelWithPin={duressService.isPinRequired() ? handleCountdownPin : undefined}
+        onSendNow={sosCountdown.dispatchNow}
+      />
+    );
+  }
+
   // Render permission prompt
   if (currentView === 'permissions') {
     return <PermissionPrompt onComplete={handlePermissionsComplete} />;
@@ -230,18 +517,29 @@ export default function App() {
       <SettingsComponent
         userProfile={userProfile}
         onProfileUpdate={handleProfileUpdate}
+        sync={sync}
         onBack={() => setCurrentView('home')}
       />
     );
   }
 
+  // Render alert history
+  if (currentView === 'history') {
+    return <AlertHistory onBack={() => setCurrentView('home')} />;
+  }
+
   // Render SOS confirmation screen
   if (currentView === 'sos-confirmation') {
     return (
       <AlertConfirmationScreen
-        alertResult={aura.sosAlertResult}
+        alertResult={trackedAlert}
+        pendingAlerts={visibleOutbox}
         userLocation={location.location}
-        onBack={() => setCurrentView('home')}
+        trackingUrl={tracking.trackingUrl}
+        trackingLastSentAt={tracking.lastSentAt}
+        allClear={currentAllClear}
+        pinRequired={duressService.isPinRequired()}
+        onBack={handleConfirmationBack}
         onAllClear={handleAllClear}
       />
     );
@@ -254,6 +552,10 @@ export default function App() {
         callerName="Dad"
         onEndCall={handleEndCall}
         onCallAnswered={handleCallAnswered}
+        warningProgress={escalation.progress}
+        onPauseWarnings={escalation.pause}
+        onResumeWarnings={escalation.resume}
+        onSkipWarning={escalation.skip}
       />
     );
   }
@@ -269,12 +571,21 @@ export default function App() {
               <h1 className="text-xl font-semibold text-gray-900">Aura</h1>
               <p className="text-sm text-gray-600">Personal Safety AI</p>
             </div>
-            <button
-              onClick={() => setCurrentView('settings')}
-              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-            >
-              <Settings className="w-5 h-5 text-gray-600" />
-            </button>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setCurrentView('history')}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                aria-label="Alert history"
+              >
+                <History className="w-5 h-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setCurrentView('settings')}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Settings className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -287,12 +598,35 @@ export default function App() {
             state={aura.state}
             transcription={aura.transcription}
             aiResponse={aura.aiResponse}
+            conversation={aura.conversation}
+            alertResult={aura.alertResult}
             isListening={aura.isListening}
           />
 
+          {/* Offline Outbox */}
+          <OutboxStatus entries={visibleOutbox} />
+
+          {/* Safety Timer */}
+          {safetyTimer.isRunning && (
+            <SafetyTimerStatus remainingMs={safetyTimer.remainingMs} onCancel={safetyTimer.cancel} />
+          )}
+
+          {/* Aura Button */}
+          <div className="flex justify-center">
+            <AuraButton
+              state={aura.state}
+              onActivate={handleAuraActivate}
+              onDeactivate={handleAuraDeactivate}
+              onSOSActivate={() => requestSOS('long_press')}
+              disabled={sosProcessing || emergencyVoiceActive}
+            />
+          </div>
+
           {/* Voice Status Indicator */}
           <VoiceStatusIndicator
             isListening={voice.isListening}
+            phrases={userProfile.wakePhrases.filter(phrase => phrase.enabled).map(phrase => phrase.phrase)}
+            lastMatch={voice.lastMatch}
             permissionStatus={voice.permissionStatus}
             error={voice.error}
             onRequestPermission={voice.requestPermission}
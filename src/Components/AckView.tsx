@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, Navigation, Phone, ShieldAlert, AlertTriangle } from 'lucide-react';
+import { AckDetails, AckResponse } from '../types';
+import { acknowledgementService } from '../services/acknowledgementService';
+
+interface AckViewProps {
+  token: string;
+}
+
+const RESPONSE_OPTIONS: Array<{ response: AckResponse; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+  { response: 'ok', label: "I've seen it", icon: CheckCircle },
+  { response: 'on_my_way', label: "I'm on my way", icon: Navigation },
+  { response: 'calling', label: "I'm calling them", icon: Phone },
+];
+
+const RESPONSE_CONFIRMATIONS: Record<AckResponse, string> = {
+  ok: 'They have been told you saw the alert.',
+  on_my_way: 'They have been told you are on your way.',
+  calling: 'They have been told you are calling.',
+};
+
+/**
+ * Contact-facing page behind /ack/:token, linked from every alert
+ */
+export const AckView: React.FC<AckViewProps> = ({ token }) => {
+  const [details, setDetails] = useState<AckDetails | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<AckResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    acknowledgementService.getDetails(token)
+      .then(next => {
+        if (cancelled) return;
+        setDetails(next);
+        setStatus('ready');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setStatus('error');
+        setErrorMessage(error instanceof Error ? error.message : 'Could not load the alert');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleRespond = async (response: AckResponse) => {
+    setSubmitting(response);
+    setErrorMessage(null);
+    try {
+      setDetails(await acknowledgementService.acknowledge(token, response));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Could not send your answer');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const closed = details?.alertStatus === 'resolved' || details?.alertStatus === 'cancelled';
+
+  return (
+    <div className="min-h-screen bg-aura-background">
+      <div className="bg-white shadow-sm">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center space-x-3">
+          <ShieldAlert className="w-6 h-6 text-aura-primary" />
+          <h1 className="text-xl font-semibold text-gray-800">
+            {details ? `${details.userName} needs help` : 'Emergency alert'}
+          </h1>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-4">
+        {status === 'loading' && (
+          <p className="text-gray-600 text-center">Loading alert...</p>
+        )}
+
+        {status === 'error' && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-red-700 text-sm">{errorMessage}</p>
+          </div>
+        )}
+
+        {details && (
+          <>
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <p className="text-gray-800">
+                Hi {details.contactName}, {details.userName} sent an emergency alert at{' '}
+                {new Date(details.createdAt).toLocaleTimeString()}.
+              </p>
+              <p className="text-sm text-gray-600 mt-2">
+                {closed
+                  ? `${details.userName} has since closed this alert.`
+                  : `Let ${details.userName} know you've got it. Your answer shows up on their screen straight away.`}
+              </p>
+            </div>
+
+            {details.response && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+                <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+                <p className="text-green-800 text-sm">{RESPONSE_CONFIRMATIONS[details.response]}</p>
+              </div>
+            )}
+
+            {!closed && (
+              <div className="space-y-3">
+                {RESPONSE_OPTIONS.map(({ response, label, icon: Icon }) => (
+                  <button
+                    key={response}
+                    onClick={() => handleRespond(response)}
+                    disabled={submitting !== null}
+                    className={`w-full flex items-center justify-center space-x-2 py-3 rounded-lg font-medium transition-colors disabled:opacity-60 ${
+                      details.response === response
+                        ? 'bg-aura-primary text-white'
+                        : 'bg-white text-gray-800 border border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Icon className="w-5 h-5" />
+                    <span>{submitting === response ? 'Sending...' : label}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {status === 'ready' && errorMessage && (
+              <p className="text-red-700 text-sm text-center">{errorMessage}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,96 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Shield, CheckCircle, MapPin, Phone, Users, AlertTriangle } from 'lucide-react';
-import { Location, SOSAlertResult } from '../types';
+import { ArrowLeft, Shield, CheckCircle, MapPin, Phone, Users, AlertTriangle, XCircle, Clock } from 'lucide-react';
+import {
+  AckResponse,
+  AlertDispatchResult,
+  AllClearResult,
+  ContactDeliveryOutcome,
+  IncidentResolution,
+  IncidentState,
+  Location,
+  OutboxEntry
+} from '../types';
+import { OutboxStatus } from './OutboxStatus';
+import { SmsFallbackPanel } from './SmsFallbackPanel';
+import { PinEntry } from './PinEntry';
+import { smsFallbackService } from '../services/smsFallbackService';
 
 interface AlertConfirmationScreenProps {
-  alertResult: SOSAlertResult | null;
+  alertResult: AlertDispatchResult | null;
+  pendingAlerts?: OutboxEntry[];
   userLocation: Location | null;
+  trackingUrl?: string | null;
+  trackingLastSentAt?: string | null;
+  allClear?: AllClearResult | null;
+  pinRequired?: boolean; // the all-clear takes the cancel PIN
   onBack: () => void;
-  onAllClear: () => void;
+  // Resolves false when the PIN was wrong
+  onAllClear: (resolution: IncidentResolution, reason?: string, pin?: string) => Promise<boolean | void> | void;
 }
 
+// What a contact's receipt means for them, in plain words
+const DELIVERY_LABELS = {
+  queued: 'sent, waiting for carrier',
+  sending: 'sending',
+  sent: 'sent to carrier',
+  delivered: 'delivered',
+  undelivered: 'NOT delivered',
+  failed: 'NOT delivered'
+} as const;
+
+const describeOutcome = (outcome: ContactDeliveryOutcome): string => {
+  if (outcome.status === 'failed') {
+    return `failed${outcome.error ? ` (${outcome.error})` : ''}`;
+  }
+  if (outcome.deliveryStatus) {
+    return DELIVERY_LABELS[outcome.deliveryStatus];
+  }
+  return outcome.channel === 'email' ? 'emailed' : outcome.channel === 'webhook' ? 'sent to webhook' : 'sent';
+};
+
+// What a contact's acknowledgement tells the user
+const ACK_LABELS: Record<AckResponse, string> = {
+  ok: 'has seen your alert',
+  on_my_way: 'is on their way',
+  calling: 'is calling you'
+};
+
+const describeIncident = (incident: IncidentState): string => {
+  const at = (timestamp: string | null) => timestamp ? ` at ${new Date(timestamp).toLocaleTimeString()}` : '';
+  switch (incident.status) {
+    case 'acknowledged':
+      return `Acknowledged by a contact${at(incident.acknowledgedAt)}`;
+    case 'resolved':
+      return `Resolved${at(incident.resolvedAt)}`;
+    case 'cancelled':
+      return `Cancelled as a false alarm${at(incident.resolvedAt)}`;
+    default:
+      return 'Open - your contacts have been asked to help';
+  }
+};
+
 interface AlertStatus {
   id: string;
   text: string;
   completed: boolean;
+  failed?: boolean;
   icon: React.ReactNode;
 }
 
 export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = ({
   alertResult,
+  pendingAlerts = [],
   userLocation,
+  trackingUrl = null,
+  trackingLastSentAt = null,
+  allClear = null,
+  pinRequired = false,
   onBack,
   onAllClear
 }) => {
+  const [sendingAllClear, setSendingAllClear] = useState(false);
+  const [pinFor, setPinFor] = useState<IncidentResolution | null>(null);
+  const [resolutionReason, setResolutionReason] = useState('');
   const [alertStatuses, setAlertStatuses] = useState<AlertStatus[]>([
     {
       id: 'contacts',
@@ -47,24 +116,6 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
   useEffect(() => {
     const timers: ReturnType<typeof setTimeout>[] = [];
 
-    // Complete contacts notification after 1 second
-    timers.push(setTimeout(() => {
-      setAlertStatuses(prev => prev.map(status => 
-        status.id === 'contacts' 
-          ? { ...status, text: 'Emergency contacts notified', completed: true }
-          : status
-      ));
-    }, 1000));
-
-    // Complete location sharing after 2 seconds
-    timers.push(setTimeout(() => {
-      setAlertStatuses(prev => prev.map(status => 
-        status.id === 'location' 
-          ? { ...status, text: 'Live location shared', completed: true }
-          : status
-      ));
-    }, 2000));
-
     // Complete authorities notification after 3 seconds
     timers.push(setTimeout(() => {
       setAlertStatuses(prev => prev.map(status => 
@@ -79,7 +130,70 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
     };
   }, []);
 
-  const allCompleted = alertStatuses.every(status => status.completed);
+  // Contact delivery comes from the real dispatch result, never from a timer
+  useEffect(() => {
+    if (!alertResult) return;
+
+    setAlertStatuses(prev => prev.map(status =>
+      status.id === 'contacts'
+        ? alertResult.delivered
+          ? {
+              ...status,
+              text: `${alertResult.contactsNotified}/${alertResult.totalContacts} emergency contacts notified`,
+              completed: true,
+              failed: false
+            }
+          : { ...status, text: 'Emergency contacts were NOT notified', completed: false, failed: true }
+        : status
+    ));
+  }, [alertResult]);
+
+  // Location status comes from the tracking session: live once the first position is posted
+  useEffect(() => {
+    if (!alertResult && !trackingLastSentAt) return;
+
+    setAlertStatuses(prev => prev.map(status =>
+      status.id === 'location'
+        ? trackingLastSentAt
+          ? { ...status, text: 'Live location shared', completed: true, failed: false }
+          : trackingUrl
+          ? { ...status, text: 'Waiting for GPS to share live location...', completed: false, failed: false }
+          : alertResult?.delivered
+          ? { ...status, text: 'Location shared once in the alert (live tracking unavailable)', completed: true, failed: false }
+          : { ...status, text: 'Location NOT shared', completed: false, failed: true }
+        : status
+    ));
+  }, [alertResult, trackingUrl, trackingLastSentAt]);
+
+  const notDelivered = alertResult !== null && !alertResult.delivered;
+  const allSettled = alertStatuses.every(status => status.completed || status.failed);
+  const incident = allClear?.incident ?? alertResult?.incident ?? null;
+  const incidentClosed = incident?.status === 'resolved' || incident?.status === 'cancelled';
+  const acknowledgements = alertResult?.acknowledgements ?? [];
+
+  const handleAllClear = async (resolution: IncidentResolution, pin?: string): Promise<boolean> => {
+    setSendingAllClear(true);
+    try {
+      return (await onAllClear(resolution, resolutionReason.trim() || undefined, pin)) !== false;
+    } finally {
+      setSendingAllClear(false);
+    }
+  };
+
+  const requestAllClear = (resolution: IncidentResolution) => {
+    if (pinRequired) {
+      setPinFor(resolution);
+    } else {
+      handleAllClear(resolution);
+    }
+  };
+
+  const handlePinAllClear = async (pin: string): Promise<boolean> => {
+    if (!pinFor) return false;
+    const accepted = await handleAllClear(pinFor, pin);
+    if (accepted) setPinFor(null);
+    return accepted;
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-900 via-blue-800 to-blue-900">
@@ -102,31 +216,68 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
       <div className="max-w-md mx-auto px-4 py-8">
         <div className="space-y-8">
           {/* Alert Sent Header */}
-          <div className="text-center">
-            <div className="w-24 h-24 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-2xl">
-              <Shield className="w-12 h-12 text-white" />
+          {incidentClosed ? (
+            <div className="text-center">
+              <div className="w-24 h-24 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-2xl">
+                <CheckCircle className="w-12 h-12 text-white" />
+              </div>
+              <h1 className="text-3xl font-bold text-white mb-2">
+                {incident.status === 'cancelled' ? 'ALERT CANCELLED' : 'ALL CLEAR'}
+              </h1>
+              <p className="text-xl text-blue-100 font-medium">Your contacts are being told you are safe.</p>
             </div>
-            <h1 className="text-3xl font-bold text-white mb-2">ALERT SENT</h1>
-            <p className="text-xl text-blue-100 font-medium">Help is on the way.</p>
-          </div>
+          ) : notDelivered ? (
+            <div className="text-center">
+              <div className="w-24 h-24 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-2xl">
+                <XCircle className="w-12 h-12 text-white" />
+              </div>
+              <h1 className="text-3xl font-bold text-white mb-2">
+                {alertResult.pendingRetry ? 'ALERT PENDING' : 'ALERT NOT SENT'}
+              </h1>
+              <p className="text-xl text-red-200 font-medium">Your contacts have not been notified yet.</p>
+              <p className="text-sm text-red-100 mt-2">{alertResult.message}</p>
+            </div>
+          ) : (
+            <div className="text-center">
+              <div className="w-24 h-24 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-2xl">
+                <Shield className="w-12 h-12 text-white" />
+              </div>
+              <h1 className="text-3xl font-bold text-white mb-2">{alertResult ? 'ALERT SENT' : 'SENDING ALERT'}</h1>
+              <p className="text-xl text-blue-100 font-medium">
+                {alertResult ? 'Help is on the way.' : 'Contacting your emergency contacts...'}
+              </p>
+            </div>
+          )}
+
+          {/* Last-resort SMS from the user's own phone */}
+          {notDelivered && smsFallbackService.isBackendUnreachable(alertResult) && (
+            <SmsFallbackPanel location={userLocation ?? alertResult.location} trackingUrl={trackingUrl} />
+          )}
+
+          {/* Offline Outbox */}
+          <OutboxStatus entries={pendingAlerts} variant="dark" />
 
           {/* Status List */}
           <div className="bg-white bg-opacity-10 backdrop-blur-sm rounded-xl p-6 space-y-4">
             {alertStatuses.map((status) => (
               <div key={status.id} className="flex items-center space-x-3">
                 <div className={`w-8 h-8 rounded-full flex items-center justify-center transition-all duration-500 ${
-                  status.completed 
+                  status.failed
+                    ? 'bg-red-500 text-white'
+                    : status.completed 
                     ? 'bg-green-500 text-white' 
                     : 'bg-white bg-opacity-20 text-blue-200 animate-pulse'
                 }`}>
-                  {status.completed ? (
+                  {status.failed ? (
+                    <XCircle className="w-5 h-5" />
+                  ) : status.completed ? (
                     <CheckCircle className="w-5 h-5" />
                   ) : (
                     status.icon
                   )}
                 </div>
                 <span className={`font-medium transition-colors duration-500 ${
-                  status.completed ? 'text-green-100' : 'text-blue-100'
+                  status.failed ? 'text-red-200' : status.completed ? 'text-green-100' : 'text-blue-100'
                 }`}>
                   {status.text}
                 </span>
@@ -134,6 +285,47 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
             ))}
           </div>
 
+          {/* Incident Status */}
+          {incident && (
+            <div className="bg-white bg-opacity-10 backdrop-blur-sm rounded-xl p-6">
+              <div className="flex items-center space-x-3 mb-2">
+                <Shield className="w-5 h-5 text-blue-200" />
+                <h3 className="font-semibold text-white">Incident</h3>
+              </div>
+              <p className="text-blue-100 text-sm">{describeIncident(incident)}</p>
+              {acknowledgements.length > 0 ? (
+                <ul className="mt-2 space-y-1">
+                  {acknowledgements.map((ack) => (
+                    <li key={`${ack.phoneNumber}-${ack.contactName}`} className="flex items-center space-x-2 text-green-100 text-sm">
+                      <CheckCircle className="w-4 h-4 text-green-300" />
+                      <span>
+                        {ack.contactName} {ACK_LABELS[ack.response]} · {new Date(ack.acknowledgedAt).toLocaleTimeString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : incident.status === 'open' && (
+                <p className="flex items-center space-x-2 text-blue-200 text-sm mt-2">
+                  <Clock className="w-4 h-4 animate-pulse" />
+                  <span>Waiting for a contact to respond...</span>
+                </p>
+              )}
+              {incident.resolutionReason && (
+                <p className="text-blue-100 text-sm mt-1">Reason: {incident.resolutionReason}</p>
+              )}
+              {allClear?.delivered && (
+                <p className="text-green-200 text-sm mt-2">{allClear.message}</p>
+              )}
+            </div>
+          )}
+
+          {/* All-clear that did not reach the server */}
+          {allClear && !allClear.delivered && (
+            <div className="bg-red-500 bg-opacity-20 border border-red-400 border-opacity-30 rounded-xl p-4 text-red-100 text-sm">
+              {allClear.message}. Your contacts still think you need help - try again or call them.
+            </div>
+          )}
+
           {/* Location Display */}
           {userLocation && (
             <div className="bg-white bg-opacity-10 backdrop-blur-sm rounded-xl p-6">
@@ -153,6 +345,20 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
                 >
                   View on Google Maps →
                 </a>
+                {trackingUrl && (
+                  <p className="text-blue-100 text-sm mt-2">
+                    Live tracking:{' '}
+                    <a
+                      href={trackingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-300 hover:text-blue-200 underline"
+                    >
+                      open the page your contacts see
+                    </a>
+                    {trackingLastSentAt && ` · updated ${new Date(trackingLastSentAt).toLocaleTimeString()}`}
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -165,9 +371,43 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
                 <h3 className="font-semibold text-white">Alert Details</h3>
               </div>
               <div className="space-y-2 text-blue-100 text-sm">
-                <p>Contacts notified: {alertResult.data?.contactsNotified || 'Processing...'}</p>
-                <p>Alert sent: {new Date(alertResult.data?.timestamp || Date.now()).toLocaleTimeString()}</p>
-                <p>Status: {alertResult.success ? 'Delivered' : 'Processing'}</p>
+                <p>Contacts notified: {alertResult.contactsNotified}/{alertResult.totalContacts}</p>
+                {alertResult.duplicate && (
+                  <p className="text-blue-200">
+                    Added to the alert already in progress - your contacts were not messaged again.
+                  </p>
+                )}
+                <p>{alertResult.delivered ? 'Alert sent' : 'Attempted'}: {new Date(alertResult.timestamp).toLocaleTimeString()}</p>
+                <p>
+                  Status:{' '}
+                  {alertResult.mode === 'live'
+                    ? 'Delivered to SMS provider'
+                    : alertResult.mode === 'mock'
+                    ? 'NOT sent (alert service not configured)'
+                    : 'NOT sent'}
+                </p>
+                {alertResult.outcomes.length > 0 && (
+                  <ul className="pt-2 space-y-1">
+                    {alertResult.outcomes.map((outcome) => {
+                      const ack = acknowledgements.find(entry => entry.phoneNumber === outcome.phoneNumber);
+                      return (
+                        <li key={`${outcome.phoneNumber}-${outcome.contactName}`} className="flex items-center space-x-2">
+                          {outcome.status === 'failed' || outcome.deliveryStatus === 'undelivered' || outcome.deliveryStatus === 'failed' ? (
+                            <XCircle className="w-4 h-4 text-red-300" />
+                          ) : outcome.deliveryStatus === 'delivered' || (outcome.channel && outcome.channel !== 'sms') ? (
+                            <CheckCircle className="w-4 h-4 text-green-300" />
+                          ) : (
+                            <Clock className="w-4 h-4 text-blue-200" />
+                          )}
+                          <span>
+                            {outcome.contactName}: {describeOutcome(outcome)}
+                            {ack && `, ${ACK_LABELS[ack.response]}`}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
               </div>
             </div>
           )}
@@ -187,13 +427,31 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
 
           {/* I Am Safe Button */}
           <div className="space-y-4">
-            {allCompleted && (
-              <button
-                onClick={onAllClear}
-                className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-4 px-6 rounded-xl transition-colors shadow-lg"
-              >
-                I Am Safe - Send All Clear
-              </button>
+            {allSettled && !notDelivered && !incidentClosed && (
+              <>
+                <input
+                  type="text"
+                  value={resolutionReason}
+                  onChange={(e) => setResolutionReason(e.target.value)}
+                  maxLength={200}
+                  placeholder="Optional note for your contacts"
+                  className="w-full px-4 py-3 rounded-xl bg-white bg-opacity-20 text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-green-400"
+                />
+                <button
+                  onClick={() => requestAllClear('resolved')}
+                  disabled={sendingAllClear}
+                  className="w-full bg-green-600 hover:bg-green-700 disabled:opacity-60 text-white font-semibold py-4 px-6 rounded-xl transition-colors shadow-lg"
+                >
+                  {sendingAllClear ? 'Sending All Clear...' : 'I Am Safe - Send All Clear'}
+                </button>
+                <button
+                  onClick={() => requestAllClear('cancelled')}
+                  disabled={sendingAllClear}
+                  className="w-full bg-white bg-opacity-10 hover:bg-opacity-20 disabled:opacity-60 text-white font-medium py-3 px-6 rounded-xl transition-colors"
+                >
+                  It Was a False Alarm
+                </button>
+              </>
             )}
             
             <button
@@ -205,6 +463,14 @@ export const AlertConfirmationScreen: React.FC<AlertConfirmationScreenProps> = (
           </div>
         </div>
       </div>
+
+      {pinFor && (
+        <PinEntry
+          title={pinFor === 'cancelled' ? 'Enter your PIN to cancel the alert' : 'Enter your PIN to send the all clear'}
+          onSubmit={handlePinAllClear}
+          onClose={() => setPinFor(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
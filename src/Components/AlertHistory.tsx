@@ -0,0 +1,389 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Clock, Download, MapPin, Mic, RefreshCw, ShieldCheck, Trash2, Users } from 'lucide-react';
+import { AlertHistoryDetail, AlertHistoryEntry, AlertTriggerSource, EvidenceRecording, EvidenceVerification, IncidentStatus } from '../types';
+import { evidenceService } from '../services/evidenceService';
+import { historyService } from '../services/historyService';
+import { useAlertHistory } from '../hooks/useAlertHistory';
+
+interface AlertHistoryProps {
+  onBack: () => void;
+}
+
+const TRIGGER_LABELS: Record<AlertTriggerSource, string> = {
+  long_press: 'SOS button',
+  voice: 'Voice command',
+  threat_detection: 'Threat detected',
+  emergency_voice: 'Emergency assistant',
+  safety_timer: 'Safety timer ran out',
+  duress_pin: 'Duress PIN',
+  duress_phrase: 'Duress phrase'
+};
+
+const STATUS_STYLES: Record<IncidentStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-red-100 text-red-700' },
+  acknowledged: { label: 'Acknowledged', className: 'bg-amber-100 text-amber-700' },
+  resolved: { label: 'Resolved', className: 'bg-green-100 text-green-700' },
+  cancelled: { label: 'False alarm', className: 'bg-gray-100 text-gray-700' }
+};
+
+const alertTitle = (entry: AlertHistoryEntry): string =>
+  entry.alertType === 'SOS_PANIC' ? 'SOS alert' : 'Aura alert';
+
+const StatusBadge: React.FC<{ status: IncidentStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status].className}`}>
+    {STATUS_STYLES[status].label}
+  </span>
+);
+
+const describeVerification = (verification: EvidenceVerification): string => {
+  if (!verification.valid) return `Integrity check failed: ${verification.problem}`;
+  if (verification.complete) return `All ${verification.chunksChecked} chunks verified`;
+  return `${verification.chunksChecked} chunks verified; the recording was cut off after them`;
+};
+
+/**
+ * One evidence recording, with its integrity check and a decrypted download
+ */
+const EvidenceItem: React.FC<{ recording: EvidenceRecording }> = ({ recording }) => {
+  const [busy, setBusy] = useState<'verify' | 'download' | null>(null);
+  const [verification, setVerification] = useState<EvidenceVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: 'verify' | 'download') => {
+    setBusy(action);
+    setError(null);
+    try {
+      if (action === 'verify') {
+        setVerification(await evidenceService.verify(recording));
+      } else {
+        await evidenceService.download(recording);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this recording');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <li className="space-y-1">
+      <p className="text-sm text-gray-800">
+        {new Date(recording.startedAt).toLocaleTimeString()}
+        {recording.endedAt
+          ? ` - ${new Date(recording.endedAt).toLocaleTimeString()} · ${recording.chunkCount ?? 0} chunks`
+          : ' · cut off before it ended'}
+      </p>
+      {verification && (
+        <p className={`text-xs ${verification.valid ? 'text-green-700' : 'text-red-700'}`}>
+          {describeVerification(verification)}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-700">{error}</p>}
+      <div className="flex space-x-2">
+        <button
+          onClick={() => run('verify')}
+          disabled={busy !== null}
+          className="flex items-center space-x-1 px-3 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <ShieldCheck className="w-3 h-3" />
+          <span>{busy === 'verify' ? 'Verifying...' : 'Verify'}</span>
+        </button>
+        <button
+          onClick={() => run('download')}
+          disabled={busy !== null}
+          className="flex items-center space-x-1 px-3 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="w-3 h-3" />
+          <span>{busy === 'download' ? 'Decrypting...' : 'Download'}</span>
+        </button>
+      </div>
+    </li>
+  );
+};
+
+interface AlertDetailProps {
+  entry: AlertHistoryEntry;
+  onBack: () => void;
+  onDelete: (alertId: string) => Promise<void>;
+}
+
+/**
+ * One past alert: what was sent to whom, where, and everything that happened afterwards
+ */
+const AlertDetail: React.FC<AlertDetailProps> = ({ entry, onBack, onDelete }) => {
+  const [detail, setDetail] = useState<AlertHistoryDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    historyService.getDetail(entry.id)
+      .then(next => {
+        if (!cancelled) setDetail(next);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load this alert');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id]);
+
+  const shown = detail ?? entry;
+  const canDelete = historyService.canDelete(shown);
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this alert and its timeline? This cannot be undone. Evidence recordings are kept.')) return;
+
+    setDeleting(true);
+    try {
+      await onDelete(entry.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete this alert');
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-6 space-y-4">
+      <button onClick={onBack} className="flex items-center space-x-1 text-sm text-aura-primary">
+        <ArrowLeft className="w-4 h-4" />
+        <span>All alerts</span>
+      </button>
+
+      <div className="bg-white rounded-lg shadow-sm p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-gray-900">{alertTitle(shown)}</h2>
+          <StatusBadge status={shown.incident.status} />
+        </div>
+        <p className="text-sm text-gray-600">
+          {new Date(shown.createdAt).toLocaleString()}
+          {shown.triggerSource && ` · ${TRIGGER_LABELS[shown.triggerSource]}`}
+        </p>
+        {shown.incident.resolutionReason && (
+          <p className="text-sm text-gray-700">"{shown.incident.resolutionReason}"</p>
+        )}
+      </div>
+
+      {shown.location && (
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+          <iframe
+            title="Alert location"
+            className="w-full h-48 border-0"
+            src={`https://www.openstreetmap.org/export/embed.html?bbox=${shown.location.longitude - 0.005},${shown.location.latitude - 0.003},${shown.location.longitude + 0.005},${shown.location.latitude + 0.003}&marker=${shown.location.latitude},${shown.location.longitude}`}
+          />
+          <a
+            href={`https://www.google.com/maps?q=${shown.location.latitude},${shown.location.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block px-4 py-2 text-aura-primary text-sm underline"
+          >
+            {shown.location.latitude.toFixed(5)}, {shown.location.longitude.toFixed(5)} - open in Google Maps →
+          </a>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <h3 className="font-medium text-gray-800 mb-2 flex items-center space-x-2">
+          <Users className="w-4 h-4" />
+          <span>Contacts ({shown.contactsNotified}/{shown.outcomes.length} reached)</span>
+        </h3>
+        {shown.outcomes.length === 0 ? (
+          <p className="text-sm text-gray-500">No contact results were recorded.</p>
+        ) : (
+          <ul className="space-y-1">
+            {shown.outcomes.map((outcome, index) => {
+              const receipt = detail?.deliveries.find(delivery => delivery.messageSid === outcome.messageId);
+              const ack = detail?.acknowledgements.find(item => item.phoneNumber === outcome.phoneNumber);
+              return (
+                <li key={`${outcome.phoneNumber}-${index}`} className="text-sm flex justify-between">
+                  <span className="text-gray-800">{outcome.contactName} <span className="text-gray-500">({outcome.channel ?? 'sms'})</span></span>
+                  <span className={outcome.status === 'sent' ? 'text-green-700' : 'text-red-700'}>
+                    {ack ? 'Acknowledged' : receipt ? receipt.status : outcome.status === 'sent' ? 'Sent' : 'Failed'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <h3 className="font-medium text-gray-800 mb-2 flex items-center space-x-2">
+          <Clock className="w-4 h-4" />
+          <span>Timeline</span>
+        </h3>
+        {!detail && !error && <p className="text-sm text-gray-500">Loading timeline...</p>}
+        {detail && (
+          <ol className="border-l-2 border-gray-200 space-y-3 ml-1">
+            {detail.timeline.map(event => (
+              <li key={event.id} className="pl-3 relative">
+                <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-aura-primary" />
+                <p className="text-sm text-gray-800">{event.label}</p>
+                <p className="text-xs text-gray-500">{new Date(event.timestamp).toLocaleString()}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {detail && detail.evidence.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-4">
+          <h3 className="font-medium text-gray-800 mb-2 flex items-center space-x-2">
+            <Mic className="w-4 h-4" />
+            <span>Evidence recordings</span>
+          </h3>
+          <ul className="space-y-3">
+            {detail.evidence.map(recording => (
+              <EvidenceItem key={recording.sessionId} recording={recording} />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={() => historyService.download(historyService.toJson([shown]), 'json')}
+          className="flex-1 flex items-center justify-center space-x-1 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export JSON</span>
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!canDelete || deleting}
+          className="flex-1 flex items-center justify-center space-x-1 py-2 border border-red-300 rounded-md text-sm text-red-700 hover:bg-red-50 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>{deleting ? 'Deleting...' : 'Delete'}</span>
+        </button>
+      </div>
+      {!canDelete && (
+        <p className="text-xs text-gray-500 text-center">
+          This alert is still under way. Send the all-clear before deleting it.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Past alerts from the user's account, newest first
+ */
+export const AlertHistory: React.FC<AlertHistoryProps> = ({ onBack }) => {
+  const history = useAlertHistory();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = history.entries.find(entry => entry.id === selectedId) ?? null;
+
+  const handleDelete = async (alertId: string) => {
+    await history.remove([alertId]);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-aura-background">
+      {/* Header */}
+      <div className="bg-white shadow-sm">
+        <div className="max-w-md mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={onBack}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-600" />
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Alert History</h1>
+            </div>
+            <button
+              onClick={history.refresh}
+              disabled={history.loading}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-5 h-5 text-gray-600 ${history.loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {selected ? (
+        <AlertDetail entry={selected} onBack={() => setSelectedId(null)} onDelete={handleDelete} />
+      ) : (
+        <div className="max-w-md mx-auto px-4 py-6 space-y-4">
+          {history.error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-red-700 text-sm">{history.error}</p>
+            </div>
+          )}
+
+          {!history.loading && !history.error && history.entries.length === 0 && (
+            <p className="text-gray-600 text-center">No alerts have been sent from this account.</p>
+          )}
+
+          {history.entries.length > 0 && (
+            <>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => historyService.download(historyService.toJson(history.entries), 'json')}
+                  className="flex-1 flex items-center justify-center space-x-1 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Export JSON</span>
+                </button>
+                <button
+                  onClick={() => historyService.download(historyService.toCsv(history.entries), 'csv')}
+                  className="flex-1 flex items-center justify-center space-x-1 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Export CSV</span>
+                </button>
+              </div>
+
+              <ul className="space-y-2">
+                {history.entries.map(entry => (
+                  <li key={entry.id}>
+                    <button
+                      onClick={() => setSelectedId(entry.id)}
+                      className="w-full text-left bg-white rounded-lg shadow-sm p-4 hover:bg-gray-50 transition-colors space-y-1"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{alertTitle(entry)}</span>
+                        <StatusBadge status={entry.incident.status} />
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {new Date(entry.createdAt).toLocaleString()}
+                        {entry.triggerSource && ` · ${TRIGGER_LABELS[entry.triggerSource]}`}
+                      </p>
+                      <div className="flex items-center space-x-4 text-xs text-gray-500">
+                        <span className="flex items-center space-x-1">
+                          <Users className="w-3 h-3" />
+                          <span>{entry.contactsNotified}/{entry.outcomes.length} reached</span>
+                        </span>
+                        <span className="flex items-center space-x-1">
+                          <MapPin className="w-3 h-3" />
+                          <span>
+                            {entry.location
+                              ? `${entry.location.latitude.toFixed(3)}, ${entry.location.longitude.toFixed(3)}`
+                              : 'No location'}
+                          </span>
+                        </span>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { Plus, Trash2, User, Phone } from 'lucide-react';
-import { EmergencyContact } from '../types';
+import { Plus, Trash2, User, Phone, Mail, Webhook } from 'lucide-react';
+import { EmergencyContact, NotificationChannelType } from '../types';
 
 interface ContactManagerProps {
   contacts: EmergencyContact[];
@@ -8,13 +8,21 @@ interface ContactManagerProps {
   maxContacts?: number;
 }
 
+const CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  sms: 'Text message',
+  email: 'Email',
+  webhook: 'Webhook'
+};
+
+const EMPTY_FORM = { name: '', phoneNumber: '', channel: 'sms' as NotificationChannelType, email: '', webhookUrl: '' };
+
 export const ContactManager: React.FC<ContactManagerProps> = ({
   contacts,
   onContactsUpdate,
   maxContacts = 3
 }) => {
   const [showAddForm, setShowAddForm] = useState(false);
-  const [formData, setFormData] = useState({ name: '', phoneNumber: '' });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   const handleAddContact = () => {
     if (!formData.name.trim() || !formData.phoneNumber.trim()) {
@@ -22,17 +30,39 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
       return;
     }
 
+    // The phone number stays required: alerts fall back to SMS if the channel fails
+    if (formData.channel === 'email' && !/^\S+@\S+\.\S+$/.test(formData.email.trim())) {
+      alert('Please enter a valid email address');
+      return;
+    }
+
+    if (formData.channel === 'webhook' && !formData.webhookUrl.trim().startsWith('https://')) {
+      alert('Webhook URL must start with https://');
+      return;
+    }
+
     const newContact: EmergencyContact = {
-      id: `contact_${Date.now()}`,
+      id: crypto.randomUUID(),
       name: formData.name.trim(),
-      phoneNumber: formData.phoneNumber.trim()
+      phoneNumber: formData.phoneNumber.trim(),
+      channel: formData.channel,
+      ...(formData.channel === 'email' && { email: formData.email.trim() }),
+      ...(formData.channel === 'webhook' && { webhookUrl: formData.webhookUrl.trim() })
     };
 
     onContactsUpdate([...contacts, newContact]);
-    setFormData({ name: '', phoneNumber: '' });
+    setFormData(EMPTY_FORM);
     setShowAddForm(false);
   };
 
+  const handleTogglePriority = (contactId: string) => {
+    onContactsUpdate(contacts.map(contact =>
+      contact.id === contactId
+        ? { ...contact, priority: contact.priority === 'secondary' ? 'primary' : 'secondary' }
+        : contact
+    ));
+  };
+
   const handleRemoveContact = (contactId: string) => {
     onContactsUpdate(contacts.filter(contact => contact.id !== contactId));
   };
@@ -62,14 +92,39 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
                   <Phone className="w-3 h-3 mr-1" />
                   {contact.phoneNumber}
                 </p>
+                {contact.channel === 'email' && contact.email && (
+                  <p className="text-sm text-gray-600 flex items-center">
+                    <Mail className="w-3 h-3 mr-1" />
+                    {contact.email}
+                  </p>
+                )}
+                {contact.channel === 'webhook' && contact.webhookUrl && (
+                  <p className="text-sm text-gray-600 flex items-center truncate">
+                    <Webhook className="w-3 h-3 mr-1" />
+                    {contact.webhookUrl}
+                  </p>
+                )}
               </div>
             </div>
-            <button
-              onClick={() => handleRemoveContact(contact.id)}
-              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => handleTogglePriority(contact.id)}
+                title="Secondary contacts are only alerted if nobody responds"
+                className={`text-xs font-medium px-2 py-1 rounded-full transition-colors ${
+                  contact.priority === 'secondary'
+                    ? 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    : 'bg-indigo-100 text-aura-primary hover:bg-indigo-200'
+                }`}
+              >
+                {contact.priority === 'secondary' ? 'Secondary' : 'Primary'}
+              </button>
+              <button
+                onClick={() => handleRemoveContact(contact.id)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         ))}
       </div>
@@ -93,6 +148,33 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
               onChange={(e) => setFormData(prev => ({ ...prev, phoneNumber: e.target.value }))}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
             />
+            <select
+              value={formData.channel}
+              onChange={(e) => setFormData(prev => ({ ...prev, channel: e.target.value as NotificationChannelType }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+            >
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannelType[]).map(channel => (
+                <option key={channel} value={channel}>Alert by: {CHANNEL_LABELS[channel]}</option>
+              ))}
+            </select>
+            {formData.channel === 'email' && (
+              <input
+                type="email"
+                placeholder="Email address"
+                value={formData.email}
+                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+              />
+            )}
+            {formData.channel === 'webhook' && (
+              <input
+                type="url"
+                placeholder="https://example.com/aura-alerts"
+                value={formData.webhookUrl}
+                onChange={(e) => setFormData(prev => ({ ...prev, webhookUrl: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+              />
+            )}
           </div>
           <div className="flex space-x-2">
             <button
@@ -104,7 +186,7 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
             <button
               onClick={() => {
                 setShowAddForm(false);
-                setFormData({ name: '', phoneNumber: '' });
+                setFormData(EMPTY_FORM);
               }}
               className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
             >
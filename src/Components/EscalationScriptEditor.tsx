@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Siren } from 'lucide-react';
+import { EscalationScript, EscalationStep } from '../types';
+import {
+  createEscalationStep,
+  defaultEscalationScript,
+  selectEscalationScript
+} from '../services/escalationScripts';
+
+interface EscalationScriptEditorProps {
+  scripts: EscalationScript[];
+  activeLanguage: string;
+  onScriptsUpdate: (scripts: EscalationScript[]) => void;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  'en': 'English',
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'es': 'Spanish',
+  'es-ES': 'Spanish',
+  'fr': 'French',
+  'fr-FR': 'French',
+  'de-DE': 'German',
+  'zh-CN': 'Chinese (Simplified)',
+  'ja-JP': 'Japanese',
+  'ko-KR': 'Korean',
+  'ar-SA': 'Arabic',
+  'hi-IN': 'Hindi'
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent';
+
+export const EscalationScriptEditor: React.FC<EscalationScriptEditorProps> = ({
+  scripts,
+  activeLanguage,
+  onScriptsUpdate
+}) => {
+  const [selectedLanguage, setSelectedLanguage] = useState(
+    () => selectEscalationScript(scripts, activeLanguage).language
+  );
+
+  const script = scripts.find(candidate => candidate.language === selectedLanguage)
+    ?? selectEscalationScript(scripts, activeLanguage);
+  const missingLanguages = Object.keys(LANGUAGE_NAMES)
+    .filter(language => language.includes('-') && !scripts.some(candidate => candidate.language === language));
+
+  const updateSteps = (steps: EscalationStep[]) => {
+    onScriptsUpdate(scripts.map(candidate =>
+      candidate.language === script.language ? { ...candidate, steps } : candidate
+    ));
+  };
+
+  const handleStepUpdate = (stepId: string, updates: Partial<EscalationStep>) => {
+    updateSteps(script.steps.map(step => (step.id === stepId ? { ...step, ...updates } : step)));
+  };
+
+  const handleMoveStep = (index: number, offset: -1 | 1) => {
+    const steps = [...script.steps];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    updateSteps(steps);
+  };
+
+  const handleAddVariant = (language: string) => {
+    onScriptsUpdate([...scripts, defaultEscalationScript(language)]);
+    setSelectedLanguage(language);
+  };
+
+  const handleRemoveVariant = () => {
+    const remaining = scripts.filter(candidate => candidate.language !== script.language);
+    onScriptsUpdate(remaining);
+    setSelectedLanguage(selectEscalationScript(remaining, activeLanguage).language);
+  };
+
+  const handleReset = () => {
+    const defaults = defaultEscalationScript(script.language);
+    updateSteps(defaults.steps);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium text-gray-800">Fake Call Warnings</p>
+        <p className="text-sm text-gray-500">
+          What Aura says during a fake call. The variant matching your voice recognition language is used.
+        </p>
+      </div>
+
+      <div className="flex space-x-2">
+        <select
+          value={script.language}
+          onChange={(e) => setSelectedLanguage(e.target.value)}
+          className={inputClassName}
+        >
+          {scripts.map(candidate => (
+            <option key={candidate.language} value={candidate.language}>
+              {LANGUAGE_NAMES[candidate.language] ?? candidate.language}
+            </option>
+          ))}
+        </select>
+        {missingLanguages.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleAddVariant(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Add language...</option>
+            {missingLanguages.map(language => (
+              <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {script.steps.map((step, index) => (
+          <div key={step.id} className="bg-gray-50 rounded-lg p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">Step {index + 1}</span>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => handleMoveStep(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:bg-gray-200 rounded disabled:opacity-30"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleMoveStep(index, 1)}
+                  disabled={index === script.steps.length - 1}
+                  className="p-1 text-gray-500 hover:bg-gray-200 rounded disabled:opacity-30"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => updateSteps(script.steps.filter(candidate => candidate.id !== step.id))}
+                  disabled={script.steps.length === 1}
+                  className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-30"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={step.text}
+              onChange={(e) => handleStepUpdate(step.id, { text: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={step.voice}
+              onChange={(e) => handleStepUpdate(step.id, { voice: e.target.value })}
+              placeholder="Voice (leave empty for Aura's voice)"
+              className={inputClassName}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm text-gray-600">
+                Pause after (s)
+                <input
+                  type="number"
+                  min={0}
+                  max={120}
+                  value={step.delayMs / 1000}
+                  onChange={(e) => handleStepUpdate(step.id, { delayMs: Math.max(0, Number(e.target.value)) * 1000 })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Volume {Math.round(step.volume * 100)}%
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.1}
+                  value={step.volume}
+                  onChange={(e) => handleStepUpdate(step.id, { volume: parseFloat(e.target.value) })}
+                  className="w-full mt-3 accent-aura-primary"
+                />
+              </label>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={step.sirenAfter}
+                onChange={(e) => handleStepUpdate(step.id, { sirenAfter: e.target.checked })}
+              />
+              <Siren className="w-4 h-4" />
+              <span>Play a siren before the next step</span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => updateSteps([...script.steps, createEscalationStep()])}
+          className="flex items-center space-x-1 text-sm text-aura-primary font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add step</span>
+        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleReset}
+            className="flex items-center space-x-1 text-sm text-gray-500"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset</span>
+          </button>
+          {scripts.length > 1 && (
+            <button
+              onClick={handleRemoveVariant}
+              className="flex items-center space-x-1 text-sm text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Remove language</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,31 @@
 import { useState, useEffect } from 'react';
-import { Phone, PhoneOff, Mic, MicOff, Volume2 } from 'lucide-react';
+import { Phone, PhoneOff, Mic, MicOff, Volume2, Pause, Play, SkipForward } from 'lucide-react';
+import { EscalationProgress } from '../types';
 
 interface FakeCallScreenProps {
   callerName: string;
   onEndCall: () => void;
   onCallAnswered: () => void;
+  warningProgress?: EscalationProgress;
+  onPauseWarnings?: () => void;
+  onResumeWarnings?: () => void;
+  onSkipWarning?: () => void;
 }
 
+const PHASE_LABELS = {
+  speaking: 'Speaking',
+  siren: 'Siren',
+  waiting: 'Next warning soon'
+} as const;
+
 export const FakeCallScreen: React.FC<FakeCallScreenProps> = ({
   callerName,
   onEndCall,
-  onCallAnswered
+  onCallAnswered,
+  warningProgress,
+  onPauseWarnings,
+  onResumeWarnings,
+  onSkipWarning
 }) => {
   const [callDuration, setCallDuration] = useState(0);
   const [isAnswered, setIsAnswered] = useState(false);
@@ -53,6 +68,8 @@ export const FakeCallScreen: React.FC<FakeCallScreenProps> = ({
     setIsMuted(!isMuted);
   };
 
+  const warningsActive = warningProgress?.status === 'playing' || warningProgress?.status === 'paused';
+
   return (
     <div className="fixed inset-0 bg-black z-50 flex flex-col">
       {/* Status Bar */}
@@ -95,6 +112,51 @@ export const FakeCallScreen: React.FC<FakeCallScreenProps> = ({
               </p>
             </div>
           )}
+
+          {/* Escalation Warning Progress */}
+          {isAnswered && warningProgress && warningsActive && (
+            <div className="mt-6 space-y-3">
+              <div className="flex justify-center space-x-2">
+                {Array.from({ length: warningProgress.totalSteps }, (_, index) => (
+                  <div
+                    key={index}
+                    className={`w-2 h-2 rounded-full ${
+                      index < warningProgress.stepIndex
+                        ? 'bg-gray-400'
+                        : index === warningProgress.stepIndex
+                          ? 'bg-green-400'
+                          : 'bg-gray-700'
+                    }`}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">
+                Warning {warningProgress.stepIndex + 1} of {warningProgress.totalSteps}
+                {' · '}
+                {warningProgress.status === 'paused'
+                  ? 'Paused'
+                  : warningProgress.phase && PHASE_LABELS[warningProgress.phase]}
+              </p>
+              <div className="flex justify-center space-x-4">
+                <button
+                  onClick={warningProgress.status === 'paused' ? onResumeWarnings : onPauseWarnings}
+                  className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center"
+                >
+                  {warningProgress.status === 'paused' ? (
+                    <Play className="w-4 h-4 text-white" />
+                  ) : (
+                    <Pause className="w-4 h-4 text-white" />
+                  )}
+                </button>
+                <button
+                  onClick={onSkipWarning}
+                  className="w-10 h-10 bg-gray-700 rounded-full flex items-center justify-center"
+                >
+                  <SkipForward className="w-4 h-4 text-white" />
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Call Controls */}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, CloudOff, RefreshCw, X } from 'lucide-react';
+import { OutboxEntry } from '../types';
+import { alertOutbox } from '../services/alertOutbox';
+
+interface OutboxStatusProps {
+  entries: OutboxEntry[];
+  variant?: 'light' | 'dark';
+}
+
+export const OutboxStatus: React.FC<OutboxStatusProps> = ({
+  entries,
+  variant = 'light'
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const waiting = entries.filter(entry => entry.status !== 'dropped');
+  const dropped = entries.filter(entry => entry.status === 'dropped');
+
+  // Tick so the retry countdown stays current
+  useEffect(() => {
+    if (waiting.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting.length]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const containerClass = variant === 'dark'
+    ? 'bg-amber-500 bg-opacity-20 border border-amber-400 border-opacity-30 rounded-xl p-4'
+    : 'bg-amber-50 border border-amber-200 rounded-lg p-4';
+  const titleClass = variant === 'dark' ? 'text-amber-200' : 'text-amber-800';
+  const textClass = variant === 'dark' ? 'text-amber-100' : 'text-amber-700';
+  const droppedContainerClass = variant === 'dark'
+    ? 'bg-red-500 bg-opacity-20 border border-red-400 border-opacity-30 rounded-xl p-4'
+    : 'bg-red-50 border border-red-200 rounded-lg p-4';
+  const droppedTitleClass = variant === 'dark' ? 'text-red-200' : 'text-red-800';
+  const droppedTextClass = variant === 'dark' ? 'text-red-100' : 'text-red-700';
+
+  return (
+    <div className="space-y-3">
+      {dropped.length > 0 && (
+        <div className={droppedContainerClass}>
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className={`w-5 h-5 mt-0.5 ${droppedTitleClass}`} />
+            <div className="flex-1 space-y-2">
+              <h4 className={`font-medium ${droppedTitleClass}`}>
+                {dropped.length === 1 ? '1 alert was NOT sent' : `${dropped.length} alerts were NOT sent`}
+              </h4>
+              {dropped.map((entry) => (
+                <div key={entry.id} className={`text-sm ${droppedTextClass} flex items-start space-x-2`}>
+                  <span className="flex-1">
+                    {entry.kind === 'SOS' ? 'SOS alert' : 'Safety alert'} from {new Date(entry.createdAt).toLocaleTimeString()}
+                    {entry.lastError && ` · ${entry.lastError}`}
+                  </span>
+                  <button
+                    onClick={() => alertOutbox.remove(entry.id)}
+                    className="p-0.5 rounded hover:bg-black hover:bg-opacity-10"
+                    aria-label="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <p className={`text-xs ${droppedTextClass}`}>
+                Aura stopped retrying so your contacts do not get an out-of-date alert. If you still
+                need help, call them or your local emergency services directly.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+      {waiting.length > 0 && (
+        <div className={containerClass}>
+          <div className="flex items-start space-x-3">
+            <CloudOff className={`w-5 h-5 mt-0.5 ${titleClass}`} />
+            <div className="flex-1 space-y-2">
+              <h4 className={`font-medium ${titleClass}`}>
+                {waiting.length === 1 ? '1 alert waiting to send' : `${waiting.length} alerts waiting to send`}
+              </h4>
+              {waiting.map((entry) => {
+                const secondsUntilRetry = Math.max(0, Math.ceil((entry.nextAttemptAt - now) / 1000));
+                return (
+                  <div key={entry.id} className={`text-sm ${textClass} flex items-center space-x-2`}>
+                    <RefreshCw className={`w-3 h-3 ${secondsUntilRetry === 0 ? 'animate-spin' : ''}`} />
+                    <span>
+                      {entry.kind === 'SOS' ? 'SOS alert' : 'Safety alert'} from {new Date(entry.createdAt).toLocaleTimeString()}
+                      {' · '}
+                      {entry.status === 'pending'
+                        ? 'sending...'
+                        : secondsUntilRetry === 0
+                        ? `retrying (attempt ${entry.attempts + 1})...`
+                        : `retry in ${secondsUntilRetry}s`}
+                    </span>
+                  </div>
+                );
+              })}
+              <p className={`text-xs ${textClass}`}>
+                Aura keeps retrying automatically for up to 30 minutes until the alert service confirms it.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
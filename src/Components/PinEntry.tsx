@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Delete, X } from 'lucide-react';
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH } from '../services/duressService';
+
+interface PinEntryProps {
+  title: string;
+  onSubmit: (pin: string) => Promise<boolean>; // false when the PIN is wrong
+  onClose: () => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+/**
+ * Keypad for the cancel PIN. The cancel and duress PINs are accepted the same way, so nobody
+ * watching can tell which one was entered.
+ */
+export const PinEntry: React.FC<PinEntryProps> = ({
+  title,
+  onSubmit,
+  onClose
+}) => {
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [wrong, setWrong] = useState(false);
+
+  const handleKey = (key: string) => {
+    setWrong(false);
+    if (key === 'delete') {
+      setPin(current => current.slice(0, -1));
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin(current => current + key);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setChecking(true);
+    try {
+      if (!(await onSubmit(pin))) {
+        setWrong(true);
+        setPin('');
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-end sm:items-center justify-center">
+      <div className="bg-white w-full max-w-md rounded-t-2xl sm:rounded-2xl p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg" aria-label="Close">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex justify-center space-x-3 h-4" aria-live="polite">
+          {Array.from({ length: Math.max(MIN_PIN_LENGTH, pin.length) }, (_, index) => (
+            <span
+              key={index}
+              className={`w-3 h-3 rounded-full ${index < pin.length ? 'bg-gray-900' : 'bg-gray-300'}`}
+            />
+          ))}
+        </div>
+        <p className={`text-sm text-center h-5 ${wrong ? 'text-red-600' : 'text-gray-500'}`}>
+          {wrong ? 'Incorrect PIN' : 'Enter your PIN'}
+        </p>
+
+        <div className="grid grid-cols-3 gap-3">
+          {KEYS.map((key, index) => key === '' ? (
+            <span key={index} />
+          ) : (
+            <button
+              key={index}
+              onClick={() => handleKey(key)}
+              disabled={checking}
+              className="h-14 rounded-xl bg-gray-100 hover:bg-gray-200 text-xl font-semibold text-gray-900 flex items-center justify-center"
+              aria-label={key === 'delete' ? 'Delete' : key}
+            >
+              {key === 'delete' ? <Delete className="w-5 h-5" /> : key}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={checking || pin.length < MIN_PIN_LENGTH}
+          className="w-full bg-aura-primary text-white font-semibold py-3 rounded-xl disabled:opacity-50"
+        >
+          Confirm
+        </button>
+      </div>
+    </div>
+  );
+};
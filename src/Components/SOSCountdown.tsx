@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Mic, Send, X } from 'lucide-react';
+import { PinEntry } from './PinEntry';
+
+interface SOSCountdownProps {
+  remainingMs: number;
+  cancelWord: string | null; // spoken word that cancels, when voice activation is listening
+  onCancel: () => void;
+  onCancelWithPin?: (pin: string) => Promise<boolean>; // set when cancelling takes a PIN; false when wrong
+  onSendNow: () => void;
+}
+
+export const SOSCountdown: React.FC<SOSCountdownProps> = ({
+  remainingMs,
+  cancelWord,
+  onCancel,
+  onCancelWithPin,
+  onSendNow
+}) => {
+  const [askingPin, setAskingPin] = useState(false);
+
+  return (
+    <div className="fixed inset-0 bg-red-600 z-50 flex flex-col items-center justify-between px-6 py-12 text-white">
+      <div className="text-center">
+        <h1 className="text-2xl font-semibold">Sending SOS alert</h1>
+        <p className="text-red-100 mt-1">Your emergency contacts will be alerted with your location</p>
+      </div>
+
+      <div className="text-center" aria-live="assertive">
+        <div className="text-8xl font-bold tabular-nums">{Math.ceil(remainingMs / 1000)}</div>
+        {cancelWord && (
+          <p className="flex items-center justify-center space-x-2 mt-4 text-red-100">
+            <Mic className="w-4 h-4" />
+            <span>Say "{cancelWord}" to stop it</span>
+          </p>
+        )}
+      </div>
+
+      <div className="w-full max-w-md space-y-3">
+        <button
+          onClick={() => (onCancelWithPin ? setAskingPin(true) : onCancel())}
+          className="w-full flex items-center justify-center space-x-2 py-6 bg-white text-red-700 rounded-2xl text-2xl font-bold shadow-lg active:bg-red-50"
+        >
+          <X className="w-7 h-7" />
+          <span>Cancel</span>
+        </button>
+        <button
+          onClick={onSendNow}
+          className="w-full flex items-center justify-center space-x-2 py-3 text-red-100 font-medium hover:text-white"
+        >
+          <Send className="w-4 h-4" />
+          <span>Send now</span>
+        </button>
+      </div>
+
+      {/* The countdown keeps running underneath: a PIN that is not entered in time sends the alert */}
+      {askingPin && onCancelWithPin && (
+        <PinEntry
+          title="Enter your PIN to cancel"
+          onSubmit={onCancelWithPin}
+          onClose={() => setAskingPin(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { PinEntry } from './PinEntry';
+import { duressService, MAX_PIN_LENGTH } from '../services/duressService';
+
+interface SafetyCodesSettingsProps {
+  language: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent';
+
+export const SafetyCodesSettings: React.FC<SafetyCodesSettingsProps> = ({ language }) => {
+  const [status, setStatus] = useState(() => duressService.getStatus());
+  // Changing codes that are already set takes the current cancel PIN
+  const [unlocked, setUnlocked] = useState(() => !duressService.isPinRequired());
+  const [askingPin, setAskingPin] = useState(false);
+  const [cancelPin, setCancelPin] = useState('');
+  const [duressPin, setDuressPin] = useState('');
+  const [duressPhrase, setDuressPhrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Hashing is deliberately slow, so saving takes a moment
+  const [saving, setSaving] = useState(false);
+
+  const resetForm = () => {
+    setCancelPin('');
+    setDuressPin('');
+    setDuressPhrase('');
+    setError(null);
+    setStatus(duressService.getStatus());
+    setUnlocked(!duressService.isPinRequired());
+  };
+
+  const handleUnlock = async (pin: string) => {
+    if ((await duressService.verifyPin(pin)) !== 'cancel') return false;
+    setAskingPin(false);
+    setUnlocked(true);
+    return true;
+  };
+
+  const handleSave = async () => {
+    const codes = {
+      cancelPin,
+      duressPin: duressPin || undefined,
+      duressPhrase: duressPhrase.trim() || undefined
+    };
+    const problem = duressService.validate(codes, language);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    try {
+      await duressService.save(codes);
+      resetForm();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    duressService.clear();
+    resetForm();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="w-12 h-12 bg-aura-primary rounded-full flex items-center justify-center">
+          <KeyRound className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Cancel PIN and Duress Codes</h3>
+          <p className="text-sm text-gray-600">If someone forces you to cancel an alert</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        With a cancel PIN, an SOS can only be cancelled or closed with it. Entering your duress PIN
+        instead, or saying your duress phrase during the countdown, looks exactly like a normal cancel
+        while your contacts get a silent alert with your live location.
+      </p>
+
+      <ul className="text-sm text-gray-700 space-y-1">
+        <li>Cancel PIN: {status.cancelPin ? 'set' : 'not set'}</li>
+        <li>Duress PIN: {status.duressPin ? 'set' : 'not set'}</li>
+        <li>Duress phrase: {status.duressPhrase ? 'set' : 'not set'}</li>
+      </ul>
+
+      {unlocked ? (
+        <div className="space-y-3">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={MAX_PIN_LENGTH}
+            value={cancelPin}
+            onChange={(e) => setCancelPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="Cancel PIN"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={MAX_PIN_LENGTH}
+            value={duressPin}
+            onChange={(e) => setDuressPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="Duress PIN (optional)"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            autoComplete="off"
+            value={duressPhrase}
+            onChange={(e) => setDuressPhrase(e.target.value)}
+            placeholder="Duress phrase, e.g. I'm fine really (optional)"
+            className={inputClassName}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex space-x-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-aura-primary text-white font-medium py-2 rounded-md disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save codes'}
+            </button>
+            {status.cancelPin && (
+              <button
+                onClick={handleRemove}
+                className="flex-1 bg-gray-100 text-red-600 font-medium py-2 rounded-md hover:bg-gray-200"
+              >
+                Remove codes
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Only a hash of each code is kept, on this device. Remember them: they cannot be shown again.
+          </p>
+        </div>
+      ) : (
+        <button
+          onClick={() => setAskingPin(true)}
+          className="w-full bg-gray-100 text-gray-800 font-medium py-2 rounded-md hover:bg-gray-200"
+        >
+          Change codes
+        </button>
+      )}
+
+      {askingPin && (
+        <PinEntry
+          title="Enter your cancel PIN"
+          onSubmit={handleUnlock}
+          onClose={() => setAskingPin(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { ShieldCheck, Timer } from 'lucide-react';
+
+interface SafetyTimerStatusProps {
+  remainingMs: number;
+  onCancel: () => void;
+}
+
+const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SafetyTimerStatus: React.FC<SafetyTimerStatusProps> = ({
+  remainingMs,
+  onCancel
+}) => (
+  <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center space-x-3">
+        <Timer className="w-5 h-5 text-amber-700" />
+        <div>
+          <h4 className="font-medium text-amber-800">Safety timer: {formatRemaining(remainingMs)}</h4>
+          <p className="text-sm text-amber-700">An SOS alert goes out when it reaches zero</p>
+        </div>
+      </div>
+      <button
+        onClick={onCancel}
+        className="flex items-center space-x-1 px-3 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700"
+      >
+        <ShieldCheck className="w-4 h-4" />
+        <span>I'm safe</span>
+      </button>
+    </div>
+  </div>
+);
@@ -1,26 +1,70 @@
-import { useState } from 'react';
-import { ArrowLeft, User, Shield, HelpCircle, Mic } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { ArrowLeft, User, Shield, HelpCircle, Mic, BellRing, Cloud, Timer } from 'lucide-react';
 import { ContactManager } from './ContactManager';
-import { EmergencyContact, UserProfile } from '../types';
+import { EscalationScriptEditor } from './EscalationScriptEditor';
+import { WakePhraseEditor } from './WakePhraseEditor';
+import { SyncStatus } from './SyncStatus';
+import { SafetyCodesSettings } from './SafetyCodesSettings';
+import {
+  EmergencyContact,
+  EscalationPolicy,
+  SpeechProviderId,
+  SpeechSettings,
+  TranscriptionProviderId,
+  TranscriptionSettings,
+  UserProfile
+} from '../types';
+import { SPEECH_PROVIDER_DEFAULTS } from '../services/speechService';
+import { SyncControls } from '../hooks/useSync';
 
 interface SettingsProps {
   userProfile: UserProfile;
   onProfileUpdate: (profile: Partial<UserProfile>) => void;
+  sync: SyncControls;
   onBack: () => void;
 }
 
 export const Settings: React.FC<SettingsProps> = ({
   userProfile,
   onProfileUpdate,
+  sync,
   onBack
 }) => {
   const [activeTab, setActiveTab] = useState<'profile' | 'contacts' | 'help' | 'voice'>('contacts');
   const [userName, setUserName] = useState(userProfile.name);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Browsers load their voice list asynchronously
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+
+    const loadVoices = () => setBrowserVoices(speechSynthesis.getVoices());
+    loadVoices();
+    speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
 
   const handleContactsUpdate = (contacts: EmergencyContact[]) => {
     onProfileUpdate({ emergencyContacts: contacts });
   };
 
+  const handleTranscriptionUpdate = (updates: Partial<TranscriptionSettings>) => {
+    onProfileUpdate({ transcription: { ...userProfile.transcription, ...updates } });
+  };
+
+  const handleSpeechUpdate = (updates: Partial<SpeechSettings>) => {
+    onProfileUpdate({ speech: { ...userProfile.speech, ...updates } });
+  };
+
+  const handleSpeechProviderChange = (provider: SpeechProviderId) => {
+    // Voice ids are not portable between backends
+    handleSpeechUpdate({ provider, ...SPEECH_PROVIDER_DEFAULTS[provider] });
+  };
+
+  const handleEscalationPolicyUpdate = (updates: Partial<EscalationPolicy>) => {
+    onProfileUpdate({ escalationPolicy: { ...userProfile.escalationPolicy, ...updates } });
+  };
+
   const handleNameUpdate = () => {
     onProfileUpdate({ name: userName.trim() });
   };
@@ -105,7 +149,7 @@ export const Settings: React.FC<SettingsProps> = ({
               <div className="flex items-center justify-between">
                 <div>
                   <p className="font-medium text-gray-800">Enable Voice Activation</p>
-                  <p className="text-sm text-gray-500">Aura will listen for "Help Aura" to activate emergency mode</p>
+                  <p className="text-sm text-gray-500">Aura will listen for your wake phrases, like "Help Aura"</p>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
                   <input 
@@ -138,15 +182,154 @@ export const Settings: React.FC<SettingsProps> = ({
                 </select>
               </div>
 
+              <div className="pt-4 border-t border-gray-100">
+                <WakePhraseEditor
+                  phrases={userProfile.wakePhrases}
+                  activeLanguage={userProfile.voiceActivationLanguage || 'en-US'}
+                  onPhrasesUpdate={(wakePhrases) => onProfileUpdate({ wakePhrases })}
+                />
+              </div>
+
+              <div className="pt-4 border-t border-gray-100 space-y-3">
+                <div>
+                  <p className="font-medium text-gray-800">Speech-to-Text</p>
+                  <p className="text-sm text-gray-500">How Aura transcribes what it hears while active</p>
+                </div>
+                <select
+                  value={userProfile.transcription.provider}
+                  onChange={(e) => handleTranscriptionUpdate({ provider: e.target.value as TranscriptionProviderId })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                >
+                  <option value="whisper">OpenAI Whisper</option>
+                  <option value="local">Local server (offline)</option>
+                  <option value="web-speech">Browser speech recognition</option>
+                </select>
+                {userProfile.transcription.provider === 'local' && (
+                  <input
+                    type="url"
+                    value={userProfile.transcription.localServerUrl}
+                    onChange={(e) => handleTranscriptionUpdate({ localServerUrl: e.target.value })}
+                    placeholder="http://localhost:8080/v1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                  />
+                )}
+                {userProfile.transcription.provider !== 'web-speech' && (
+                  <input
+                    type="text"
+                    value={userProfile.transcription.model}
+                    onChange={(e) => handleTranscriptionUpdate({ model: e.target.value })}
+                    placeholder="Model"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                  />
+                )}
+                <select
+                  value={userProfile.transcription.language}
+                  onChange={(e) => handleTranscriptionUpdate({ language: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                >
+                  <option value="auto">Detect automatically</option>
+                  <option value="en">English</option>
+                  <option value="es">Spanish</option>
+                  <option value="fr">French</option>
+                  <option value="de">German</option>
+                  <option value="zh">Chinese</option>
+                  <option value="ja">Japanese</option>
+                  <option value="ko">Korean</option>
+                  <option value="ar">Arabic</option>
+                  <option value="hi">Hindi</option>
+                </select>
+              </div>
+
+              <div className="pt-4 border-t border-gray-100 space-y-3">
+                <div>
+                  <p className="font-medium text-gray-800">Aura's Voice</p>
+                  <p className="text-sm text-gray-500">How Aura speaks replies and fake call warnings</p>
+                </div>
+                <select
+                  value={userProfile.speech.provider}
+                  onChange={(e) => handleSpeechProviderChange(e.target.value as SpeechProviderId)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                >
+                  <option value="elevenlabs">ElevenLabs</option>
+                  <option value="local">Local server (offline)</option>
+                  <option value="browser">Browser voice</option>
+                </select>
+                {userProfile.speech.provider === 'local' && (
+                  <input
+                    type="url"
+                    value={userProfile.speech.localServerUrl}
+                    onChange={(e) => handleSpeechUpdate({ localServerUrl: e.target.value })}
+                    placeholder="http://localhost:8880/v1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                  />
+                )}
+                {userProfile.speech.provider === 'browser' ? (
+                  <select
+                    value={userProfile.speech.voice}
+                    onChange={(e) => handleSpeechUpdate({ voice: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                  >
+                    <option value="">System default</option>
+                    {browserVoices.map(voice => (
+                      <option key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang})
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      value={userProfile.speech.voice}
+                      onChange={(e) => handleSpeechUpdate({ voice: e.target.value })}
+                      placeholder="Voice id"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={userProfile.speech.model}
+                      onChange={(e) => handleSpeechUpdate({ model: e.target.value })}
+                      placeholder="Model"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+                    />
+                  </>
+                )}
+                <div>
+                  <label className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>Speaking rate</span>
+                    <span>{userProfile.speech.rate.toFixed(1)}x</span>
+                  </label>
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={1.5}
+                    step={0.1}
+                    value={userProfile.speech.rate}
+                    onChange={(e) => handleSpeechUpdate({ rate: parseFloat(e.target.value) })}
+                    className="w-full accent-aura-primary"
+                  />
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-gray-100">
+                <EscalationScriptEditor
+                  scripts={userProfile.escalationScripts}
+                  activeLanguage={userProfile.voiceActivationLanguage || 'en-US'}
+                  onScriptsUpdate={(escalationScripts) => onProfileUpdate({ escalationScripts })}
+                />
+              </div>
+
               <div className="bg-blue-50 rounded-lg p-4">
                 <div className="flex items-start space-x-2">
                   <HelpCircle className="w-5 h-5 text-blue-500 mt-0.5" />
                   <div>
                     <p className="font-medium text-blue-800">How Voice Activation Works</p>
                     <p className="text-sm text-blue-600 mt-1">
-                      When enabled, Aura will continuously listen for the phrase "Help Aura" in the background. 
-                      When detected, it will automatically trigger the emergency sequence without requiring 
-                      confirmation. For privacy, all voice processing happens directly on your device.
+                      When enabled, Aura will continuously listen for your wake phrases in the background.
+                      When one is detected, its action runs without requiring confirmation: a full SOS, a
+                      silent location alert that changes nothing on screen, a fake call, or a safety timer
+                      that sends an SOS unless you tap "I'm safe" in time. For privacy, all voice
+                      processing happens directly on your device.
                     </p>
                   </div>
                 </div>
@@ -156,12 +339,125 @@ export const Settings: React.FC<SettingsProps> = ({
         )}
 
         {activeTab === 'contacts' && (
-          <div className="bg-white rounded-xl shadow-sm p-6">
-            <ContactManager
-              contacts={userProfile.emergencyContacts}
-              onContactsUpdate={handleContactsUpdate}
-              maxContacts={3}
-            />
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <ContactManager
+                contacts={userProfile.emergencyContacts}
+                onContactsUpdate={handleContactsUpdate}
+                maxContacts={3}
+              />
+              <div className="mt-4">
+                <SyncStatus state={sync} onSyncNow={sync.syncNow} compact />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-aura-primary rounded-full flex items-center justify-center">
+                  <Timer className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Before an SOS Goes Out</h3>
+                  <p className="text-sm text-gray-600">Time to cancel a long press or wake phrase by mistake</p>
+                </div>
+              </div>
+
+              <div>
+                <p className="font-medium text-gray-800 mb-2">
+                  {userProfile.sosCountdownSeconds === 0
+                    ? 'Send immediately'
+                    : `Count down ${userProfile.sosCountdownSeconds} second${userProfile.sosCountdownSeconds === 1 ? '' : 's'}`}
+                </p>
+                <input
+                  type="range"
+                  min={0}
+                  max={15}
+                  step={1}
+                  value={userProfile.sosCountdownSeconds}
+                  onChange={(e) => onProfileUpdate({ sosCountdownSeconds: parseInt(e.target.value, 10) })}
+                  className="w-full accent-aura-primary"
+                />
+                <p className="text-sm text-gray-500 mt-2">
+                  Tap Cancel while it counts down, or say "cancel" if you have no cancel PIN. Silent alerts never count down.
+                </p>
+              </div>
+            </div>
+
+            <SafetyCodesSettings language={userProfile.voiceActivationLanguage} />
+
+            <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-aura-primary rounded-full flex items-center justify-center">
+                  <BellRing className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">If Nobody Responds</h3>
+                  <p className="text-sm text-gray-600">What Aura does when no contact acknowledges an alert</p>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <p className="font-medium text-gray-800 mb-2">
+                    Wait {userProfile.escalationPolicy.ackTimeoutMinutes} minute{userProfile.escalationPolicy.ackTimeoutMinutes === 1 ? '' : 's'} between steps
+                  </p>
+                  <input
+                    type="range"
+                    min={1}
+                    max={30}
+                    step={1}
+                    value={userProfile.escalationPolicy.ackTimeoutMinutes}
+                    onChange={(e) => handleEscalationPolicyUpdate({ ackTimeoutMinutes: parseInt(e.target.value, 10) })}
+                    className="w-full accent-aura-primary"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-800">Send the alert again</p>
+                    <p className="text-sm text-gray-500">Remind your primary contacts</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="sr-only peer"
+                      checked={userProfile.escalationPolicy.resendEnabled}
+                      onChange={(e) => handleEscalationPolicyUpdate({ resendEnabled: e.target.checked })}
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-aura-primary"></div>
+                  </label>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-800">Alert secondary contacts</p>
+                    <p className="text-sm text-gray-500">Contacts marked as secondary are only alerted at this step</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="sr-only peer"
+                      checked={userProfile.escalationPolicy.notifySecondary}
+                      onChange={(e) => handleEscalationPolicyUpdate({ notifySecondary: e.target.checked })}
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-aura-primary"></div>
+                  </label>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-800">Call every contact</p>
+                    <p className="text-sm text-gray-500">An automated voice call reads your alert out loud</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="sr-only peer"
+                      checked={userProfile.escalationPolicy.voiceCallsEnabled}
+                      onChange={(e) => handleEscalationPolicyUpdate({ voiceCallsEnabled: e.target.checked })}
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-aura-primary"></div>
+                  </label>
+                </div>
+              </div>
+            </div>
           </div>
         )}
 
@@ -198,12 +494,25 @@ export const Settings: React.FC<SettingsProps> = ({
                   <div>
                     <h4 className="font-medium text-blue-900">Privacy Notice</h4>
                     <p className="text-sm text-blue-800 mt-1">
-                      Your personal information is stored locally on your device and only shared with your emergency contacts during alerts.
+                      Your name and emergency contacts are stored on your device and in your Aura account, so alerts can reach your contacts. They are only shared with your emergency contacts during alerts.
                     </p>
                   </div>
                 </div>
               </div>
             </div>
+
+            <div className="border-t border-gray-100 pt-6 space-y-4">
+              <div className="flex items-center space-x-2">
+                <Cloud className="w-5 h-5 text-aura-primary" />
+                <h4 className="font-medium text-gray-900">Account &amp; Sync</h4>
+              </div>
+              <SyncStatus
+                state={sync}
+                onSyncNow={sync.syncNow}
+                onSendEmailLink={sync.sendEmailLink}
+                onSignOut={sync.signOut}
+              />
+            </div>
           </div>
         )}
 
@@ -0,0 +1,44 @@
+import { MessageSquare, PhoneCall } from 'lucide-react';
+import { Location } from '../types';
+import { smsFallbackService } from '../services/smsFallbackService';
+
+interface SmsFallbackPanelProps {
+  location: Location | null;
+  trackingUrl?: string | null;
+}
+
+export const SmsFallbackPanel: React.FC<SmsFallbackPanelProps> = ({ location, trackingUrl }) => {
+  const smsUri = smsFallbackService.buildSOSIntent(location, trackingUrl);
+  const emergencyNumber = smsFallbackService.getEmergencyNumber();
+
+  return (
+    <div className="bg-red-500 bg-opacity-20 border border-red-400 border-opacity-40 rounded-xl p-6 space-y-4">
+      <div>
+        <h3 className="font-semibold text-white">Send it from your phone</h3>
+        <p className="text-red-100 text-sm mt-1">
+          Aura's alert service can't be reached. Text your contacts directly; the message and your location are already filled in.
+        </p>
+      </div>
+
+      {smsUri ? (
+        <a
+          href={smsUri}
+          className="w-full bg-white text-red-700 font-semibold py-3 px-6 rounded-xl flex items-center justify-center space-x-2 shadow-lg"
+        >
+          <MessageSquare className="w-5 h-5" />
+          <span>Text Emergency Contacts</span>
+        </a>
+      ) : (
+        <p className="text-red-100 text-sm">No emergency contacts saved on this device.</p>
+      )}
+
+      <a
+        href={smsFallbackService.buildTelUri(emergencyNumber)}
+        className="w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-6 rounded-xl flex items-center justify-center space-x-2 shadow-lg transition-colors"
+      >
+        <PhoneCall className="w-5 h-5" />
+        <span>Call {emergencyNumber}</span>
+      </a>
+    </div>
+  );
+};
@@ -1,11 +1,13 @@
 import { } from 'react';
 import { Mic, MicOff, AlertTriangle, Shield } from 'lucide-react';
-import { AuraState } from '../types';
+import { AlertDispatchResult, AuraState, ConversationTurn } from '../types';
 
 interface StatusDisplayProps {
   state: AuraState;
   transcription?: string;
   aiResponse?: string;
+  conversation?: ConversationTurn[];
+  alertResult?: AlertDispatchResult | null;
   isListening: boolean;
 }
 
@@ -13,22 +15,39 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({
   state,
   transcription,
   aiResponse,
+  conversation = [],
+  alertResult,
   isListening
 }) => {
+  const alertNotDelivered = alertResult != null && !alertResult.delivered;
+
   if (state === AuraState.IDLE || state === AuraState.SOS_ACTIVE) {
+    const sosText = !alertResult
+      ? 'Sending emergency alert...'
+      : alertNotDelivered
+        ? 'Emergency alert was NOT delivered'
+        : 'Emergency alert sent successfully';
+
     return (
       <div className="bg-white rounded-lg shadow-sm p-6 max-w-md mx-auto">
         <div className={`flex items-center justify-center space-x-2 ${
-          state === AuraState.SOS_ACTIVE ? 'text-green-600' : 'text-gray-500'
+          state !== AuraState.SOS_ACTIVE
+            ? 'text-gray-500'
+            : alertNotDelivered ? 'text-aura-alert' : 'text-green-600'
         }`}>
-          <Shield className="w-5 h-5" />
-          <span>
+          {state === AuraState.SOS_ACTIVE && alertNotDelivered
+            ? <AlertTriangle className="w-5 h-5" />
+            : <Shield className="w-5 h-5" />}
+          <span className={alertNotDelivered && state === AuraState.SOS_ACTIVE ? 'font-medium' : ''}>
             {state === AuraState.SOS_ACTIVE 
-              ? 'Emergency alert sent successfully' 
+              ? sosText
               : 'Aura is ready to protect you'
             }
           </span>
         </div>
+        {state === AuraState.SOS_ACTIVE && alertNotDelivered && (
+          <p className="text-sm text-red-600 text-center mt-2">{alertResult.message}</p>
+        )}
       </div>
     );
   }
@@ -52,32 +71,63 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({
 
       {/* Alert Status */}
       {state === AuraState.ALERT && (
-        <div className="flex items-center justify-center space-x-2 text-aura-alert">
-          <AlertTriangle className="w-5 h-5" />
-          <span className="font-medium">Emergency Alert Sent</span>
+        <div className="space-y-1">
+          <div className="flex items-center justify-center space-x-2 text-aura-alert">
+            <AlertTriangle className="w-5 h-5" />
+            <span className="font-medium">
+              {!alertResult
+                ? 'Sending Emergency Alert...'
+                : alertNotDelivered ? 'Emergency Alert NOT Delivered' : 'Emergency Alert Sent'}
+            </span>
+          </div>
+          {alertNotDelivered && (
+            <p className="text-sm text-red-600 text-center">{alertResult.message}</p>
+          )}
         </div>
       )}
 
 
 
-      {/* Transcription */}
-      {transcription && (
-        <div className="space-y-2">
-          <h4 className="text-sm font-semibold text-gray-700">You said:</h4>
-          <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-md">
-            "{transcription}"
-          </p>
+      {/* Conversation */}
+      {conversation.length > 0 ? (
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {conversation.map((turn, index) => (
+            <div key={`${turn.timestamp}-${index}`} className="space-y-1">
+              <h4 className="text-sm font-semibold text-gray-700">
+                {turn.role === 'user' ? 'You said:' : 'Aura responded:'}
+              </h4>
+              <p className={`text-sm text-gray-600 p-3 rounded-md ${
+                turn.role === 'user'
+                  ? 'bg-gray-50'
+                  : turn.persona === 'assertive' ? 'bg-red-50' : 'bg-blue-50'
+              }`}>
+                "{turn.text}"
+              </p>
+            </div>
+          ))}
         </div>
-      )}
+      ) : (
+        <>
+          {/* Transcription */}
+          {transcription && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700">You said:</h4>
+              <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-md">
+                "{transcription}"
+              </p>
+            </div>
+          )}
 
-      {/* AI Response */}
-      {aiResponse && (
-        <div className="space-y-2">
-          <h4 className="text-sm font-semibold text-gray-700">Aura responded:</h4>
-          <p className="text-sm text-gray-600 bg-blue-50 p-3 rounded-md">
-            "{aiResponse}"
-          </p>
-        </div>
+          {/* AI Response */}
+          {aiResponse && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700">Aura responded:</h4>
+              <p className="text-sm text-gray-600 bg-blue-50 p-3 rounded-md">
+                "{aiResponse}"
+              </p>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
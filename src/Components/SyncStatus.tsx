@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, LogOut, Mail, RefreshCw } from 'lucide-react';
+import { SyncState } from '../types';
+
+interface SyncStatusProps {
+  state: SyncState;
+  onSyncNow: () => void;
+  onSendEmailLink?: (email: string) => Promise<void>;
+  onSignOut?: () => Promise<void>;
+  compact?: boolean; // one status line, e.g. under the contact list
+}
+
+const describeStatus = (state: SyncState): string => {
+  switch (state.status) {
+    case 'disabled':
+      return 'Saved on this device only (sync is not configured)';
+    case 'syncing':
+      return 'Syncing...';
+    case 'synced':
+      return `Saved to your account${state.lastSyncedAt ? ` at ${new Date(state.lastSyncedAt).toLocaleTimeString()}` : ''}`;
+    case 'offline':
+      return 'Offline - changes will sync when you reconnect';
+    case 'error':
+      return `Not synced: ${state.error ?? 'unknown error'}`;
+    default:
+      return 'Not synced yet';
+  }
+};
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  state,
+  onSyncNow,
+  onSendEmailLink,
+  onSignOut,
+  compact = false
+}) => {
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [linkMessage, setLinkMessage] = useState<string | null>(null);
+
+  const failed = state.status === 'error' || state.status === 'offline';
+  const Icon = state.status === 'syncing' ? RefreshCw : failed ? CloudOff : Cloud;
+  const iconClass = failed ? 'text-amber-600' : state.status === 'synced' ? 'text-green-600' : 'text-gray-500';
+
+  const statusLine = (
+    <div className="flex items-center space-x-2 text-sm">
+      <Icon className={`w-4 h-4 ${iconClass} ${state.status === 'syncing' ? 'animate-spin' : ''}`} />
+      <span className={failed ? 'text-amber-700' : 'text-gray-600'}>{describeStatus(state)}</span>
+    </div>
+  );
+
+  if (compact) {
+    return statusLine;
+  }
+
+  const handleSendLink = async () => {
+    if (!onSendEmailLink || !/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setLinkMessage('Please enter a valid email address');
+      return;
+    }
+
+    setSending(true);
+    setLinkMessage(null);
+    try {
+      await onSendEmailLink(email.trim());
+      setLinkMessage(`Check ${email.trim()} for a link to confirm`);
+      setEmail('');
+    } catch (error) {
+      setLinkMessage(error instanceof Error ? error.message : 'Could not send the link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const account = state.account;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        {statusLine}
+        {state.status !== 'disabled' && (
+          <button
+            onClick={onSyncNow}
+            disabled={state.status === 'syncing'}
+            className="text-sm text-aura-primary hover:underline disabled:opacity-50"
+          >
+            Sync now
+          </button>
+        )}
+      </div>
+
+      {state.conflictsResolved > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5" />
+          <p className="text-sm text-amber-800">
+            {state.conflictsResolved === 1 ? '1 item was' : `${state.conflictsResolved} items were`} changed
+            on another device too. The most recent change was kept.
+          </p>
+        </div>
+      )}
+
+      {account && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            {account.isAnonymous
+              ? 'Signed in without an email. Add one to keep your profile and contacts if you lose this device.'
+              : `Signed in as ${account.email}`}
+          </p>
+          {account.pendingEmail && (
+            <p className="text-sm text-gray-600">Waiting for you to confirm {account.pendingEmail}</p>
+          )}
+
+          {onSendEmailLink && (
+            <div className="flex space-x-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={account.isAnonymous ? 'Your email' : 'Sign in with another email'}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent"
+              />
+              <button
+                onClick={handleSendLink}
+                disabled={sending}
+                className="flex items-center space-x-1 px-3 py-2 bg-aura-primary text-white rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                <Mail className="w-4 h-4" />
+                <span>{sending ? 'Sending...' : 'Send link'}</span>
+              </button>
+            </div>
+          )}
+          {linkMessage && <p className="text-sm text-gray-600">{linkMessage}</p>}
+
+          {!account.isAnonymous && onSignOut && (
+            <button
+              onClick={() => onSignOut()}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>Sign out and remove your data from this device</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { MapPin, Clock, Navigation, AlertTriangle } from 'lucide-react';
+import { TrackingPoint, TrackingSnapshot } from '../types';
+import { trackingService, TrackingSessionExpiredError } from '../services/trackingService';
+
+interface TrackingViewProps {
+  token: string;
+}
+
+const POLL_INTERVAL_MS = 10000;
+const TRAIL_SIZE = 240;
+const TRAIL_PADDING = 12;
+
+/**
+ * Project the trail into the SVG box, keeping north up and the aspect ratio intact
+ */
+const toTrailPath = (trail: TrackingPoint[]): { path: string; end: { x: number; y: number } } | null => {
+  if (trail.length === 0) return null;
+
+  const lats = trail.map(point => point.latitude);
+  const lngs = trail.map(point => point.longitude);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const span = Math.max(maxLat - minLat, maxLng - minLng) || 1;
+  const scale = (TRAIL_SIZE - TRAIL_PADDING * 2) / span;
+
+  const points = trail.map(point => ({
+    x: TRAIL_PADDING + (point.longitude - minLng) * scale,
+    y: TRAIL_SIZE - TRAIL_PADDING - (point.latitude - minLat) * scale
+  }));
+
+  return {
+    path: points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' '),
+    end: points[points.length - 1]
+  };
+};
+
+const minutesAgo = (timestamp: string, now: number): string => {
+  const minutes = Math.floor((now - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  return minutes === 1 ? '1 minute ago' : `${minutes} minutes ago`;
+};
+
+/**
+ * Contact-facing page behind /track/:token
+ */
+export const TrackingView: React.FC<TrackingViewProps> = ({ token }) => {
+  const [snapshot, setSnapshot] = useState<TrackingSnapshot | null>(null);
+  const [status, setStatus] = useState<'loading' | 'live' | 'expired' | 'error'>('loading');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const next = await trackingService.getSnapshot(token);
+        if (cancelled) return;
+        setSnapshot(next);
+        setStatus('live');
+        setNow(Date.now());
+      } catch (error) {
+        if (cancelled) return;
+        if (error instanceof TrackingSessionExpiredError) {
+          // Sharing is over; stop polling
+          setStatus('expired');
+          return;
+        }
+        setStatus(prev => prev === 'live' ? 'live' : 'error');
+        setErrorMessage(error instanceof Error ? error.message : 'Could not load location');
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [token]);
+
+  const latest = snapshot?.latest ?? null;
+  const trailPath = snapshot ? toTrailPath(snapshot.trail) : null;
+
+  return (
+    <div className="min-h-screen bg-aura-background">
+      <div className="bg-white shadow-sm">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center space-x-3">
+          <Navigation className="w-6 h-6 text-aura-primary" />
+          <h1 className="text-xl font-semibold text-gray-800">
+            Live location
+          </h1>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-4">
+        {status === 'loading' && (
+          <p className="text-gray-600 text-center">Loading location...</p>
+        )}
+
+        {status === 'expired' && (
+          <div className="bg-gray-100 border border-gray-200 rounded-lg p-4 text-gray-700">
+            This tracking link has expired or the person has stopped sharing their location.
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-red-700 text-sm">{errorMessage}</p>
+          </div>
+        )}
+
+        {status === 'live' && snapshot && !latest && (
+          <p className="text-gray-600 text-center">Waiting for the first location update...</p>
+        )}
+
+        {status === 'live' && snapshot && latest && (
+          <>
+            <div className="bg-white rounded-lg shadow-sm p-4 space-y-2">
+              <div className="flex items-center space-x-2 text-gray-800">
+                <MapPin className="w-5 h-5 text-aura-primary" />
+                <span className="font-medium">
+                  {latest.latitude.toFixed(6)}, {latest.longitude.toFixed(6)}
+                </span>
+              </div>
+              {latest.accuracy != null && (
+                <p className="text-sm text-gray-600">Accurate to about {Math.round(latest.accuracy)} m</p>
+              )}
+              <p className="text-sm text-gray-600 flex items-center space-x-1">
+                <Clock className="w-4 h-4" />
+                <span>Updated {minutesAgo(latest.timestamp, now)} ({new Date(latest.timestamp).toLocaleTimeString()})</span>
+              </p>
+              <a
+                href={`https://www.google.com/maps?q=${latest.latitude},${latest.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block text-aura-primary text-sm underline"
+              >
+                Open in Google Maps →
+              </a>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+              <iframe
+                title="Current location"
+                className="w-full h-64 border-0"
+                src={`https://www.openstreetmap.org/export/embed.html?bbox=${latest.longitude - 0.005},${latest.latitude - 0.003},${latest.longitude + 0.005},${latest.latitude + 0.003}&marker=${latest.latitude},${latest.longitude}`}
+              />
+            </div>
+
+            {trailPath && snapshot.trail.length > 1 && (
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <h3 className="font-medium text-gray-800 mb-2">Recent movement</h3>
+                <svg viewBox={`0 0 ${TRAIL_SIZE} ${TRAIL_SIZE}`} className="w-full h-48 bg-gray-50 rounded">
+                  <path d={trailPath.path} fill="none" stroke="#6366f1" strokeWidth={2} strokeLinejoin="round" />
+                  <circle cx={trailPath.end.x} cy={trailPath.end.y} r={5} fill="#ef4444" />
+                </svg>
+                <p className="text-xs text-gray-500 mt-2">
+                  {snapshot.trail.length} positions since {new Date(snapshot.trail[0].timestamp).toLocaleTimeString()}
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        {snapshot && status !== 'expired' && (
+          <p className="text-xs text-gray-500 text-center">
+            This link stops working at {new Date(snapshot.expiresAt).toLocaleString()}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
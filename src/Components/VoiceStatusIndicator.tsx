@@ -1,8 +1,11 @@
 import { } from 'react';
 import { Mic, MicOff, AlertTriangle } from 'lucide-react';
+import { WakePhraseMatch } from '../types';
 
 interface VoiceStatusIndicatorProps {
   isListening: boolean;
+  phrases: string[]; // enabled wake phrases
+  lastMatch?: WakePhraseMatch | null;
   permissionStatus: 'granted' | 'denied' | 'prompt' | 'unsupported';
   error: string | null;
   onRequestPermission: () => Promise<boolean>;
@@ -10,10 +13,14 @@ interface VoiceStatusIndicatorProps {
 
 export const VoiceStatusIndicator: React.FC<VoiceStatusIndicatorProps> = ({
   isListening,
+  phrases,
+  lastMatch = null,
   permissionStatus,
   error,
   onRequestPermission
 }) => {
+  const listeningFor = phrases.length === 1 ? `"${phrases[0]}"` : `${phrases.length} wake phrases`;
+
   return (
     <div className="bg-white rounded-lg shadow-sm p-4 max-w-md mx-auto">
       <div className="flex flex-col items-center space-y-3">
@@ -35,15 +42,21 @@ export const VoiceStatusIndicator: React.FC<VoiceStatusIndicatorProps> = ({
         {/* Status Text */}
         <div className="text-center">
           <p className="font-medium text-gray-800">
-            {isListening ? 'Listening for "Help Aura"' : 'Voice activation ready'}
+            {isListening ? `Listening for ${listeningFor}` : 'Voice activation ready'}
           </p>
           <p className="text-sm text-gray-500">
             {isListening 
-              ? 'Say "Help Aura" to activate emergency mode' 
+              ? phrases.length === 1 ? `Say "${phrases[0]}" to activate emergency mode` : 'Say one of your wake phrases to activate it'
               : permissionStatus === 'granted' 
                 ? 'Voice monitoring is paused' 
                 : 'Voice monitoring requires microphone permission'}
           </p>
+          {/* A silent alert leaves no trace on screen */}
+          {lastMatch && lastMatch.action !== 'silent_alert' && (
+            <p className="text-xs text-gray-400 mt-1">
+              Last heard "{lastMatch.matchedText}" ({Math.round(lastMatch.confidence * 100)}% match)
+            </p>
+          )}
         </div>
         
         {/* Permission Status */}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { WakePhrase, WakePhraseAction } from '../types';
+import {
+  createWakePhrase,
+  DEFAULT_TIMER_MINUTES,
+  SENSITIVITY_STEP,
+  WAKE_PHRASE_ACTIONS
+} from '../services/wakePhrases';
+
+interface WakePhraseEditorProps {
+  phrases: WakePhrase[];
+  activeLanguage: string;
+  onPhrasesUpdate: (phrases: WakePhrase[]) => void;
+}
+
+// Variants are stored per base language, so they apply to every regional variant
+const VARIANT_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+  ar: 'Arabic',
+  hi: 'Hindi'
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-aura-primary focus:border-transparent';
+
+const sensitivityLabel = (sensitivity: number): string =>
+  sensitivity < 0.34 ? 'Strict' : sensitivity < 0.67 ? 'Balanced' : 'Loose';
+
+export const WakePhraseEditor: React.FC<WakePhraseEditorProps> = ({
+  phrases,
+  activeLanguage,
+  onPhrasesUpdate
+}) => {
+  const [variantLanguage, setVariantLanguage] = useState(() => {
+    const base = activeLanguage.split('-')[0];
+    return base in VARIANT_LANGUAGES ? base : 'en';
+  });
+
+  const handleUpdate = (phraseId: string, updates: Partial<WakePhrase>) => {
+    onPhrasesUpdate(phrases.map(phrase => (phrase.id === phraseId ? { ...phrase, ...updates } : phrase)));
+  };
+
+  const handleActionChange = (phrase: WakePhrase, action: WakePhraseAction) => {
+    handleUpdate(phrase.id, {
+      action,
+      timerMinutes: action === 'safety_timer' ? phrase.timerMinutes ?? DEFAULT_TIMER_MINUTES : undefined
+    });
+  };
+
+  const handleVariantsChange = (phrase: WakePhrase, text: string) => {
+    const wordings = text.split(',').map(wording => wording.trimStart());
+    const variants = { ...phrase.variants, [variantLanguage]: wordings };
+    if (wordings.every(wording => !wording.trim())) {
+      delete variants[variantLanguage];
+    }
+    handleUpdate(phrase.id, { variants });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium text-gray-800">Wake Phrases</p>
+        <p className="text-sm text-gray-500">
+          What Aura listens for, and what each phrase does. Looser phrases also match similar-sounding words.
+        </p>
+      </div>
+
+      <label className="block text-sm text-gray-600">
+        Show other wordings for
+        <select
+          value={variantLanguage}
+          onChange={(e) => setVariantLanguage(e.target.value)}
+          className={inputClassName}
+        >
+          {Object.entries(VARIANT_LANGUAGES).map(([language, name]) => (
+            <option key={language} value={language}>{name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-3">
+        {phrases.map(phrase => (
+          <div key={phrase.id} className="bg-gray-50 rounded-lg p-4 space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={phrase.enabled}
+                onChange={(e) => handleUpdate(phrase.id, { enabled: e.target.checked })}
+                aria-label="Enabled"
+              />
+              <input
+                type="text"
+                value={phrase.phrase}
+                onChange={(e) => handleUpdate(phrase.id, { phrase: e.target.value })}
+                placeholder="e.g. Help Aura"
+                className={inputClassName}
+              />
+              <button
+                onClick={() => onPhrasesUpdate(phrases.filter(candidate => candidate.id !== phrase.id))}
+                className="p-1 text-red-600 hover:bg-red-50 rounded"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <select
+              value={phrase.action}
+              onChange={(e) => handleActionChange(phrase, e.target.value as WakePhraseAction)}
+              className={inputClassName}
+            >
+              {Object.entries(WAKE_PHRASE_ACTIONS).map(([action, label]) => (
+                <option key={action} value={action}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={(phrase.variants[variantLanguage] ?? []).join(',')}
+              onChange={(e) => handleVariantsChange(phrase, e.target.value)}
+              placeholder={`${VARIANT_LANGUAGES[variantLanguage]} wordings, comma separated`}
+              className={inputClassName}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm text-gray-600">
+                Sensitivity: {sensitivityLabel(phrase.sensitivity)}
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={SENSITIVITY_STEP}
+                  value={phrase.sensitivity}
+                  onChange={(e) => handleUpdate(phrase.id, { sensitivity: parseFloat(e.target.value) })}
+                  className="w-full mt-3 accent-aura-primary"
+                />
+              </label>
+              {phrase.action === 'safety_timer' && (
+                <label className="text-sm text-gray-600">
+                  Timer (minutes)
+                  <input
+                    type="number"
+                    min={1}
+                    max={240}
+                    value={phrase.timerMinutes ?? DEFAULT_TIMER_MINUTES}
+                    onChange={(e) => handleUpdate(phrase.id, { timerMinutes: Math.min(240, Math.max(1, Number(e.target.value))) })}
+                    className={inputClassName}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {phrases.length === 0 && (
+        <p className="text-sm text-amber-700">With no wake phrases, voice activation has nothing to listen for.</p>
+      )}
+
+      <button
+        onClick={() => onPhrasesUpdate([...phrases, createWakePhrase()])}
+        className="flex items-center space-x-1 text-sm text-aura-primary font-medium"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add phrase</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertHistoryEntry } from '../types';
+import { historyService } from '../services/historyService';
+
+export const useAlertHistory = () => {
+  const [entries, setEntries] = useState<AlertHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await historyService.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load alert history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (alertIds: string[]) => {
+    await historyService.remove(alertIds);
+    setEntries(prev => prev.filter(entry => !alertIds.includes(entry.id)));
+  }, []);
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh,
+    remove
+  };
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { OutboxEntry } from '../types';
+import { alertOutbox } from '../services/alertOutbox';
+
+export const useAlertOutbox = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => alertOutbox.subscribe(setEntries), []);
+
+  return {
+    entries,
+    pendingCount: entries.filter(entry => entry.status !== 'dropped').length
+  };
+};
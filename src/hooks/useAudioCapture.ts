@@ -1,11 +1,48 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 
-export const useAudioCapture = () => {
+interface UseAudioCaptureProps {
+  onUtterance?: (utterance: Blob) => void;
+  speechThreshold?: number; // RMS level (0..1) that counts as voice
+  silenceMs?: number;       // Trailing silence that ends an utterance
+  minUtteranceMs?: number;  // Shorter bursts (clicks, coughs) are dropped
+  maxUtteranceMs?: number;  // Long speech is cut so it reaches the workflow in time
+  evidenceChunkMs?: number; // Evidence is handed over this often, so little is lost if it is cut off
+}
+
+const VAD_INTERVAL_MS = 50;
+
+export const useAudioCapture = ({
+  onUtterance,
+  speechThreshold = 0.02,
+  silenceMs = 900,
+  minUtteranceMs = 400,
+  maxUtteranceMs = 15000,
+  evidenceChunkMs = 5000
+}: UseAudioCaptureProps = {}) => {
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [isContinuous, setIsContinuous] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isRecordingEvidence, setIsRecordingEvidence] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
+  // Continuous mode
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const vadTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const utteranceRecorderRef = useRef<MediaRecorder | null>(null);
+  const utteranceStartRef = useRef(0);
+  const lastVoiceRef = useRef(0);
+  const discardUtteranceRef = useRef(false);
+  const pausedRef = useRef(false);
+  const onUtteranceRef = useRef(onUtterance);
+  onUtteranceRef.current = onUtterance;
+
+  // Evidence mode
+  const evidenceRecorderRef = useRef<MediaRecorder | null>(null);
+  const evidenceStreamRef = useRef<MediaStream | null>(null);
+
   const startRecording = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
@@ -62,11 +99,222 @@ export const useAudioCapture = () => {
     setAudioBlob(null);
   }, []);
 
+  const beginUtterance = useCallback((stream: MediaStream) => {
+    const recorder = new MediaRecorder(stream, {
+      mimeType: 'audio/webm;codecs=opus'
+    });
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    recorder.onstop = () => {
+      const duration = lastVoiceRef.current - startedAt;
+      const discarded = discardUtteranceRef.current;
+      discardUtteranceRef.current = false;
+      setIsSpeaking(false);
+
+      if (!discarded && duration >= minUtteranceMs && chunks.length > 0) {
+        onUtteranceRef.current?.(new Blob(chunks, { type: 'audio/webm' }));
+      }
+    };
+
+    utteranceRecorderRef.current = recorder;
+    utteranceStartRef.current = startedAt;
+    recorder.start();
+    setIsSpeaking(true);
+  }, [minUtteranceMs]);
+
+  const endUtterance = useCallback((discard: boolean) => {
+    const recorder = utteranceRecorderRef.current;
+    if (!recorder) return;
+
+    utteranceRecorderRef.current = null;
+    discardUtteranceRef.current = discard;
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  /**
+   * Listen continuously and cut speech into utterances with voice-activity detection
+   */
+  const startContinuous = useCallback(async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          sampleRate: 44100
+        }
+      });
+      streamRef.current = stream;
+
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      audioContextRef.current = audioContext;
+
+      const samples = new Float32Array(analyser.fftSize);
+
+      vadTimerRef.current = setInterval(() => {
+        if (pausedRef.current) {
+          endUtterance(true);
+          return;
+        }
+
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+        const now = Date.now();
+
+        if (rms >= speechThreshold) {
+          lastVoiceRef.current = now;
+          if (!utteranceRecorderRef.current) {
+            beginUtterance(stream);
+          }
+        } else if (utteranceRecorderRef.current && now - lastVoiceRef.current > silenceMs) {
+          endUtterance(false);
+        }
+
+        if (utteranceRecorderRef.current && now - utteranceStartRef.current > maxUtteranceMs) {
+          endUtterance(false);
+        }
+      }, VAD_INTERVAL_MS);
+
+      setIsContinuous(true);
+    } catch (error) {
+      console.error('Error starting continuous capture:', error);
+      throw error;
+    }
+  }, [beginUtterance, endUtterance, speechThreshold, silenceMs, maxUtteranceMs]);
+
+  const stopContinuous = useCallback(() => {
+    if (vadTimerRef.current) {
+      clearInterval(vadTimerRef.current);
+      vadTimerRef.current = null;
+    }
+
+    endUtterance(true);
+
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+
+    pausedRef.current = false;
+    setIsPaused(false);
+    setIsContinuous(false);
+  }, [endUtterance]);
+
+  /**
+   * Stop cutting utterances, e.g. while Aura's own voice is playing
+   */
+  const pauseCapture = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+    endUtterance(true);
+  }, [endUtterance]);
+
+  const resumeCapture = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+  }, []);
+
+  /**
+   * Record everything, not just speech, and hand it over in timesliced chunks as it is recorded.
+   * Runs on its own stream, alongside continuous mode and unaffected by pauses.
+   */
+  const startEvidence = useCallback(async (onChunk: (chunk: Blob) => void) => {
+    if (evidenceRecorderRef.current) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: false, // background sound is evidence too
+          sampleRate: 44100
+        }
+      });
+      evidenceStreamRef.current = stream;
+
+      const recorder = new MediaRecorder(stream, {
+        mimeType: 'audio/webm;codecs=opus'
+      });
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          onChunk(event.data);
+        }
+      };
+
+      evidenceRecorderRef.current = recorder;
+      recorder.start(evidenceChunkMs);
+      setIsRecordingEvidence(true);
+    } catch (error) {
+      console.error('Error starting evidence recording:', error);
+      throw error;
+    }
+  }, [evidenceChunkMs]);
+
+  /**
+   * Stop recording evidence; resolves once the last chunk has been handed over
+   */
+  const stopEvidence = useCallback((): Promise<void> => {
+    const recorder = evidenceRecorderRef.current;
+    evidenceRecorderRef.current = null;
+    setIsRecordingEvidence(false);
+
+    const release = () => {
+      if (evidenceStreamRef.current) {
+        evidenceStreamRef.current.getTracks().forEach(track => track.stop());
+        evidenceStreamRef.current = null;
+      }
+    };
+
+    if (!recorder || recorder.state === 'inactive') {
+      release();
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        release();
+        resolve();
+      };
+      recorder.stop();
+    });
+  }, []);
+
+  // Release the microphone if the component goes away mid-session
+  useEffect(() => stopContinuous, [stopContinuous]);
+  useEffect(() => () => {
+    stopEvidence();
+  }, [stopEvidence]);
+
   return {
     isRecording,
     audioBlob,
+    isContinuous,
+    isSpeaking,
+    isPaused,
+    isRecordingEvidence,
     startRecording,
     stopRecording,
-    clearAudio
+    clearAudio,
+    startContinuous,
+    stopContinuous,
+    pauseCapture,
+    resumeCapture,
+    startEvidence,
+    stopEvidence
   };
-};
\ No newline at end of file
+};
@@ -1,16 +1,21 @@
 import { useState, useCallback } from 'react';
-import { AuraState, SOSAlertResult } from '../types';
+import { AlertDispatchResult, AuraState, ConversationTurn } from '../types';
+import { ConversationSession } from '../services/conversationSession';
 
 export const useAuraState = () => {
   const [state, setState] = useState<AuraState>(AuraState.IDLE);
   const [isListening, setIsListening] = useState(false);
   const [transcription, setTranscription] = useState<string>('');
   const [aiResponse, setAiResponse] = useState<string>('');
-  const [sosAlertResult, setSOSAlertResult] = useState<SOSAlertResult | null>(null);
+  const [alertResult, setAlertResult] = useState<AlertDispatchResult | null>(null);
+  const [session, setSession] = useState<ConversationSession | null>(null);
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
 
   const activateAura = useCallback(() => {
     setState(AuraState.ACTIVE);
     setIsListening(true);
+    setConversation([]);
+    setSession(new ConversationSession({ onChange: setConversation }));
   }, []);
 
   const deactivateAura = useCallback(() => {
@@ -18,6 +23,8 @@ export const useAuraState = () => {
     setIsListening(false);
     setTranscription('');
     setAiResponse('');
+    setSession(null);
+    setConversation([]);
   }, []);
 
   const triggerAlert = useCallback(() => {
@@ -37,7 +44,9 @@ export const useAuraState = () => {
     setIsListening(false);
     setTranscription('');
     setAiResponse('');
-    setSOSAlertResult(null);
+    setAlertResult(null);
+    setSession(null);
+    setConversation([]);
   }, []);
 
   const updateTranscription = useCallback((text: string) => {
@@ -48,15 +57,17 @@ export const useAuraState = () => {
     setAiResponse(response);
   }, []);
 
-  const updateSOSResult = useCallback((result: SOSAlertResult) => {
-    setSOSAlertResult(result);
+  const updateAlertResult = useCallback((result: AlertDispatchResult) => {
+    setAlertResult(result);
   }, []);
   return {
     state,
     isListening,
     transcription,
     aiResponse,
-    sosAlertResult,
+    alertResult,
+    session,
+    conversation,
     activateAura,
     deactivateAura,
     triggerAlert,
@@ -65,6 +76,6 @@ export const useAuraState = () => {
     resetToIdle,
     updateTranscription,
     updateAiResponse,
-    updateSOSResult
+    updateAlertResult
   };
 };
\ No newline at end of file
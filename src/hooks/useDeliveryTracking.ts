@@ -0,0 +1,98 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AlertDispatchResult, ContactAcknowledgement, IncidentState, SmsDeliveryRecord, SmsDeliveryStatus } from '../types';
+import { acknowledgementService } from '../services/acknowledgementService';
+import { apiService } from '../services/apiService';
+
+const POLL_INTERVAL_MS = 5000;
+// Carriers can take minutes to report; stop asking after this long
+const MAX_TRACKING_MS = 10 * 60 * 1000;
+
+const FINAL_STATUSES: SmsDeliveryStatus[] = ['delivered', 'undelivered', 'failed'];
+
+/**
+ * Latest answer per contact; a later reply replaces an earlier one
+ */
+const mergeAcknowledgement = (
+  acknowledgements: ContactAcknowledgement[],
+  next: ContactAcknowledgement
+): ContactAcknowledgement[] => [
+  ...acknowledgements.filter(ack => ack.phoneNumber !== next.phoneNumber),
+  next
+];
+
+/**
+ * Poll delivery receipts and incident status for an alert, listen for contact acknowledgements
+ * and merge them all into the result
+ */
+export const useDeliveryTracking = (alertResult: AlertDispatchResult | null, userId: string) => {
+  const [deliveries, setDeliveries] = useState<SmsDeliveryRecord[]>([]);
+  const [incident, setIncident] = useState<IncidentState | null>(null);
+  const [acknowledgements, setAcknowledgements] = useState<ContactAcknowledgement[]>([]);
+  const alertId = alertResult?.alertId;
+
+  useEffect(() => {
+    setDeliveries([]);
+    setIncident(null);
+    setAcknowledgements([]);
+    if (!alertId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const startedAt = Date.now();
+
+    const poll = async () => {
+      try {
+        const snapshot = await apiService.getDeliveryStatuses(alertId, userId);
+        if (cancelled) return;
+        const records = snapshot.deliveries;
+        setDeliveries(records);
+        setIncident(snapshot.incident);
+        setAcknowledgements(current => snapshot.acknowledgements.reduce(mergeAcknowledgement, current));
+
+        const settled = records.length > 0 && records.every(record => FINAL_STATUSES.includes(record.status));
+        if (settled) return;
+      } catch (error) {
+        console.error('Error polling delivery status:', error);
+      }
+
+      if (!cancelled && Date.now() - startedAt < MAX_TRACKING_MS) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    // Contacts can answer long after polling stops, so acknowledgements are pushed as they happen
+    const unsubscribe = acknowledgementService.subscribe(alertId, {
+      onAcknowledgement: ack => setAcknowledgements(current => mergeAcknowledgement(current, ack)),
+      onStatus: (status, acknowledgedAt) => setIncident(current => ({
+        status,
+        acknowledgedAt,
+        resolvedAt: current?.resolvedAt ?? null,
+        resolutionReason: current?.resolutionReason ?? null
+      }))
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [alertId, userId]);
+
+  return useMemo(() => {
+    if (!alertResult || (deliveries.length === 0 && !incident && acknowledgements.length === 0)) {
+      return alertResult;
+    }
+
+    return {
+      ...alertResult,
+      ...(incident && { incident }),
+      acknowledgements,
+      outcomes: alertResult.outcomes.map(outcome => {
+        const record = deliveries.find(delivery => delivery.messageSid === outcome.messageId);
+        return record ? { ...outcome, deliveryStatus: record.status } : outcome;
+      })
+    };
+  }, [alertResult, deliveries, incident, acknowledgements]);
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EscalationProgress, EscalationScript, SpeechSettings } from '../types';
+import { escalationPlayer } from '../services/escalationPlayer';
+
+export const useEscalationPlayback = () => {
+  const [progress, setProgress] = useState<EscalationProgress>(escalationPlayer.getProgress());
+
+  useEffect(() => escalationPlayer.subscribe(setProgress), []);
+
+  const play = useCallback((script: EscalationScript, settings: SpeechSettings) => {
+    return escalationPlayer.play(script, settings);
+  }, []);
+
+  /**
+   * Synthesize the script ahead of time so it plays instantly, even offline
+   */
+  const preload = useCallback((script: EscalationScript, settings: SpeechSettings) => {
+    return escalationPlayer.preload(script, settings);
+  }, []);
+
+  const pause = useCallback(() => escalationPlayer.pause(), []);
+  const resume = useCallback(() => escalationPlayer.resume(), []);
+  const skip = useCallback(() => escalationPlayer.skip(), []);
+  const stop = useCallback(() => escalationPlayer.stop(), []);
+
+  return {
+    progress,
+    play,
+    preload,
+    pause,
+    resume,
+    skip,
+    stop
+  };
+};
@@ -1,10 +1,12 @@
-import { useState, useCallback } from 'react';
-import { Location } from '../types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Location, TrackingPoint } from '../types';
 
 export const useLocation = () => {
   const [location, setLocation] = useState<Location | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+  const watchIdRef = useRef<number | null>(null);
 
   const getCurrentLocation = useCallback((): Promise<Location> => {
     return new Promise((resolve, reject) => {
@@ -55,10 +57,64 @@ export const useLocation = () => {
     });
   }, []);
 
+  const stopWatching = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setIsWatching(false);
+  }, []);
+
+  /**
+   * Follow the device's position continuously, e.g. for a live tracking session
+   */
+  const startWatching = useCallback((onPosition: (point: TrackingPoint) => void) => {
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by this browser');
+      return;
+    }
+
+    stopWatching();
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      (position) => {
+        const coords: Location = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude
+        };
+        setLocation(coords);
+        onPosition({
+          ...coords,
+          accuracy: position.coords.accuracy,
+          timestamp: new Date(position.timestamp).toISOString()
+        });
+      },
+      (error) => {
+        // Keep watching through timeouts; only a denied permission ends it
+        console.error('Error watching location:', error);
+        if (error.code === error.PERMISSION_DENIED) {
+          setError('Location access denied by user');
+          stopWatching();
+        }
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: 20000,
+        maximumAge: 5000
+      }
+    );
+    setIsWatching(true);
+  }, [stopWatching]);
+
+  // Release the GPS if the component goes away while watching
+  useEffect(() => stopWatching, [stopWatching]);
+
   return {
     location,
     isLoading,
     error,
-    getCurrentLocation
+    isWatching,
+    getCurrentLocation,
+    startWatching,
+    stopWatching
   };
 };
\ No newline at end of file
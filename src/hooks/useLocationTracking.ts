@@ -0,0 +1,132 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { TrackingPoint, TrackingSession } from '../types';
+import { trackingService, TrackingSessionExpiredError } from '../services/trackingService';
+import { useLocation } from './useLocation';
+
+// Batch positions so a moving phone does not post on every GPS fix
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BUFFERED_POINTS = 50;
+
+/**
+ * Live tracking session: streams watchPosition updates to the location-tracking function
+ */
+export const useLocationTracking = () => {
+  const { startWatching, stopWatching } = useLocation();
+  const [session, setSession] = useState<TrackingSession | null>(null);
+  const [lastSentAt, setLastSentAt] = useState<string | null>(null);
+  // Still streaming, but reported as stopped: a duress all-clear has to look real
+  const [concealed, setConcealed] = useState(false);
+  const sessionRef = useRef<TrackingSession | null>(null);
+  const bufferRef = useRef<TrackingPoint[]>([]);
+  const flushTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const flushingRef = useRef(false);
+  const lastSentAtRef = useRef<string | null>(null);
+  lastSentAtRef.current = lastSentAt;
+
+  const stopStreaming = useCallback(() => {
+    stopWatching();
+    if (flushTimerRef.current) {
+      clearInterval(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+    bufferRef.current = [];
+    sessionRef.current = null;
+    setSession(null);
+  }, [stopWatching]);
+
+  const flush = useCallback(async () => {
+    const current = sessionRef.current;
+    if (!current || flushingRef.current || bufferRef.current.length === 0) return;
+
+    flushingRef.current = true;
+    const points = bufferRef.current.splice(0, MAX_BUFFERED_POINTS);
+
+    try {
+      await trackingService.sendPoints(current, points);
+      setLastSentAt(new Date().toISOString());
+    } catch (error) {
+      if (error instanceof TrackingSessionExpiredError) {
+        stopStreaming();
+      } else {
+        // Keep the points for the next attempt, dropping the oldest if offline for long
+        console.error('Error sending location updates:', error);
+        bufferRef.current = [...points, ...bufferRef.current].slice(-MAX_BUFFERED_POINTS * 4);
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [stopStreaming]);
+
+  const stream = useCallback((active: TrackingSession) => {
+    sessionRef.current = active;
+    setSession(active);
+
+    startWatching((point) => {
+      bufferRef.current.push(point);
+      // Post the first fix right away so the link shows something immediately
+      if (!lastSentAtRef.current) {
+        flush();
+      }
+    });
+
+    if (flushTimerRef.current) clearInterval(flushTimerRef.current);
+    flushTimerRef.current = setInterval(flush, FLUSH_INTERVAL_MS);
+  }, [startWatching, flush]);
+
+  /**
+   * Start a session and begin streaming; resolves with null if the backend is unavailable.
+   * `conceal` keeps a new or running session off the screen.
+   */
+  const start = useCallback(async (userId: string, { conceal = false } = {}): Promise<TrackingSession | null> => {
+    setConcealed(conceal);
+    if (sessionRef.current) {
+      sessionRef.current = trackingService.setConcealed(sessionRef.current, conceal);
+      return sessionRef.current;
+    }
+
+    const created = await trackingService.startSession(userId);
+    if (!created) return null;
+
+    const active = trackingService.setConcealed(created, conceal);
+    setLastSentAt(null);
+    stream(active);
+    return active;
+  }, [stream]);
+
+  /**
+   * Stop sharing: the contact-facing link stops working immediately
+   */
+  const stop = useCallback(async () => {
+    const current = sessionRef.current;
+    setConcealed(false);
+    await flush();
+    stopStreaming();
+    if (current) {
+      await trackingService.endSession(current);
+    }
+  }, [flush, stopStreaming]);
+
+  // Resume a session that was running before the page was reloaded
+  useEffect(() => {
+    const active = trackingService.getActiveSession();
+    if (active) {
+      setConcealed(Boolean(active.concealed));
+      stream(active);
+    }
+  }, [stream]);
+
+  useEffect(() => () => {
+    if (flushTimerRef.current) clearInterval(flushTimerRef.current);
+  }, []);
+
+  const visible = concealed ? null : session;
+
+  return {
+    session: visible,
+    isTracking: visible !== null,
+    trackingUrl: visible ? trackingService.buildTrackingUrl(visible.token) : null,
+    lastSentAt: concealed ? null : lastSentAt,
+    start,
+    stop
+  };
+};
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AlertTriggerSource } from '../types';
+
+const TICK_MS = 250;
+
+interface PendingSOS {
+  triggerSource: AlertTriggerSource;
+  endsAt: number;
+}
+
+/**
+ * Grace period between an SOS trigger and the alert: unless it is cancelled in time,
+ * `onDispatch` sends the alert
+ */
+export const useSOSCountdown = (onDispatch: (triggerSource: AlertTriggerSource) => void) => {
+  const [pending, setPending] = useState<PendingSOS | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const onDispatchRef = useRef(onDispatch);
+  onDispatchRef.current = onDispatch;
+
+  useEffect(() => {
+    if (pending === null) return;
+
+    const tick = () => {
+      setNow(Date.now());
+      if (Date.now() >= pending.endsAt) {
+        setPending(null);
+        onDispatchRef.current(pending.triggerSource);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [pending]);
+
+  const start = useCallback((triggerSource: AlertTriggerSource, seconds: number) => {
+    setNow(Date.now());
+    setPending(current => current ?? { triggerSource, endsAt: Date.now() + seconds * 1000 });
+  }, []);
+
+  const cancel = useCallback(() => {
+    setPending(null);
+  }, []);
+
+  // Send without waiting for the countdown to finish
+  const dispatchNow = useCallback(() => {
+    setPending(current => current && { ...current, endsAt: Date.now() });
+  }, []);
+
+  return {
+    isRunning: pending !== null,
+    triggerSource: pending?.triggerSource ?? null,
+    remainingMs: pending === null ? 0 : Math.max(0, pending.endsAt - now),
+    start,
+    cancel,
+    dispatchNow
+  };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Kept in localStorage so a reload or a closed tab does not silently drop a running timer
+const TIMER_KEY = 'aura_safety_timer_ends_at';
+const TICK_MS = 1000;
+
+const storedEndsAt = (): number | null => {
+  const value = Number(localStorage.getItem(TIMER_KEY));
+  return value > 0 ? value : null;
+};
+
+/**
+ * Check-in timer: unless the user cancels it in time, `onExpire` raises the alert
+ */
+export const useSafetyTimer = (onExpire: () => void) => {
+  const [endsAt, setEndsAt] = useState<number | null>(storedEndsAt);
+  const [now, setNow] = useState(Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const tick = () => {
+      setNow(Date.now());
+      if (Date.now() >= endsAt) {
+        localStorage.removeItem(TIMER_KEY);
+        setEndsAt(null);
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const start = useCallback((minutes: number) => {
+    const next = Date.now() + minutes * 60000;
+    localStorage.setItem(TIMER_KEY, String(next));
+    setNow(Date.now());
+    setEndsAt(next);
+  }, []);
+
+  const cancel = useCallback(() => {
+    localStorage.removeItem(TIMER_KEY);
+    setEndsAt(null);
+  }, []);
+
+  return {
+    isRunning: endsAt !== null,
+    remainingMs: endsAt === null ? 0 : Math.max(0, endsAt - now),
+    start,
+    cancel
+  };
+};
@@ -0,0 +1,25 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SyncState } from '../types';
+import { authService } from '../services/authService';
+import { syncService } from '../services/syncService';
+
+export const useSync = () => {
+  const [state, setState] = useState<SyncState>(syncService.getState());
+
+  useEffect(() => syncService.subscribe(setState), []);
+
+  const sendEmailLink = useCallback(async (email: string) => {
+    await authService.sendEmailLink(email);
+    // Picks up the pending email on the account
+    await syncService.syncNow();
+  }, []);
+
+  return {
+    ...state,
+    syncNow: () => syncService.syncNow(),
+    sendEmailLink,
+    signOut: () => syncService.signOut()
+  };
+};
+
+export type SyncControls = ReturnType<typeof useSync>;
@@ -1,4 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { WakePhrase, WakePhraseMatch } from '../types';
+import { matchCancelWord, matchWakePhrase } from '../services/wakePhrases';
+import { duressService } from '../services/duressService';
 
 // Web Speech API types
 interface SpeechRecognitionEvent extends Event {
@@ -22,25 +25,40 @@ interface SpeechRecognition extends EventTarget {
   onend: ((this: SpeechRecognition, ev: Event) => any) | null;
 }
 
+// Interim results and the restart after a match can repeat the phrase; one utterance is one activation
+const ACTIVATION_COOLDOWN_MS = 10000;
+
 interface UseVoiceActivationProps {
-  triggerPhrase: string;
-  onActivate: () => void;
+  phrases: WakePhrase[];
+  onActivate: (match: WakePhraseMatch) => void;
+  // Set while something can be cancelled by voice: "cancel", or the duress phrase (`duress` true)
+  onCancel?: (duress: boolean) => void;
   enabled: boolean;
   language?: string;
 }
 
 export const useVoiceActivation = ({
-  triggerPhrase,
+  phrases,
   onActivate,
+  onCancel,
   enabled,
   language = 'en-US'
 }: UseVoiceActivationProps) => {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [lastMatch, setLastMatch] = useState<WakePhraseMatch | null>(null);
   const [permissionStatus, setPermissionStatus] = useState<'granted' | 'denied' | 'prompt' | 'unsupported'>('prompt');
   
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const lastActivationRef = useRef(0);
+  // Recognition keeps running across renders; read the latest phrases and handlers from refs
+  const phrasesRef = useRef(phrases);
+  const onActivateRef = useRef(onActivate);
+  const onCancelRef = useRef(onCancel);
+  phrasesRef.current = phrases;
+  onActivateRef.current = onActivate;
+  onCancelRef.current = onCancel;
   
   // Initialize speech recognition
   useEffect(() => {
@@ -121,23 +139,34 @@ export const useVoiceActivation = ({
         const currentTranscript = finalTranscript || interimTranscript;
         setTranscript(currentTranscript);
         
-        // Check for trigger phrase with error tolerance
-        const normalizedTranscript = currentTranscript.toLowerCase().trim();
-        const normalizedTrigger = triggerPhrase.toLowerCase().trim();
+        // Cancelling only acts on settled results: an interim "cancel" may still become "don't cancel"
+        const cancel = onCancelRef.current;
+        if (cancel && finalTranscript) {
+          // Cleared until the next render, so one utterance cancels once
+          if (matchCancelWord(finalTranscript, language)) {
+            onCancelRef.current = undefined;
+            cancel(false);
+            return;
+          }
+          // Only a hash of the duress phrase is stored, which makes this check asynchronous
+          duressService.matchesDuressPhrase(finalTranscript).then((matched) => {
+            if (matched && onCancelRef.current) {
+              const cancelUnderDuress = onCancelRef.current;
+              onCancelRef.current = undefined;
+              cancelUnderDuress(true);
+            }
+          }).catch((duressError) => {
+            console.error('Error checking for the duress phrase:', duressError);
+          });
+        }
         
-        // Simple fuzzy matching - checks if the transcript contains the trigger phrase
-        // or if it's similar enough (e.g., "help aura" vs "help aurora")
-        if (
-          normalizedTranscript.includes(normalizedTrigger) ||
-          normalizedTranscript.includes(normalizedTrigger.replace(' ', '')) ||
-          levenshteinDistance(normalizedTranscript, normalizedTrigger) <= 2 ||
-          normalizedTranscript.split(' ').some(word => 
-            levenshteinDistance(word, 'help') <= 1 && 
-            normalizedTranscript.includes('aura') || 
-            normalizedTranscript.includes('aurora')
-          )
-        ) {
-          onActivate();
+        // Each phrase is matched against its own sensitivity; the closest match wins
+        const match = matchWakePhrase(currentTranscript, phrasesRef.current, language);
+        if (match) {
+          if (Date.now() - lastActivationRef.current < ACTIVATION_COOLDOWN_MS) return;
+          lastActivationRef.current = Date.now();
+          setLastMatch(match);
+          onActivateRef.current(match);
           // Restart recognition after activation
           recognition.stop();
           setTimeout(() => {
@@ -168,7 +197,7 @@ export const useVoiceActivation = ({
       setError(`Failed to start speech recognition: ${err}`);
       setIsListening(false);
     }
-  }, [triggerPhrase, onActivate, enabled, language, permissionStatus]);
+  }, [enabled, language, permissionStatus]);
   
   const stopListening = useCallback(() => {
     if (recognitionRef.current) {
@@ -189,40 +218,10 @@ export const useVoiceActivation = ({
     }
   }, []);
   
-  // Levenshtein distance for fuzzy matching
-  const levenshteinDistance = (a: string, b: string): number => {
-    if (a.length === 0) return b.length;
-    if (b.length === 0) return a.length;
-    
-    const matrix = [];
-    
-    // Initialize matrix
-    for (let i = 0; i <= b.length; i++) {
-      matrix[i] = [i];
-    }
-    
-    for (let j = 0; j <= a.length; j++) {
-      matrix[0][j] = j;
-    }
-    
-    // Fill matrix
-    for (let i = 1; i <= b.length; i++) {
-      for (let j = 1; j <= a.length; j++) {
-        const cost = a[j - 1] === b[i - 1] ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,      // deletion
-          matrix[i][j - 1] + 1,      // insertion
-          matrix[i - 1][j - 1] + cost // substitution
-        );
-      }
-    }
-    
-    return matrix[b.length][a.length];
-  };
-  
   return {
     isListening,
     transcript,
+    lastMatch,
     error,
     permissionStatus,
     startListening,
@@ -1,10 +1,29 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { AckView } from './Components/AckView'
+import { TrackingView } from './Components/TrackingView'
+import { acknowledgementService } from './services/acknowledgementService'
+import { alertOutbox } from './services/alertOutbox'
+import { trackingService } from './services/trackingService'
 import './index.css'
 
+// Contacts opening a /track/:token or /ack/:token link only get that page
+const trackingToken = trackingService.tokenFromPath()
+const ackToken = acknowledgementService.tokenFromPath()
+
+if (!trackingToken && !ackToken) {
+  alertOutbox.registerServiceWorker()
+}
+
+const renderPage = () => {
+  if (trackingToken) return <TrackingView token={trackingToken} />
+  if (ackToken) return <AckView token={ackToken} />
+  return <App />
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {renderPage()}
   </React.StrictMode>,
-)
\ No newline at end of file
+)
@@ -0,0 +1,85 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { AckDetails, AckResponse, ContactAcknowledgement, IncidentStatus } from '../types';
+import { getSupabaseClient } from './supabaseClient';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'your-supabase-url';
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-supabase-anon-key';
+
+const ACK_PATH = /^\/ack\/([0-9a-f-]{36}\.[0-9a-f-]{36}\.[A-Za-z0-9_-]+)\/?$/i;
+
+export interface IncidentUpdateHandlers {
+  onAcknowledgement: (acknowledgement: ContactAcknowledgement) => void;
+  onStatus: (status: IncidentStatus, acknowledgedAt: string | null) => void;
+}
+
+class AcknowledgementService {
+  private endpoint = `${SUPABASE_URL}/functions/v1/contact-ack`;
+
+  private get headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`
+    };
+  }
+
+  /**
+   * What the contact's ack page shows
+   */
+  async getDetails(token: string): Promise<AckDetails> {
+    const response = await fetch(`${this.endpoint}?token=${encodeURIComponent(token)}`, {
+      headers: this.headers
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(body.message || `Acknowledgement lookup failed: ${response.status}`);
+    }
+    return body.data;
+  }
+
+  async acknowledge(token: string, response: AckResponse): Promise<AckDetails> {
+    const result = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({ token, response })
+    });
+    const body = await result.json().catch(() => ({}));
+
+    if (!result.ok) {
+      throw new Error(body.message || `Acknowledgement failed: ${result.status}`);
+    }
+    return body.data;
+  }
+
+  /**
+   * Live acknowledgements and status changes for an alert, broadcast by the server as contacts
+   * answer. Returns the unsubscribe function.
+   */
+  subscribe(alertId: string, handlers: IncidentUpdateHandlers): () => void {
+    const client = getSupabaseClient();
+    if (!client) return () => {};
+
+    const channel: RealtimeChannel = client
+      .channel(`incident:${alertId}`)
+      .on('broadcast', { event: 'acknowledgement' }, ({ payload }) => {
+        handlers.onAcknowledgement(payload as ContactAcknowledgement);
+      })
+      .on('broadcast', { event: 'status' }, ({ payload }) => {
+        handlers.onStatus(payload.status as IncidentStatus, payload.acknowledgedAt ?? null);
+      })
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Token from an /ack/:token URL, or null for any other page
+   */
+  tokenFromPath(pathname: string = window.location.pathname): string | null {
+    return pathname.match(ACK_PATH)?.[1] ?? null;
+  }
+}
+
+export const acknowledgementService = new AcknowledgementService();
@@ -0,0 +1,24 @@
+import { authService } from './authService';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'your-supabase-url';
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-supabase-anon-key';
+
+/**
+ * ai-proxy edge function. It mirrors the OpenAI and ElevenLabs routes, so vendor clients
+ * only swap their base URL. VITE_AI_PROXY_URL points the app at a local stand-in.
+ */
+export const AI_PROXY_URL = (import.meta.env.VITE_AI_PROXY_URL || `${SUPABASE_URL}/functions/v1/ai-proxy`).replace(/\/$/, '');
+
+export const isAIProxyConfigured = (): boolean =>
+  Boolean(import.meta.env.VITE_AI_PROXY_URL)
+  || (SUPABASE_URL !== 'your-supabase-url' && !!SUPABASE_ANON_KEY && SUPABASE_ANON_KEY !== 'your-supabase-anon-key');
+
+/**
+ * Session token identifying the caller for the proxy's per-user quotas. Without a session
+ * the anon key is sent, which the proxy refuses.
+ */
+export const aiProxyHeaders = async (): Promise<Record<string, string>> => {
+  const account = await authService.ensureSession().catch(() => null);
+  const accessToken = account ? await authService.getAccessToken() : null;
+  return { 'Authorization': `Bearer ${accessToken ?? SUPABASE_ANON_KEY}` };
+};
@@ -0,0 +1,315 @@
+import { AlertKind, AlertRequestPayload, OutboxEntry } from '../types';
+import { authService } from './authService';
+import { KeyValueStore } from './indexedDb';
+
+const SYNC_TAG = 'aura-outbox-flush';
+const SERVICE_WORKER_URL = '/outbox-sw.js';
+
+// Must match RETRY_DELAYS_MS in public/outbox-sw.js
+const RETRY_DELAYS_MS = [5000, 15000, 30000, 60000, 120000, 300000];
+
+// Must match MAX_ATTEMPTS and MAX_ENTRY_AGE_MS in public/outbox-sw.js. An alert that has not gone
+// out by then is dropped: contacts getting an SOS long after the event would do more harm than good.
+const MAX_ATTEMPTS = 10;
+const MAX_ENTRY_AGE_MS = 30 * 60 * 1000;
+
+export const retryDelay = (attempts: number): number =>
+  RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1] ?? RETRY_DELAYS_MS[0];
+
+/**
+ * Whether a failed response is worth retrying. 4xx means the request itself is wrong
+ * (no profile, no contacts), so sending it again would not help and the entry is dropped. 401 is the exception when the
+ * request carried a user's token: it expired, and the next attempt from the page carries a fresh
+ * one. Sent with only the anon key, a 401 is final.
+ */
+export const isRetryableStatus = (status: number, usesAnonKey: boolean = false): boolean =>
+  status >= 500 || (status === 401 && !usesAnonKey) || status === 408 || status === 429;
+
+/**
+ * Why an entry may not be retried any more, or null while it still may
+ */
+const dropReason = (entry: OutboxEntry, now: number = Date.now()): string | null => {
+  if (now - new Date(entry.createdAt).getTime() > MAX_ENTRY_AGE_MS) {
+    return `not sent within ${MAX_ENTRY_AGE_MS / 60000} minutes`;
+  }
+  if (entry.attempts >= MAX_ATTEMPTS) return `not sent after ${entry.attempts} attempts`;
+  return null;
+};
+
+/**
+ * The status and the alert service's own message for a refused request
+ */
+const refusalMessage = async (response: Response): Promise<string> => {
+  const body: { message?: string; error?: string } | null = await response.json().catch(() => null);
+  return `${response.status} ${body?.message ?? body?.error ?? response.statusText}`;
+};
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+class AlertOutbox {
+  // Database layout must match public/outbox-sw.js
+  private store = new KeyValueStore('aura-outbox', 'alerts', 'id');
+  private listeners = new Set<OutboxListener>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+
+  /**
+   * Register the service worker that retries queued alerts in the background
+   */
+  async registerServiceWorker(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    try {
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        if (event.data?.type === 'aura-outbox-updated') {
+          this.notify();
+        }
+      });
+    } catch (error) {
+      console.error('Error registering outbox service worker:', error);
+    }
+
+    window.addEventListener('online', () => this.requestFlush());
+    this.scheduleRetry();
+  }
+
+  /**
+   * Store an alert request before it is sent, so it survives a lost connection or a closed tab
+   */
+  async enqueue(
+    kind: AlertKind,
+    endpoint: string,
+    authorization: string,
+    payload: AlertRequestPayload,
+    usesAnonKey: boolean = false
+  ): Promise<OutboxEntry | null> {
+    const entry: OutboxEntry = {
+      id: payload.idempotencyKey,
+      kind,
+      endpoint,
+      authorization,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      // The caller makes the first attempt; background retry only picks the entry up if that never finishes
+      nextAttemptAt: Date.now() + RETRY_DELAYS_MS[0],
+      usesAnonKey
+    };
+
+    try {
+      await this.store.put(entry);
+      this.notify();
+      return entry;
+    } catch (error) {
+      // Private browsing can block IndexedDB; the alert is still attempted directly
+      console.error('Error storing alert in outbox:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The edge function confirmed the alert or rejected it for good, or the user dismissed a
+   * dropped one
+   */
+  async remove(id: string): Promise<void> {
+    try {
+      await this.store.delete(id);
+      this.notify();
+    } catch (error) {
+      console.error('Error removing alert from outbox:', error);
+    }
+  }
+
+  /**
+   * Record a failed attempt and hand the entry to background retry
+   */
+  async markRetrying(id: string, lastError: string): Promise<void> {
+    try {
+      const entry = await this.store.get<OutboxEntry>(id);
+      if (!entry) return;
+
+      const attempts = entry.attempts + 1;
+      const retrying: OutboxEntry = {
+        ...entry,
+        status: 'retrying',
+        attempts,
+        lastError,
+        nextAttemptAt: Date.now() + retryDelay(attempts)
+      };
+      const reason = dropReason(retrying);
+      await this.store.put<OutboxEntry>(reason ? { ...retrying, status: 'dropped', lastError: `${reason} (${lastError})` } : retrying);
+      this.notify();
+      await this.scheduleRetry();
+    } catch (error) {
+      console.error('Error updating outbox entry:', error);
+    }
+  }
+
+  /**
+   * Stop retrying an entry and keep it on screen so the user knows it never went out
+   */
+  private async markDropped(entry: OutboxEntry, reason: string): Promise<void> {
+    try {
+      await this.store.put<OutboxEntry>({
+        ...entry,
+        status: 'dropped',
+        lastError: entry.lastError ? `${reason} (${entry.lastError})` : reason
+      });
+      this.notify();
+    } catch (error) {
+      console.error('Error updating outbox entry:', error);
+    }
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    try {
+      const entries = await this.store.getAll<OutboxEntry>();
+      return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.error('Error reading outbox:', error);
+      return [];
+    }
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.list().then(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retry now, through the service worker when one is running so the two never race
+   */
+  private async requestFlush(): Promise<void> {
+    const registration = 'serviceWorker' in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined;
+
+    if (registration?.active) {
+      await this.refreshAuthorization();
+      registration.active.postMessage({ type: 'aura-outbox-flush' });
+    } else {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Retry every entry that is due. Used when no service worker is in control of the page.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      await this.refreshAuthorization();
+      const due = (await this.list()).filter(entry => entry.status !== 'dropped' && entry.nextAttemptAt <= Date.now());
+      for (const entry of due) {
+        const reason = dropReason(entry);
+        if (reason) {
+          await this.markDropped(entry, reason);
+        } else {
+          await this.attempt(entry);
+        }
+      }
+    } finally {
+      this.flushing = false;
+      await this.scheduleRetry();
+    }
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(entry.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': entry.authorization,
+          'Idempotency-Key': entry.id
+        },
+        body: JSON.stringify(entry.payload)
+      });
+    } catch (error) {
+      await this.markRetrying(entry.id, error instanceof Error ? error.message : 'Network error');
+      return;
+    }
+
+    if (response.status === 401 && entry.usesAnonKey) {
+      await this.markDropped(entry, 'the alert service refused it without a signed-in session');
+    } else if (response.ok) {
+      await this.remove(entry.id);
+    } else if (!isRetryableStatus(response.status)) {
+      // Sending it again would be refused the same way; keep it so the user sees it never went out
+      await this.markDropped(entry, `the alert service refused it: ${await refusalMessage(response)}`);
+    } else {
+      await this.markRetrying(entry.id, `${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Prefer Background Sync through the service worker; fall back to a timer while the app is open
+   */
+  private async scheduleRetry(): Promise<void> {
+    const entries = (await this.list()).filter(entry => entry.status !== 'dropped');
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (entries.length === 0) return;
+
+    const registration = 'serviceWorker' in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined;
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: SyncManager }) | undefined)?.sync;
+
+    if (registration?.active && sync) {
+      try {
+        await sync.register(SYNC_TAG);
+        await this.refreshAuthorization();
+        registration.active.postMessage({ type: 'aura-outbox-flush' });
+        return;
+      } catch (error) {
+        console.warn('Background Sync unavailable, retrying from the page:', error);
+      }
+    }
+
+    const nextAttemptAt = Math.min(...entries.map(entry => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  /**
+   * Entries keep the access token they were stored with, which expires after an hour; hand them
+   * the current one before they are retried
+   */
+  private async refreshAuthorization(): Promise<void> {
+    try {
+      const token = await authService.getAccessToken();
+      if (!token) return;
+
+      const authorization = `Bearer ${token}`;
+      for (const entry of await this.list()) {
+        if (entry.authorization !== authorization) {
+          await this.store.put<OutboxEntry>({ ...entry, authorization, usesAnonKey: false });
+        }
+      }
+    } catch (error) {
+      console.error('Error refreshing outbox authorization:', error);
+    }
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.list();
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+export const alertOutbox = new AlertOutbox();
@@ -1,87 +1,159 @@
-import { Location, AudioProcessingResult, ApiResponse } from '../types';
+import {
+  Location,
+  AudioProcessingResult,
+  AlertDispatchResult,
+  AlertFailureCause,
+  AlertKind,
+  AlertRequestPayload,
+  AlertStatusSnapshot,
+  AlertTriggerSource,
+  AllClearResult,
+  ContactDeliveryOutcome,
+  IncidentResolution,
+  NotificationChannelType,
+  SpeechSettings,
+  ThreatAssessment,
+  TranscriptionSettings
+} from '../types';
+import { ThreatAssessor } from './threatAssessment';
+import { ConversationSession } from './conversationSession';
+import { alertOutbox, isRetryableStatus } from './alertOutbox';
+import { storageService } from './storageService';
+import { authService } from './authService';
+import {
+  createTranscriptionProvider,
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  TranscriptionError
+} from './transcriptionService';
+import { createSpeechSynthesizer, DEFAULT_SPEECH_SETTINGS, speakText } from './speechService';
+import { AI_PROXY_URL, aiProxyHeaders } from './aiProxy';
 
 // NOTE: Replace these with your actual API keys from environment variables
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || 'your-openai-api-key';
-const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY || 'your-elevenlabs-api-key';
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'your-supabase-url';
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-supabase-anon-key';
 
+/**
+ * Result for an alert that did not reach anyone
+ */
+export const failedDispatch = (
+  cause: AlertFailureCause,
+  message: string,
+  location: Location,
+  status?: number
+): AlertDispatchResult => ({
+  mode: 'failed',
+  delivered: false,
+  message,
+  contactsNotified: 0,
+  totalContacts: 0,
+  outcomes: [],
+  location,
+  timestamp: new Date().toISOString(),
+  error: { cause, message, status }
+});
+
+/**
+ * One contact's result as the alert functions report it (`DispatchResult` in _shared/dispatch.ts)
+ */
+interface DispatchResultBody {
+  contact: string;
+  phone: string;
+  status: 'sent' | 'failed';
+  channel?: NotificationChannelType;
+  messageId?: string;
+  error?: string;
+}
+
+interface AlertResponseBody {
+  message?: string;
+  data: {
+    alertId?: string;
+    timestamp?: string;
+    duplicate: boolean;
+    results: DispatchResultBody[];
+  };
+}
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['sms', 'email', 'webhook'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/**
+ * Narrow an alert function's JSON body. Anything malformed counts as missing, so an unexpected
+ * response never reads as delivered.
+ */
+const readAlertResponse = (json: unknown): AlertResponseBody => {
+  const body = isRecord(json) ? json : {};
+  // Responses without a data object carry their fields at the top level
+  const data = isRecord(body.data) ? body.data : body;
+  const results = Array.isArray(data.results) ? data.results.filter(isRecord) : [];
+
+  return {
+    message: optionalString(body.message),
+    data: {
+      alertId: optionalString(data.alertId),
+      timestamp: optionalString(data.timestamp),
+      duplicate: data.duplicate === true,
+      results: results
+        .filter(result => typeof result.contact === 'string')
+        .map(result => ({
+          contact: result.contact as string,
+          phone: optionalString(result.phone) ?? '',
+          status: result.status === 'sent' ? 'sent' : 'failed',
+          channel: CHANNEL_TYPES.find(channel => channel === result.channel),
+          messageId: optionalString(result.messageId),
+          error: optionalString(result.error)
+        }))
+    }
+  };
+};
+
 class ApiService {
   private baseUrl: string;
+  private threatAssessor = new ThreatAssessor();
 
   constructor() {
     this.baseUrl = `${SUPABASE_URL}/functions/v1`;
   }
 
   /**
-   * Emergency warning messages for AI Assistant Voice
+   * Transcribe audio with the provider configured in the user's profile
    */
-  private emergencyWarnings = [
-    "Hey! I can see you on camera right now. Step away from that person immediately.",
-    "This is a monitored safety call. I'm recording everything and your location is being tracked. Back off now!",
-    "Police have been notified and are en route to your exact location. I repeat - authorities are on the way. Leave immediately!",
-    "This is your final warning. Emergency services are 2 minutes away. You are being recorded and identified. Move away now!"
-  ];
+  async transcribeAudio(audioBlob: Blob, settings: TranscriptionSettings = DEFAULT_TRANSCRIPTION_SETTINGS): Promise<string> {
+    const provider = createTranscriptionProvider(settings);
 
-  /**
-   * Transcribe audio using OpenAI's Whisper API
-   */
-  async transcribeAudio(audioBlob: Blob): Promise<string> {
     try {
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append('file', audioBlob, 'audio.webm');
-      formData.append('model', 'whisper-1');
-      formData.append('language', 'en');
-
-      const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: formData
-      });
-
-      if (!response.ok) {
-        throw new Error(`Transcription failed: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      return result.text || '';
+      const result = await provider.transcribe(audioBlob, settings.language);
+      return result.text;
     } catch (error) {
-      console.error('Error transcribing audio:', error);
-      // Return a mock transcription for development
-      return "Someone is talking to me and I'm not sure about their intentions.";
+      console.error(`Error transcribing audio with ${provider.id}:`, error);
+      if (error instanceof TranscriptionError) {
+        throw error;
+      }
+      throw new TranscriptionError('provider', provider.id, 'Transcription failed', error);
     }
   }
 
   /**
-   * Get AI response from GPT-4 based on context and threat level
+   * Get AI response for the conversation so far, in the session's current persona.
+   * The ai-proxy edge function picks the model and holds the OpenAI key.
    */
-  async getAIResponse(transcribedText: string, isAssertiveMode: boolean = false): Promise<string> {
-    try {
-      const systemPrompt = isAssertiveMode 
-        ? `You are Aura, a personal safety AI. The situation has escalated. Change your tone to be loud, assertive, and official. Announce that this is a monitored safety call, that audio is being recorded, and that the user's location has been shared with authorities. Address the potential aggressor directly. Keep responses under 50 words and be direct.`
-        : `You are Aura, a personal safety AI. You are on a simulated phone call with me. Your tone is calm, clear, and reassuring. Respond as if you are a friend or family member on the phone, asking clarifying questions like 'What's going on?' or 'Describe them to me'. Keep responses under 30 words.`;
+  async getAIResponse(session: ConversationSession): Promise<string> {
+    const isAssertiveMode = session.persona === 'assertive';
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    try {
+      const response = await fetch(`${AI_PROXY_URL}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
+          ...(await aiProxyHeaders())
         },
         body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: systemPrompt
-            },
-            {
-              role: 'user',
-              content: transcribedText
-            }
-          ],
+          messages: session.buildMessages(),
           max_tokens: 100,
           temperature: 0.7
         })
@@ -103,164 +175,330 @@ class ApiService {
   }
 
   /**
-   * Generate speech using ElevenLabs TTS API
+   * Generate speech with the backend configured in the user's profile
    */
-  async generateSpeech(responseText: string): Promise<Blob> {
-    try {
-      const response = await fetch('https://api.elevenlabs.io/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM', {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': ELEVENLABS_API_KEY
-        },
-        body: JSON.stringify({
-          text: responseText,
-          model_id: 'eleven_monolingual_v1',
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5
-          }
-        })
-      });
+  async generateSpeech(responseText: string, settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS): Promise<Blob> {
+    return createSpeechSynthesizer(settings).synthesize(responseText);
+  }
 
-      if (!response.ok) {
-        throw new Error(`Speech generation failed: ${response.statusText}`);
-      }
+  /**
+   * Trigger SMS alert via backend serverless function
+   */
+  async triggerSmsAlert(
+    userId: string,
+    location: Location,
+    triggerSource: AlertTriggerSource = 'threat_detection',
+    trackingToken?: string
+  ): Promise<AlertDispatchResult> {
+    return this.dispatchAlert('ALERT', 'send-aura-alert', 'Emergency alert', userId, location, triggerSource, trackingToken);
+  }
+
+  /**
+   * Trigger critical SOS alert via backend serverless function
+   */
+  async triggerSOSAlert(
+    userId: string,
+    location: Location,
+    triggerSource: AlertTriggerSource = 'long_press',
+    trackingToken?: string
+  ): Promise<AlertDispatchResult> {
+    return this.dispatchAlert('SOS', 'send-sos-alert', 'Critical SOS alert', userId, location, triggerSource, trackingToken);
+  }
 
-      return await response.blob();
+  /**
+   * Silent duress alert via backend serverless function. `closing` is the incident the user was
+   * made to close; the server closes it without telling the contacts they are safe.
+   */
+  async triggerDuressAlert(
+    userId: string,
+    location: Location,
+    triggerSource: AlertTriggerSource,
+    trackingToken?: string,
+    closing?: Pick<AlertRequestPayload, 'closesAlertId' | 'resolution' | 'reason'>
+  ): Promise<AlertDispatchResult> {
+    return this.dispatchAlert('DURESS', 'send-duress-alert', 'Duress alert', userId, location, triggerSource, trackingToken, closing);
+  }
+
+  /**
+   * The signed-in user's access token for the edge functions, which check it against the user
+   * the request is for. Falls back to the anon key (which the functions refuse) when there is no
+   * session, e.g. offline before the first sign-in, so the request still reaches the outbox.
+   */
+  private async authorize(): Promise<{ authorization: string; accountUserId: string | null }> {
+    try {
+      const account = await authService.ensureSession();
+      const token = await authService.getAccessToken();
+      if (account && token) {
+        return { authorization: `Bearer ${token}`, accountUserId: account.userId };
+      }
     } catch (error) {
-      console.error('Error generating speech:', error);
-      // Return empty blob for development - in real app, you might want to use browser's built-in TTS
-      return new Blob();
+      console.error('Error getting the session for an alert request:', error);
     }
+    return { authorization: `Bearer ${SUPABASE_ANON_KEY}`, accountUserId: null };
   }
 
   /**
-   * Trigger SMS alert via backend serverless function
+   * Call an alert edge function and report what was actually delivered. The request
+   * goes through the offline outbox first so a lost connection does not lose the alert.
    */
-  async triggerSmsAlert(userId: string, location: Location): Promise<ApiResponse> {
-    try {
-      // Check if we have valid Supabase configuration
-      if (!SUPABASE_URL || SUPABASE_URL === 'your-supabase-url' || !SUPABASE_ANON_KEY || SUPABASE_ANON_KEY === 'your-supabase-anon-key') {
-        console.warn('Supabase not configured, using mock response for SMS alert');
-        return {
-          success: true,
-          message: 'Emergency alert sent successfully (mock response - Supabase not configured)'
-        };
+  private async dispatchAlert(
+    kind: AlertKind,
+    functionName: string,
+    label: string,
+    userId: string,
+    location: Location,
+    triggerSource: AlertTriggerSource,
+    trackingToken?: string,
+    extra: Partial<AlertRequestPayload> = {}
+  ): Promise<AlertDispatchResult> {
+    // Check if we have valid Supabase configuration
+    if (!SUPABASE_URL || SUPABASE_URL === 'your-supabase-url' || !SUPABASE_ANON_KEY || SUPABASE_ANON_KEY === 'your-supabase-anon-key') {
+      console.warn(`Supabase not configured, ${label} was not sent`);
+      return {
+        ...failedDispatch('not_configured', `${label} was NOT sent: Supabase is not configured`, location),
+        mode: 'mock'
+      };
+    }
+
+    const endpoint = `${this.baseUrl}/${functionName}`;
+    const { authorization, accountUserId } = await this.authorize();
+    const payload: AlertRequestPayload = {
+      // The server only accepts the signed-in user's own id
+      userId: accountUserId ?? userId,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      idempotencyKey: crypto.randomUUID(),
+      triggerSource,
+      trackingToken,
+      // The server keeps the latest policy for the escalation ladder
+      escalationPolicy: storageService.getUserProfile().escalationPolicy,
+      ...extra
+    };
+    const { idempotencyKey } = payload;
+    const usesAnonKey = accountUserId === null;
+    const queued = await alertOutbox.enqueue(kind, endpoint, authorization, payload, usesAnonKey);
+
+    const retryLater = async (cause: AlertFailureCause, message: string, status?: number): Promise<AlertDispatchResult> => {
+      if (!queued) {
+        return { ...failedDispatch(cause, `${label} was NOT sent: ${message}`, location, status), idempotencyKey };
       }
+      await alertOutbox.markRetrying(idempotencyKey, message);
+      return {
+        ...failedDispatch(cause, `${label} was NOT sent yet: ${message}. It will be retried automatically.`, location, status),
+        idempotencyKey,
+        pendingRetry: true
+      };
+    };
 
-      const response = await fetch(`${this.baseUrl}/send-aura-alert`, {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': authorization,
+          'Idempotency-Key': idempotencyKey
         },
-        body: JSON.stringify({
-          userId,
-          latitude: location.latitude,
-          longitude: location.longitude
-        })
+        body: JSON.stringify(payload)
       });
+    } catch (error) {
+      console.error(`Error sending ${label}:`, error);
+      return retryLater('network', 'the alert service could not be reached');
+    }
 
-      if (!response.ok) {
-        throw new Error(`Alert failed: ${response.statusText}`);
-      }
+    if (!response.ok && isRetryableStatus(response.status, usesAnonKey)) {
+      console.error(`${label} failed, queued for retry:`, response.status);
+      return retryLater('rejected', response.statusText || `status ${response.status}`, response.status);
+    }
 
-      return await response.json();
-    } catch (error) {
-      console.error('Error sending SMS alert:', error);
-      // Return mock success for development
+    await alertOutbox.remove(idempotencyKey);
+    const body = readAlertResponse(await response.json().catch(() => null));
+
+    if (!response.ok) {
+      console.error(`${label} rejected:`, response.status, body);
       return {
-        success: true,
-        message: 'Emergency alert sent successfully (mock response)'
+        ...failedDispatch(
+          'rejected',
+          `${label} was NOT sent: ${body.message || response.statusText}`,
+          location,
+          response.status
+        ),
+        idempotencyKey
       };
     }
+
+    const { data } = body;
+    const outcomes: ContactDeliveryOutcome[] = data.results.map(result => ({
+      contactName: result.contact,
+      phoneNumber: result.phone,
+      status: result.status === 'sent' ? 'sent' : 'failed',
+      channel: result.channel ?? 'sms',
+      messageId: result.messageId,
+      error: result.error,
+      // Only SMS has delivery receipts
+      deliveryStatus: result.status === 'sent' && (result.channel ?? 'sms') === 'sms' ? 'queued' : undefined
+    }));
+    const contactsNotified = outcomes.filter(outcome => outcome.status === 'sent').length;
+
+    // A repeat trigger joined the incident already under way (no outcomes yet while it is still sending)
+    if (data.duplicate && (contactsNotified > 0 || outcomes.length === 0)) {
+      return {
+        mode: 'live',
+        delivered: true,
+        message: body.message || `${label} joined the alert already in progress`,
+        contactsNotified,
+        totalContacts: outcomes.length,
+        outcomes,
+        location,
+        timestamp: data.timestamp || new Date().toISOString(),
+        alertId: data.alertId,
+        idempotencyKey,
+        duplicate: true
+      };
+    }
+
+    if (contactsNotified === 0) {
+      return {
+        ...failedDispatch('undelivered', `${label} was NOT delivered to any contact`, location),
+        alertId: data.alertId,
+        idempotencyKey,
+        outcomes,
+        totalContacts: outcomes.length
+      };
+    }
+
+    return {
+      mode: 'live',
+      delivered: true,
+      message: body.message || `${label} sent to ${contactsNotified}/${outcomes.length} contacts`,
+      contactsNotified,
+      totalContacts: outcomes.length,
+      outcomes,
+      location,
+      timestamp: data.timestamp || new Date().toISOString(),
+      alertId: data.alertId,
+      idempotencyKey
+    };
   }
 
   /**
-   * Trigger critical SOS alert via backend serverless function
+   * Per-message delivery receipts for an alert, as recorded by the sms-status-callback function
    */
-  async triggerSOSAlert(userId: string, location: Location): Promise<ApiResponse> {
-    try {
-      // Check if we have valid Supabase configuration
-      if (!SUPABASE_URL || SUPABASE_URL === 'your-supabase-url' || !SUPABASE_ANON_KEY || SUPABASE_ANON_KEY === 'your-supabase-anon-key') {
-        console.warn('Supabase not configured, using mock response for SOS alert');
-        return {
-          success: true,
-          message: 'Critical SOS alert sent successfully (mock response - Supabase not configured)',
-          data: {
-            contactsNotified: 3,
-            location: location,
-            timestamp: new Date().toISOString()
-          }
-        };
+  async getDeliveryStatuses(alertId: string, userId: string): Promise<AlertStatusSnapshot> {
+    const { authorization, accountUserId } = await this.authorize();
+    const params = new URLSearchParams({ alertId, userId: accountUserId ?? userId });
+    const response = await fetch(`${this.baseUrl}/sms-status-callback?${params}`, {
+      headers: {
+        'Authorization': authorization
       }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Delivery status lookup failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json();
+    return {
+      deliveries: body.data?.deliveries ?? [],
+      incident: body.data?.incident ?? null,
+      acknowledgements: body.data?.acknowledgements ?? []
+    };
+  }
 
-      const response = await fetch(`${this.baseUrl}/send-sos-alert`, {
+  /**
+   * Close an incident and reassure the contacts the alert reached. `cancelled` marks it a false alarm.
+   */
+  async sendAllClear(
+    alertId: string,
+    userId: string,
+    resolution: IncidentResolution = 'resolved',
+    reason?: string
+  ): Promise<AllClearResult> {
+    try {
+      const { authorization, accountUserId } = await this.authorize();
+      const response = await fetch(`${this.baseUrl}/send-all-clear`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': authorization
         },
-        body: JSON.stringify({
-          userId,
-          latitude: location.latitude,
-          longitude: location.longitude
-        })
+        body: JSON.stringify({ userId: accountUserId ?? userId, alertId, resolution, reason })
       });
+      const body = await response.json().catch(() => ({}));
 
       if (!response.ok) {
-        throw new Error(`SOS Alert failed: ${response.statusText}`);
+        console.error('All-clear rejected:', response.status, body);
+        return {
+          alertId,
+          delivered: false,
+          message: `All-clear was NOT sent: ${body.message || response.statusText}`,
+          contactsNotified: 0,
+          totalContacts: 0,
+          incident: null
+        };
       }
 
-      return await response.json();
+      return {
+        alertId,
+        delivered: true,
+        message: body.message,
+        contactsNotified: body.data?.contactsNotified ?? 0,
+        totalContacts: body.data?.totalContacts ?? 0,
+        incident: body.data?.incident ?? null
+      };
     } catch (error) {
-      console.error('Error sending SOS alert:', error);
-      // Return mock success for development
+      console.error('Error sending all-clear:', error);
       return {
-        success: true,
-        message: 'Critical SOS alert sent successfully (mock response)',
-        data: {
-          contactsNotified: 3,
-          location: location,
-          timestamp: new Date().toISOString()
-        }
+        alertId,
+        delivered: false,
+        message: 'All-clear was NOT sent: the alert service could not be reached',
+        contactsNotified: 0,
+        totalContacts: 0,
+        incident: null
       };
     }
   }
 
   /**
-   * Detect if transcribed text contains threat indicators
+   * Assess transcribed text for threat indicators, including evidence from earlier turns
    */
-  detectThreat(transcribedText: string): boolean {
-    const threatKeywords = [
-      'help me', 'help', 'go away', 'leave me alone', 'stop', 'no',
-      'scared', 'afraid', 'uncomfortable', 'threatening', 'following',
-      'emergency', 'call police', 'danger', 'unsafe'
-    ];
-
-    const lowerText = transcribedText.toLowerCase();
-    return threatKeywords.some(keyword => lowerText.includes(keyword));
+  assessThreat(transcribedText: string): ThreatAssessment {
+    return this.threatAssessor.assess(transcribedText);
+  }
+
+  /**
+   * Clear multi-turn threat evidence at the end of an activation
+   */
+  resetThreatAssessment(): void {
+    this.threatAssessor.reset();
   }
 
   /**
    * Process complete audio workflow: transcribe -> analyze -> respond
    */
-  async processAudioWorkflow(audioBlob: Blob): Promise<AudioProcessingResult> {
+  async processAudioWorkflow(
+    audioBlob: Blob,
+    transcriptionSettings: TranscriptionSettings = DEFAULT_TRANSCRIPTION_SETTINGS,
+    session: ConversationSession = new ConversationSession()
+  ): Promise<AudioProcessingResult> {
     try {
       // Step 1: Transcribe audio
-      const transcription = await this.transcribeAudio(audioBlob);
+      const transcription = await this.transcribeAudio(audioBlob, transcriptionSettings);
       
-      // Step 2: Detect threat
-      const threatDetected = this.detectThreat(transcription);
+      // Step 2: Assess threat
+      const threat = this.assessThreat(transcription);
       
-      // Step 3: Get AI response based on threat level
-      const aiResponse = await this.getAIResponse(transcription, threatDetected);
+      // Step 3: Record the turn and escalate the persona if needed
+      session.addUserTurn(transcription, threat.level);
+      session.escalate(threat.level);
+
+      // Step 4: Get AI response with the conversation history
+      const aiResponse = await this.getAIResponse(session);
+      session.addAssistantTurn(aiResponse);
       
       return {
         transcription,
-        threat_detected: threatDetected,
+        threat,
         ai_response: aiResponse
       };
     } catch (error) {
@@ -272,99 +510,15 @@ class ApiService {
   /**
    * Play audio response through device speakers
    */
-  async playAudioResponse(responseText: string): Promise<void> {
+  async playAudioResponse(responseText: string, settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS): Promise<void> {
     try {
-      // Generate speech audio
-      const audioBlob = await this.generateSpeech(responseText);
-      
-      if (audioBlob.size > 0) {
-        // Play generated audio
-        const audioUrl = URL.createObjectURL(audioBlob);
-        const audio = new Audio(audioUrl);
-        audio.volume = 1.0;
-        
-        await new Promise((resolve, reject) => {
-          audio.onended = resolve;
-          audio.onerror = reject;
-          audio.play();
-        });
-        
-        // Clean up
-        URL.revokeObjectURL(audioUrl);
-      } else {
-        // Fallback to browser's built-in TTS
-        if ('speechSynthesis' in window) {
-          const utterance = new SpeechSynthesisUtterance(responseText);
-          utterance.rate = 0.9;
-          utterance.pitch = 1.0;
-          utterance.volume = 1.0;
-          speechSynthesis.speak(utterance);
-        }
-      }
+      await speakText(responseText, settings);
     } catch (error) {
       console.error('Error playing audio response:', error);
       // Fallback to text display
       throw error;
     }
   }
-
-  /**
-   * Play emergency warning messages with escalating intensity
-   */
-  async playEmergencyWarnings(): Promise<void> {
-    try {
-      for (let i = 0; i < this.emergencyWarnings.length; i++) {
-        const warning = this.emergencyWarnings[i];
-        
-        // Use browser's built-in TTS with aggressive settings
-        if ('speechSynthesis' in window) {
-          const utterance = new SpeechSynthesisUtterance(warning);
-          
-          // Configure for authoritative, commanding voice
-          utterance.rate = 0.8;  // Slightly slower for clarity
-          utterance.pitch = 0.7; // Lower pitch for authority
-          utterance.volume = 1.0; // Maximum volume
-          
-          // Try to use a deeper, more authoritative voice
-          const voices = speechSynthesis.getVoices();
-          const maleVoice = voices.find(voice => 
-            voice.name.toLowerCase().includes('male') || 
-            voice.name.toLowerCase().includes('david') ||
-            voice.name.toLowerCase().includes('daniel')
-          );
-          if (maleVoice) {
-            utterance.voice = maleVoice;
-          }
-          
-          // Play the warning
-          speechSynthesis.speak(utterance);
-          
-          // Wait for this warning to finish before next one
-          await new Promise((resolve) => {
-            utterance.onend = resolve;
-            utterance.onerror = resolve;
-          });
-          
-          // Wait 10 seconds before next escalation (except for last message)
-          if (i < this.emergencyWarnings.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 10000));
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error playing emergency warnings:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Stop all emergency voice warnings
-   */
-  stopEmergencyWarnings(): void {
-    if ('speechSynthesis' in window) {
-      speechSynthesis.cancel();
-    }
-  }
 }
 
 export const apiService = new ApiService();
\ No newline at end of file
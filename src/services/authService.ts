@@ -0,0 +1,99 @@
+import { Session } from '@supabase/supabase-js';
+import { AuthAccount } from '../types';
+import { getSupabaseClient } from './supabaseClient';
+
+const toAccount = (session: Session | null): AuthAccount | null => {
+  if (!session) return null;
+  const { user } = session;
+  return {
+    userId: user.id,
+    email: user.email || null,
+    isAnonymous: user.is_anonymous ?? !user.email,
+    pendingEmail: user.new_email || null
+  };
+};
+
+class AuthService {
+  /**
+   * The signed-in account, signing in anonymously when there is none yet so every install has a
+   * real user id for its profile and contacts. Null when Supabase is not configured.
+   */
+  async ensureSession(): Promise<AuthAccount | null> {
+    const client = getSupabaseClient();
+    if (!client) return null;
+
+    const { data: { session } } = await client.auth.getSession();
+    if (session) return toAccount(session);
+
+    const { data, error } = await client.auth.signInAnonymously();
+    if (error) {
+      throw new Error(`Could not sign in: ${error.message}`);
+    }
+    return toAccount(data.session);
+  }
+
+  async getAccount(): Promise<AuthAccount | null> {
+    const client = getSupabaseClient();
+    if (!client) return null;
+
+    const { data: { session } } = await client.auth.getSession();
+    return toAccount(session);
+  }
+
+  /**
+   * Access token for calls to the edge functions on behalf of the user
+   */
+  async getAccessToken(): Promise<string | null> {
+    const client = getSupabaseClient();
+    if (!client) return null;
+
+    const { data: { session } } = await client.auth.getSession();
+    return session?.access_token ?? null;
+  }
+
+  /**
+   * Email a sign-in link. An anonymous account gets the email linked instead, so it keeps its
+   * profile and contacts; any other account signs in to the account that owns the address.
+   */
+  async sendEmailLink(email: string): Promise<void> {
+    const client = getSupabaseClient();
+    if (!client) {
+      throw new Error('Accounts are not available: Supabase is not configured');
+    }
+
+    const account = await this.getAccount();
+    const { error } = account?.isAnonymous
+      ? await client.auth.updateUser({ email }, { emailRedirectTo: window.location.origin })
+      : await client.auth.signInWithOtp({ email, options: { emailRedirectTo: window.location.origin } });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async signOut(): Promise<void> {
+    const client = getSupabaseClient();
+    if (!client) return;
+
+    const { error } = await client.auth.signOut();
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Called with the account whenever the user signs in or out, or a linked email is confirmed.
+   * Returns the unsubscribe function.
+   */
+  onChange(listener: (account: AuthAccount | null) => void): () => void {
+    const client = getSupabaseClient();
+    if (!client) return () => {};
+
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => {
+      listener(toAccount(session));
+    });
+    return () => subscription.unsubscribe();
+  }
+}
+
+export const authService = new AuthService();
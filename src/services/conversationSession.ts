@@ -0,0 +1,129 @@
+import { ChatMessage, ConversationPersona, ConversationTurn, ThreatLevel } from '../types';
+
+const PERSONA_PROMPTS: Record<ConversationPersona, string> = {
+  calm: `You are Aura, a personal safety AI. You are on a simulated phone call with me. Your tone is calm, clear, and reassuring. Respond as if you are a friend or family member on the phone, asking clarifying questions like 'What's going on?' or 'Describe them to me'. Refer back to what I already told you instead of asking again. Keep responses under 30 words.`,
+  assertive: `You are Aura, a personal safety AI. The situation has escalated. Change your tone to be loud, assertive, and official. Announce that this is a monitored safety call, that audio is being recorded, and that the user's location has been shared with authorities. Address the potential aggressor directly. Keep responses under 50 words and be direct.`
+};
+
+const ESCALATION_NOTE = 'Earlier in this call you were speaking calmly as a friend. Keep using what you learned, but switch to the assertive tone now.';
+
+const ESCALATING_LEVELS: ThreatLevel[] = ['elevated', 'high'];
+
+// Rough OpenAI tokenizer estimate for English text
+const CHARS_PER_TOKEN = 4;
+const SUMMARY_SNIPPET_LENGTH = 80;
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+interface ConversationSessionOptions {
+  tokenBudget?: number;
+  onChange?: (turns: ConversationTurn[]) => void;
+}
+
+/**
+ * Transcript/response history for one Aura activation
+ */
+export class ConversationSession {
+  readonly id: string;
+  readonly startedAt: string;
+  private turns: ConversationTurn[] = [];
+  private summary = '';
+  private summarizedCount = 0;
+  private currentPersona: ConversationPersona = 'calm';
+  private escalatedAt: number | null = null;
+  private tokenBudget: number;
+  private onChange?: (turns: ConversationTurn[]) => void;
+
+  constructor({ tokenBudget = 1200, onChange }: ConversationSessionOptions = {}) {
+    this.id = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.startedAt = new Date().toISOString();
+    this.tokenBudget = tokenBudget;
+    this.onChange = onChange;
+  }
+
+  get persona(): ConversationPersona {
+    return this.currentPersona;
+  }
+
+  /**
+   * Every turn of the activation, including ones folded into the summary
+   */
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  addUserTurn(text: string, threatLevel?: ThreatLevel): void {
+    this.pushTurn({ role: 'user', text, threatLevel });
+  }
+
+  addAssistantTurn(text: string): void {
+    this.pushTurn({ role: 'assistant', text });
+  }
+
+  /**
+   * Switch to the assertive persona once the threat level rises. The persona
+   * never steps back down within a session.
+   */
+  escalate(threatLevel: ThreatLevel): boolean {
+    if (this.currentPersona === 'assertive' || !ESCALATING_LEVELS.includes(threatLevel)) {
+      return false;
+    }
+    this.currentPersona = 'assertive';
+    this.escalatedAt = this.turns.length;
+    return true;
+  }
+
+  /**
+   * Chat messages for the model, trimmed to the token budget. Turns that no
+   * longer fit are folded into a running summary rather than dropped.
+   */
+  buildMessages(): ChatMessage[] {
+    const systemPrompt = [
+      PERSONA_PROMPTS[this.currentPersona],
+      this.escalatedAt !== null && this.escalatedAt > 0 ? ESCALATION_NOTE : ''
+    ].filter(Boolean).join('\n\n');
+
+    let recent = this.turns.slice(this.summarizedCount);
+    while (recent.length > 1 && this.estimateMessages(systemPrompt, recent) > this.tokenBudget) {
+      this.foldIntoSummary(recent[0]);
+      recent = recent.slice(1);
+    }
+
+    const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+    if (this.summary) {
+      messages.push({ role: 'system', content: `Summary of the call so far:\n${this.summary}` });
+    }
+    recent.forEach(turn => messages.push({ role: turn.role, content: turn.text }));
+
+    return messages;
+  }
+
+  private pushTurn(turn: Omit<ConversationTurn, 'timestamp' | 'persona'>): void {
+    this.turns.push({
+      ...turn,
+      timestamp: new Date().toISOString(),
+      persona: this.currentPersona
+    });
+    this.onChange?.(this.getTurns());
+  }
+
+  private foldIntoSummary(turn: ConversationTurn): void {
+    const speaker = turn.role === 'user' ? 'User' : 'Aura';
+    const snippet = turn.text.length > SUMMARY_SNIPPET_LENGTH
+      ? `${turn.text.slice(0, SUMMARY_SNIPPET_LENGTH)}…`
+      : turn.text;
+    const lines = [...this.summary.split('\n').filter(Boolean), `- ${speaker}: ${snippet}`];
+    // The summary itself gets at most a third of the budget; the oldest lines go first
+    while (lines.length > 1 && estimateTokens(lines.join('\n')) > this.tokenBudget / 3) {
+      lines.shift();
+    }
+    this.summary = lines.join('\n');
+    this.summarizedCount++;
+  }
+
+  private estimateMessages(systemPrompt: string, turns: ConversationTurn[]): number {
+    return estimateTokens(systemPrompt)
+      + estimateTokens(this.summary)
+      + turns.reduce((total, turn) => total + estimateTokens(turn.text), 0);
+  }
+}
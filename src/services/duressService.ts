@@ -0,0 +1,120 @@
+import { AlertDispatchResult, AlertTriggerSource, AllClearResult, IncidentResolution, PinVerdict } from '../types';
+import { hashSafetyCode, storageService } from './storageService';
+import { tokenize } from './phraseMatcher';
+import { cancelWord } from './wakePhrases';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+const MIN_PHRASE_WORDS = 2;
+
+export const DURESS_TRIGGER_SOURCES: AlertTriggerSource[] = ['duress_pin', 'duress_phrase'];
+
+interface SafetyCodesInput {
+  cancelPin: string;
+  duressPin?: string;
+  duressPhrase?: string;
+}
+
+const isPin = (value: string): boolean =>
+  new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(value);
+
+class DuressService {
+  /**
+   * Whether cancelling an alert asks for a PIN
+   */
+  isPinRequired(): boolean {
+    return storageService.getSafetyCodes() !== null;
+  }
+
+  /**
+   * Which codes are set, for the settings screen; the codes themselves cannot be read back
+   */
+  getStatus(): { cancelPin: boolean; duressPin: boolean; duressPhrase: boolean } {
+    const codes = storageService.getSafetyCodes();
+    return {
+      cancelPin: codes !== null,
+      duressPin: Boolean(codes?.duressPinHash),
+      duressPhrase: Boolean(codes?.duressPhraseHash)
+    };
+  }
+
+  /**
+   * What is wrong with a set of codes, or null when they can be saved
+   */
+  validate({ cancelPin, duressPin, duressPhrase }: SafetyCodesInput, language: string): string | null {
+    if (!isPin(cancelPin)) return `The cancel PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits`;
+    if (duressPin && !isPin(duressPin)) return `The duress PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits`;
+    if (duressPin && duressPin === cancelPin) return 'The duress PIN must be different from the cancel PIN';
+
+    if (duressPhrase) {
+      const words = tokenize(duressPhrase);
+      if (words.length < MIN_PHRASE_WORDS) return `The duress phrase needs at least ${MIN_PHRASE_WORDS} words`;
+      if (words.includes(tokenize(cancelWord(language))[0])) {
+        return `The duress phrase cannot contain "${cancelWord(language)}"`;
+      }
+    }
+    return null;
+  }
+
+  async save(codes: SafetyCodesInput): Promise<void> {
+    await storageService.saveSafetyCodes(codes);
+  }
+
+  clear(): void {
+    storageService.clearSafetyCodes();
+  }
+
+  /**
+   * Which code a PIN is. Checked against both hashes every time, so the answer takes as long either way.
+   */
+  async verifyPin(pin: string): Promise<PinVerdict> {
+    const codes = storageService.getSafetyCodes();
+    if (!codes) return 'invalid';
+
+    const hash = await hashSafetyCode(codes.salt, pin, codes.iterations);
+    const isCancel = hash === codes.cancelPinHash;
+    const isDuress = hash === codes.duressPinHash;
+    return isDuress ? 'duress' : isCancel ? 'cancel' : 'invalid';
+  }
+
+  /**
+   * Whether the transcript contains the duress phrase. Only its hash is stored, so every run of
+   * the phrase's length is hashed and compared; unlike wake phrases, it has to be heard exactly.
+   */
+  async matchesDuressPhrase(transcript: string): Promise<boolean> {
+    const codes = storageService.getSafetyCodes();
+    if (!codes?.duressPhraseHash) return false;
+
+    const words = tokenize(transcript);
+    const size = codes.duressPhraseWords;
+    for (let start = 0; start + size <= words.length; start++) {
+      const hash = await hashSafetyCode(codes.salt, words.slice(start, start + size).join(' '), codes.duressPhraseIterations);
+      if (hash === codes.duressPhraseHash) return true;
+    }
+    return false;
+  }
+
+  /**
+   * What send-all-clear would have answered for this alert, shown while the duress alert goes out
+   */
+  coverAllClear(alert: AlertDispatchResult, resolution: IncidentResolution, reason?: string): AllClearResult {
+    const reached = alert.outcomes.filter(outcome => outcome.status === 'sent').length;
+    return {
+      alertId: alert.alertId ?? '',
+      delivered: true,
+      message: reached > 0
+        ? `All-clear sent to ${reached}/${reached} contacts`
+        : 'Incident closed; no contacts had been notified',
+      contactsNotified: reached,
+      totalContacts: reached,
+      incident: {
+        status: resolution,
+        acknowledgedAt: alert.incident?.acknowledgedAt ?? null,
+        resolvedAt: new Date().toISOString(),
+        resolutionReason: reason?.trim().slice(0, 200) || null
+      }
+    };
+  }
+}
+
+export const duressService = new DuressService();
@@ -0,0 +1,269 @@
+import { EscalationPhase, EscalationProgress, EscalationScript, EscalationStep, SpeechSettings } from '../types';
+import { createSpeechSynthesizer, speakText, stopSpeaking } from './speechService';
+import { speechCache } from './speechCache';
+
+const SIREN_MS = 4000;
+// Lower pitch for authority where the backend supports it
+const WARNING_PITCH = 0.7;
+
+type ProgressListener = (progress: EscalationProgress) => void;
+
+const IDLE_PROGRESS: EscalationProgress = {
+  status: 'idle',
+  phase: null,
+  stepIndex: 0,
+  totalSteps: 0,
+  step: null
+};
+
+/**
+ * Plays an escalation script step by step during a fake call, with pause, resume and skip
+ */
+class EscalationPlayer {
+  private listeners = new Set<ProgressListener>();
+  private progress: EscalationProgress = IDLE_PROGRESS;
+  // Bumped by play and stop so an older playback loop exits
+  private run = 0;
+  private paused = false;
+  private skipRequested = false;
+  // Wakes the current wait early on pause, resume, skip or stop
+  private interruptWait: (() => void) | null = null;
+  private stopSiren: (() => void) | null = null;
+
+  /**
+   * Play every step of the script; resolves when it finishes or is stopped
+   */
+  async play(script: EscalationScript, settings: SpeechSettings): Promise<void> {
+    this.stop();
+    const run = ++this.run;
+    const steps = script.steps;
+    this.paused = false;
+
+    let index = 0;
+    while (index < steps.length) {
+      await this.waitWhilePaused(run);
+      if (run !== this.run) return;
+
+      const step = steps[index];
+      this.skipRequested = false;
+      this.emit('playing', 'speaking', index, steps);
+
+      try {
+        await speakText(step.text, this.voiceFor(step, settings), { pitch: WARNING_PITCH, volume: step.volume }, true);
+      } catch (error) {
+        console.error('Error playing escalation step:', error);
+      }
+      if (run !== this.run) return;
+
+      // Paused mid-sentence: play the step again from the start once resumed, unless skipped meanwhile
+      if (this.paused && !this.skipRequested) {
+        await this.waitWhilePaused(run);
+        if (run !== this.run) return;
+        if (!this.skipRequested) continue;
+      }
+
+      const isLast = index === steps.length - 1;
+      if (!this.skipRequested && !isLast) {
+        if (step.sirenAfter) {
+          this.emit('playing', 'siren', index, steps);
+          await this.playSiren(step.volume);
+          if (run !== this.run) return;
+        }
+
+        if (!this.skipRequested) {
+          this.emit(this.paused ? 'paused' : 'playing', 'waiting', index, steps);
+          await this.pausableDelay(step.delayMs, run);
+          if (run !== this.run) return;
+        }
+      }
+
+      index++;
+    }
+
+    this.emit('finished', null, steps.length - 1, steps);
+  }
+
+  pause(): void {
+    if (this.progress.status !== 'playing') return;
+    this.paused = true;
+    stopSpeaking();
+    this.stopSiren?.();
+    this.emit('paused', this.progress.phase);
+    this.wake();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.emit('playing', this.progress.phase);
+    this.wake();
+  }
+
+  /**
+   * Cut the current step (and its siren and delay) short and move on to the next one
+   */
+  skip(): void {
+    if (this.progress.status !== 'playing' && this.progress.status !== 'paused') return;
+    this.skipRequested = true;
+    this.paused = false;
+    stopSpeaking();
+    this.stopSiren?.();
+    this.wake();
+  }
+
+  stop(): void {
+    this.run++;
+    this.paused = false;
+    stopSpeaking();
+    this.stopSiren?.();
+    this.wake();
+    if (this.progress.status === 'playing' || this.progress.status === 'paused') {
+      this.emit('stopped', null);
+    }
+  }
+
+  /**
+   * Synthesize every step ahead of time so the script plays instantly, even offline
+   */
+  async preload(script: EscalationScript, settings: SpeechSettings): Promise<number> {
+    let cached = 0;
+
+    for (const step of script.steps) {
+      const voiceSettings = this.voiceFor(step, settings);
+      const synthesizer = createSpeechSynthesizer(voiceSettings);
+      if (!synthesizer.producesAudio) continue;
+
+      if (await speechCache.get(step.text, voiceSettings)) {
+        cached++;
+        continue;
+      }
+
+      try {
+        await speechCache.put(step.text, voiceSettings, await synthesizer.synthesize(step.text));
+        cached++;
+      } catch (error) {
+        console.warn('Could not pre-synthesize escalation step:', error);
+      }
+    }
+    return cached;
+  }
+
+  getProgress(): EscalationProgress {
+    return this.progress;
+  }
+
+  subscribe(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    listener(this.progress);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private voiceFor(step: EscalationStep, settings: SpeechSettings): SpeechSettings {
+    return step.voice ? { ...settings, voice: step.voice } : settings;
+  }
+
+  private emit(
+    status: EscalationProgress['status'],
+    phase: EscalationPhase | null,
+    stepIndex: number = this.progress.stepIndex,
+    steps?: EscalationStep[]
+  ): void {
+    const totalSteps = steps ? steps.length : this.progress.totalSteps;
+    this.progress = {
+      status,
+      phase,
+      stepIndex,
+      totalSteps,
+      step: steps ? steps[stepIndex] ?? null : this.progress.step
+    };
+    this.listeners.forEach(listener => listener(this.progress));
+  }
+
+  private wake(): void {
+    const interrupt = this.interruptWait;
+    this.interruptWait = null;
+    interrupt?.();
+  }
+
+  /**
+   * Resolve after ms, or earlier when woken
+   */
+  private interruptibleWait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.interruptWait = null;
+        resolve();
+      }, ms);
+      this.interruptWait = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private async waitWhilePaused(run: number): Promise<void> {
+    while (this.paused && run === this.run) {
+      await this.interruptibleWait(60000);
+    }
+  }
+
+  /**
+   * Wait between steps; time spent paused does not count
+   */
+  private async pausableDelay(ms: number, run: number): Promise<void> {
+    let remaining = ms;
+
+    while (remaining > 0 && run === this.run && !this.skipRequested) {
+      if (this.paused) {
+        await this.waitWhilePaused(run);
+        continue;
+      }
+
+      const startedAt = Date.now();
+      await this.interruptibleWait(remaining);
+      remaining -= Date.now() - startedAt;
+    }
+  }
+
+  /**
+   * Two-tone siren from an oscillator, so it needs no audio asset and works offline
+   */
+  private playSiren(volume: number): Promise<void> {
+    return new Promise(resolve => {
+      let audioContext: AudioContext;
+      try {
+        audioContext = new AudioContext();
+      } catch (error) {
+        console.error('Error starting siren:', error);
+        resolve();
+        return;
+      }
+
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.type = 'sawtooth';
+      gain.gain.value = volume * 0.5;
+      oscillator.connect(gain).connect(audioContext.destination);
+
+      const start = audioContext.currentTime;
+      for (let t = 0; t < SIREN_MS / 1000; t += 0.5) {
+        oscillator.frequency.setValueAtTime(t % 1 === 0 ? 960 : 770, start + t);
+      }
+      oscillator.start();
+
+      const finish = () => {
+        clearTimeout(timer);
+        this.stopSiren = null;
+        oscillator.stop();
+        audioContext.close();
+        resolve();
+      };
+      const timer = setTimeout(finish, SIREN_MS);
+      this.stopSiren = finish;
+    });
+  }
+}
+
+export const escalationPlayer = new EscalationPlayer();
@@ -0,0 +1,59 @@
+import { EscalationScript, EscalationStep } from '../types';
+
+const DEFAULT_DELAY_MS = 10000;
+
+const DEFAULT_WARNINGS: Record<string, string[]> = {
+  en: [
+    "Hey! I can see you on camera right now. Step away from that person immediately.",
+    "This is a monitored safety call. I'm recording everything and your location is being tracked. Back off now!",
+    "Police have been notified and are en route to your exact location. I repeat - authorities are on the way. Leave immediately!",
+    "This is your final warning. Emergency services are 2 minutes away. You are being recorded and identified. Move away now!"
+  ],
+  es: [
+    "¡Oye! Te estoy viendo por la cámara ahora mismo. Aléjate de esa persona inmediatamente.",
+    "Esta es una llamada de seguridad monitoreada. Estoy grabando todo y tu ubicación está siendo rastreada. ¡Retrocede ahora!",
+    "La policía ha sido notificada y va en camino a tu ubicación exacta. Repito: las autoridades están en camino. ¡Vete inmediatamente!",
+    "Esta es tu última advertencia. Los servicios de emergencia están a 2 minutos. Te están grabando e identificando. ¡Aléjate ahora!"
+  ],
+  fr: [
+    "Hé ! Je te vois sur la caméra en ce moment. Éloigne-toi de cette personne immédiatement.",
+    "Ceci est un appel de sécurité surveillé. J'enregistre tout et ta position est suivie. Recule maintenant !",
+    "La police a été prévenue et se dirige vers ta position exacte. Je répète : les autorités arrivent. Pars immédiatement !",
+    "Ceci est ton dernier avertissement. Les secours sont à 2 minutes. Tu es enregistré et identifié. Éloigne-toi maintenant !"
+  ]
+};
+
+export const createEscalationStep = (text: string = '', id: string = crypto.randomUUID()): EscalationStep => ({
+  id,
+  text,
+  voice: '',
+  delayMs: DEFAULT_DELAY_MS,
+  volume: 1.0,
+  sirenAfter: false
+});
+
+/**
+ * Built-in script for a language, falling back to English
+ */
+export const defaultEscalationScript = (language: string): EscalationScript => {
+  const base = language.split('-')[0];
+  const warnings = DEFAULT_WARNINGS[base] ?? DEFAULT_WARNINGS.en;
+  return {
+    language,
+    steps: warnings.map((text, index) => createEscalationStep(text, `${language}-${index + 1}`))
+  };
+};
+
+export const DEFAULT_ESCALATION_SCRIPTS: EscalationScript[] = Object.keys(DEFAULT_WARNINGS).map(defaultEscalationScript);
+
+/**
+ * Pick the variant for a language: exact match, then same base language, then English, then anything
+ */
+export const selectEscalationScript = (scripts: EscalationScript[], language: string): EscalationScript => {
+  const base = language.split('-')[0];
+  return scripts.find(script => script.language === language)
+    ?? scripts.find(script => script.language.split('-')[0] === base)
+    ?? scripts.find(script => script.language === 'en')
+    ?? scripts[0]
+    ?? defaultEscalationScript('en');
+};
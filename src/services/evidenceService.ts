@@ -0,0 +1,374 @@
+import { EvidenceChunk, EvidenceRecording, EvidenceVerification } from '../types';
+import { authService } from './authService';
+import { getSupabaseClient } from './supabaseClient';
+
+const BUCKET = 'evidence';
+const IV_BYTES = 12;
+// prev_hash of the first chunk; must match the evidence_chunks migration
+export const GENESIS_HASH = '0'.repeat(64);
+
+// A task that still fails after the last delay is dropped, so it cannot hold up the ones behind it
+const RETRY_DELAYS_MS = [2000, 5000, 15000, 30000, 60000, 120000, 300000];
+
+const CHUNK_COLUMNS = 'session_id, seq, storage_path, sha256, prev_hash, chain_hash, byte_size, recorded_at';
+
+interface ChunkRow {
+  session_id: string;
+  seq: number;
+  storage_path: string;
+  sha256: string;
+  prev_hash: string;
+  chain_hash: string;
+  byte_size: number;
+  recorded_at: string;
+}
+
+interface Recording {
+  sessionId: string;
+  startedAt: string;
+  ready: Promise<{ userId: string; key: CryptoKey }>;
+  alertId: string | null;
+  registered: boolean; // the session row is queued for upload
+  nextSeq: number;
+  headHash: string;
+}
+
+type UploadTask = () => Promise<void>;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+const toBase64 = (buffer: ArrayBuffer): string =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+// Backed by a plain ArrayBuffer, which Web Crypto requires
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Hash linking a chunk to the one before it. Taking the session id in means chunks cannot be
+ * moved between recordings either.
+ */
+export const chainHash = (sessionId: string, seq: number, prevHash: string, sha256: string): Promise<string> =>
+  sha256Hex(new TextEncoder().encode(`${sessionId}:${seq}:${prevHash}:${sha256}`));
+
+const isDuplicate = (error: { code?: string; message: string }): boolean =>
+  error.code === '23505' || /already exists/i.test(error.message);
+
+const toChunk = (row: ChunkRow): EvidenceChunk => ({
+  sessionId: row.session_id,
+  seq: row.seq,
+  storagePath: row.storage_path,
+  sha256: row.sha256,
+  prevHash: row.prev_hash,
+  chainHash: row.chain_hash,
+  byteSize: row.byte_size,
+  recordedAt: row.recorded_at
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Audio recorded during an incident. Each chunk is encrypted with the recording's AES-GCM key,
+ * hashed into a chain with the chunks before it and uploaded to Supabase Storage as soon as it
+ * is recorded, so whatever was uploaded survives the phone being taken. Uploads run in order
+ * and are retried while the app stays open; chunks still waiting are lost with the tab.
+ */
+class EvidenceService {
+  private recordings = new Map<string, Recording>();
+  private sealing: Promise<void> = Promise.resolve();
+  private uploads: UploadTask[] = [];
+  private uploading = false;
+
+  /**
+   * Start a recording and return its session id, which the chunks and the end are sent with
+   */
+  start(): string {
+    const sessionId = crypto.randomUUID();
+    const ready = this.prepare();
+    // Reported when the first chunk is sealed
+    ready.catch(() => undefined);
+
+    this.recordings.set(sessionId, {
+      sessionId,
+      startedAt: new Date().toISOString(),
+      ready,
+      alertId: null,
+      registered: false,
+      nextSeq: 0,
+      headHash: GENESIS_HASH
+    });
+    return sessionId;
+  }
+
+  /**
+   * Encrypt, chain and queue the next chunk. Chunks are sealed strictly in the order they arrive.
+   */
+  addChunk(sessionId: string, chunk: Blob): void {
+    const recording = this.recordings.get(sessionId);
+    if (!recording) return;
+
+    this.sealing = this.sealing
+      .then(() => this.seal(recording, chunk))
+      .catch((error) => console.error('Error sealing evidence chunk:', error));
+  }
+
+  /**
+   * Attach the recording to its incident once the alert has an id
+   */
+  attachToAlert(sessionId: string, alertId: string): void {
+    const recording = this.recordings.get(sessionId);
+    if (!recording || recording.alertId) return;
+
+    recording.alertId = alertId;
+    // Otherwise the session row is still to be written, and is written with the alert
+    if (recording.registered) {
+      this.enqueue(() => this.updateSession(recording.sessionId, { alert_id: alertId }));
+    }
+  }
+
+  /**
+   * End a recording after its last chunk. A recording that never ends (the phone was taken)
+   * keeps every chunk uploaded until then, and verifies as cut off.
+   */
+  stop(sessionId: string): void {
+    const recording = this.recordings.get(sessionId);
+    if (!recording) return;
+    this.recordings.delete(sessionId);
+
+    this.sealing = this.sealing.then(() => {
+      if (!recording.registered) return;
+      this.enqueue(() => this.updateSession(recording.sessionId, {
+        ended_at: new Date().toISOString(),
+        chunk_count: recording.nextSeq,
+        head_hash: recording.headHash
+      }));
+    });
+  }
+
+  /**
+   * Check every uploaded chunk of a recording against its hash and the chain, in order
+   */
+  async verify(recording: EvidenceRecording): Promise<EvidenceVerification> {
+    const client = await this.client();
+    const { data, error } = await client
+      .from('evidence_chunks')
+      .select(CHUNK_COLUMNS)
+      .eq('session_id', recording.sessionId)
+      .order('seq', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    const chunks = ((data ?? []) as ChunkRow[]).map(toChunk);
+
+    const result = (chunksChecked: number, brokenAtSeq: number | null, problem: string | null, headHash: string): EvidenceVerification => ({
+      sessionId: recording.sessionId,
+      valid: problem === null,
+      complete: problem === null && recording.endedAt !== null && recording.chunkCount === chunksChecked && recording.headHash === headHash,
+      chunksChecked,
+      brokenAtSeq,
+      problem
+    });
+
+    let prevHash = GENESIS_HASH;
+    for (const [index, chunk] of chunks.entries()) {
+      if (chunk.seq !== index) {
+        return result(index, index, `Chunk ${index} is missing`, prevHash);
+      }
+      if (chunk.prevHash !== prevHash) {
+        return result(index, index, `Chunk ${index} does not link to the chunk before it`, prevHash);
+      }
+      if (await chainHash(recording.sessionId, chunk.seq, chunk.prevHash, chunk.sha256) !== chunk.chainHash) {
+        return result(index, index, `Chunk ${index} has been altered`, prevHash);
+      }
+
+      const { data: object, error: downloadError } = await client.storage.from(BUCKET).download(chunk.storagePath);
+      if (downloadError || !object) {
+        return result(index, index, `Chunk ${index} could not be downloaded`, prevHash);
+      }
+      if (await sha256Hex(await object.arrayBuffer()) !== chunk.sha256) {
+        return result(index, index, `Chunk ${index} does not match its hash`, prevHash);
+      }
+      prevHash = chunk.chainHash;
+    }
+
+    const missing = (recording.endedAt !== null ? recording.chunkCount ?? 0 : 0) - chunks.length;
+    if (missing > 0) {
+      return result(chunks.length, chunks.length, `${missing} chunk${missing === 1 ? '' : 's'} never arrived`, prevHash);
+    }
+    return result(chunks.length, null, null, prevHash);
+  }
+
+  /**
+   * Decrypt a recording and save it through the browser's download prompt
+   */
+  async download(recording: EvidenceRecording): Promise<void> {
+    const client = await this.client();
+    const [session, chunks] = await Promise.all([
+      client.from('evidence_sessions').select('encryption_key').eq('id', recording.sessionId).maybeSingle(),
+      client.from('evidence_chunks').select(CHUNK_COLUMNS).eq('session_id', recording.sessionId).order('seq', { ascending: true })
+    ]);
+
+    const failed = [session, chunks].find(response => response.error);
+    if (failed?.error) throw new Error(failed.error.message);
+    if (!session.data) throw new Error('Recording not found');
+
+    const key = await crypto.subtle.importKey('raw', fromBase64(session.data.encryption_key), 'AES-GCM', false, ['decrypt']);
+    const parts: ArrayBuffer[] = [];
+    for (const chunk of ((chunks.data ?? []) as ChunkRow[]).map(toChunk)) {
+      const { data: object, error } = await client.storage.from(BUCKET).download(chunk.storagePath);
+      if (error || !object) throw new Error(`Chunk ${chunk.seq} could not be downloaded`);
+
+      const bytes = new Uint8Array(await object.arrayBuffer());
+      parts.push(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) }, key, bytes.slice(IV_BYTES)));
+    }
+
+    const url = URL.createObjectURL(new Blob(parts, { type: recording.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aura-evidence-${recording.startedAt.slice(0, 19).replace(/:/g, '-')}.webm`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  private async prepare(): Promise<{ userId: string; key: CryptoKey }> {
+    const account = await authService.ensureSession();
+    if (!account) {
+      throw new Error('Evidence recording is not available: Supabase is not configured');
+    }
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    return { userId: account.userId, key };
+  }
+
+  private async seal(recording: Recording, chunk: Blob): Promise<void> {
+    const { userId, key } = await recording.ready;
+    const seq = recording.nextSeq;
+
+    // The key goes up before the first chunk, so the recording can be decrypted without the phone
+    if (!recording.registered) {
+      recording.registered = true;
+      const encryptionKey = toBase64(await crypto.subtle.exportKey('raw', key));
+      this.enqueue(() => this.insertSession(recording, userId, encryptionKey, chunk.type));
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await chunk.arrayBuffer());
+    const object = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+    object.set(iv);
+    object.set(new Uint8Array(ciphertext), IV_BYTES);
+
+    const sha256 = await sha256Hex(object);
+    const record: EvidenceChunk = {
+      sessionId: recording.sessionId,
+      seq,
+      storagePath: `${userId}/${recording.sessionId}/${String(seq).padStart(6, '0')}.bin`,
+      sha256,
+      prevHash: recording.headHash,
+      chainHash: await chainHash(recording.sessionId, seq, recording.headHash, sha256),
+      byteSize: object.byteLength,
+      recordedAt: new Date().toISOString()
+    };
+
+    recording.nextSeq = seq + 1;
+    recording.headHash = record.chainHash;
+    this.enqueue(() => this.uploadChunk(record, object));
+  }
+
+  private async insertSession(recording: Recording, userId: string, encryptionKey: string, mimeType: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await client.from('evidence_sessions').insert({
+      id: recording.sessionId,
+      user_id: userId,
+      alert_id: recording.alertId,
+      encryption_key: encryptionKey,
+      mime_type: mimeType || 'audio/webm',
+      started_at: recording.startedAt
+    });
+
+    // A retry after the row was written but the response was lost
+    if (error && !isDuplicate(error)) throw new Error(error.message);
+  }
+
+  private async updateSession(sessionId: string, changes: Record<string, unknown>): Promise<void> {
+    const client = await this.client();
+    const { error } = await client.from('evidence_sessions').update(changes).eq('id', sessionId);
+    if (error) throw new Error(error.message);
+  }
+
+  private async uploadChunk(chunk: EvidenceChunk, object: Uint8Array): Promise<void> {
+    const client = await this.client();
+    const { error: uploadError } = await client.storage
+      .from(BUCKET)
+      .upload(chunk.storagePath, object, { contentType: 'application/octet-stream', upsert: false });
+    if (uploadError && !isDuplicate(uploadError)) throw new Error(uploadError.message);
+
+    const { error } = await client.from('evidence_chunks').insert({
+      session_id: chunk.sessionId,
+      seq: chunk.seq,
+      storage_path: chunk.storagePath,
+      sha256: chunk.sha256,
+      prev_hash: chunk.prevHash,
+      chain_hash: chunk.chainHash,
+      byte_size: chunk.byteSize,
+      recorded_at: chunk.recordedAt
+    });
+    if (error && !isDuplicate(error)) throw new Error(error.message);
+  }
+
+  private enqueue(task: UploadTask): void {
+    this.uploads.push(task);
+    this.drain();
+  }
+
+  /**
+   * Run the uploads one at a time and in order: a chunk needs its session row, and the session
+   * cannot take chunks once it has ended
+   */
+  private async drain(): Promise<void> {
+    if (this.uploading) return;
+    this.uploading = true;
+
+    try {
+      let attempts = 0;
+      while (this.uploads.length > 0) {
+        try {
+          await this.uploads[0]();
+          this.uploads.shift();
+          attempts = 0;
+        } catch (error) {
+          attempts += 1;
+          if (attempts > RETRY_DELAYS_MS.length) {
+            console.error('Giving up on evidence upload:', error);
+            this.uploads.shift();
+            attempts = 0;
+          } else {
+            console.error('Error uploading evidence, will retry:', error);
+            await wait(RETRY_DELAYS_MS[attempts - 1]);
+          }
+        }
+      }
+    } finally {
+      this.uploading = false;
+    }
+  }
+
+  private async client() {
+    const client = getSupabaseClient();
+    if (!client) {
+      throw new Error('Evidence recording is not available: Supabase is not configured');
+    }
+    // The RLS policies only let the signed-in owner write and read their recordings
+    await authService.ensureSession();
+    return client;
+  }
+}
+
+export const evidenceService = new EvidenceService();
@@ -0,0 +1,378 @@
+import {
+  AlertHistoryDetail,
+  AlertHistoryEntry,
+  AlertTimelineEvent,
+  AckResponse,
+  ContactAcknowledgement,
+  ContactDeliveryOutcome,
+  EvidenceRecording,
+  IncidentStatus,
+  NotificationChannelType,
+  SmsDeliveryRecord,
+  SmsDeliveryStatus
+} from '../types';
+import { authService } from './authService';
+import { DURESS_TRIGGER_SOURCES } from './duressService';
+import { getSupabaseClient } from './supabaseClient';
+
+const HISTORY_PAGE_SIZE = 100;
+// Must match the "Users can delete own alerts" policy
+const ACTIVE_DELETE_LOCK_MS = 24 * 60 * 60 * 1000;
+
+// The encryption key is only read when a recording is downloaded
+const EVIDENCE_COLUMNS = 'id, alert_id, mime_type, started_at, ended_at, chunk_count, head_hash';
+
+const DELIVERY_COLUMNS = 'message_sid, contact_name, phone_number, status, error_code, updated_at';
+
+const ACK_COLUMNS = 'contact_name, phone_number, response, via, acknowledged_at';
+
+const ALERT_COLUMNS = 'id, latitude, longitude, message, contacts_notified, alert_data, trigger_source, status, acknowledged_at, resolved_at, resolution_reason, created_at';
+
+interface AlertRow {
+  id: string;
+  latitude: number | string | null;
+  longitude: number | string | null;
+  message: string;
+  contacts_notified: number | null;
+  alert_data: unknown;
+  trigger_source: AlertHistoryEntry['triggerSource'];
+  status: IncidentStatus;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  resolution_reason: string | null;
+  created_at: string;
+}
+
+interface EventRow {
+  id: string;
+  event_type: string;
+  detail: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// One contact's result as the alert functions store it in `alert_data`
+interface StoredResult {
+  contact: string;
+  phone?: string;
+  status?: string;
+  channel?: NotificationChannelType;
+  messageId?: string;
+  error?: string;
+}
+
+interface DeliveryRow {
+  message_sid: string;
+  contact_name: string | null;
+  phone_number: string | null;
+  status: SmsDeliveryStatus;
+  error_code: string | null;
+  updated_at: string;
+}
+
+interface AckRow {
+  contact_name: string;
+  phone_number: string;
+  response: AckResponse;
+  via: ContactAcknowledgement['via'];
+  acknowledged_at: string;
+}
+
+interface EvidenceRow {
+  id: string;
+  alert_id: string | null;
+  mime_type: string;
+  started_at: string;
+  ended_at: string | null;
+  chunk_count: number | null;
+  head_hash: string | null;
+}
+
+const ACK_LABELS: Record<AckResponse, string> = {
+  ok: 'has seen the alert',
+  on_my_way: 'is on their way',
+  calling: 'is calling'
+};
+
+const ESCALATION_LABELS: Record<string, string> = {
+  escalation_resend: 'Nobody had answered, so the alert was sent again',
+  escalation_secondary_contacts: 'Secondary contacts were alerted',
+  escalation_voice_calls: 'Automated voice calls were placed',
+  escalation_null: 'Escalation ladder finished'
+};
+
+const isStoredResult = (entry: unknown): entry is StoredResult =>
+  typeof entry === 'object' && entry !== null && typeof (entry as StoredResult).contact === 'string';
+
+/**
+ * Per-contact results from `alert_data`. SOS alerts spread them into an object next to their
+ * priority flags, other alerts store the array, so both shapes are read (as the server does).
+ */
+const toOutcomes = (alertData: unknown): ContactDeliveryOutcome[] => {
+  const entries = Array.isArray(alertData)
+    ? alertData
+    : Object.values((alertData ?? {}) as Record<string, unknown>);
+
+  return entries
+    .filter(isStoredResult)
+    .map(result => ({
+      contactName: result.contact,
+      phoneNumber: result.phone ?? '',
+      status: result.status === 'sent' ? 'sent' : 'failed',
+      channel: result.channel ?? 'sms',
+      messageId: result.messageId,
+      error: result.error
+    }));
+};
+
+const toEntry = (row: AlertRow): AlertHistoryEntry => {
+  const latitude = row.latitude === null ? NaN : Number(row.latitude);
+  const longitude = row.longitude === null ? NaN : Number(row.longitude);
+  const alertData = row.alert_data as { alert_type?: string } | null;
+
+  return {
+    id: row.id,
+    alertType: !Array.isArray(alertData) && alertData?.alert_type === 'SOS_PANIC' ? 'SOS_PANIC' : 'AURA_THREAT',
+    triggerSource: row.trigger_source,
+    createdAt: row.created_at,
+    location: Number.isFinite(latitude) && Number.isFinite(longitude) && (latitude !== 0 || longitude !== 0)
+      ? { latitude, longitude }
+      : null,
+    message: row.message,
+    contactsNotified: row.contacts_notified ?? 0,
+    outcomes: toOutcomes(row.alert_data),
+    incident: {
+      status: row.status,
+      acknowledgedAt: row.acknowledged_at,
+      resolvedAt: row.resolved_at,
+      resolutionReason: row.resolution_reason
+    }
+  };
+};
+
+const sentCount = (results: unknown): string => {
+  const list = Array.isArray(results) ? results : [];
+  return `${list.filter(result => isStoredResult(result) && result.status === 'sent').length}/${list.length} reached`;
+};
+
+// Event details are free-form JSON written by the functions; only read fields of the right type
+const detailText = (detail: Record<string, unknown>, key: string): string | null =>
+  typeof detail[key] === 'string' ? detail[key] : null;
+
+const describeEvent = (event: EventRow): string => {
+  const detail = event.detail ?? {};
+  if (event.event_type === 'acknowledged') {
+    const response = ACK_LABELS[detailText(detail, 'response') as AckResponse] ?? 'answered';
+    const via = detailText(detail, 'via');
+    return `${detailText(detail, 'contact') ?? 'A contact'} ${response}${via === 'sms' ? ' (SMS reply)' : ''}`;
+  }
+  if (event.event_type === 'duplicate_trigger') {
+    return `Triggered again (${detailText(detail, 'triggerSource') ?? 'unknown source'}); contacts were not messaged again`;
+  }
+  if (event.event_type.startsWith('escalation_')) {
+    const label = ESCALATION_LABELS[event.event_type] ?? `Escalation: ${event.event_type.slice('escalation_'.length)}`;
+    return Array.isArray(detail.results) && detail.results.length > 0 ? `${label} (${sentCount(detail.results)})` : label;
+  }
+  return event.event_type.replace(/_/g, ' ');
+};
+
+const buildTimeline = (
+  entry: AlertHistoryEntry,
+  events: EventRow[],
+  deliveries: SmsDeliveryRecord[]
+): AlertTimelineEvent[] => {
+  const timeline: AlertTimelineEvent[] = [{
+    id: `${entry.id}:created`,
+    type: 'created',
+    label: `${entry.alertType === 'SOS_PANIC' ? 'SOS alert' : 'Alert'} sent to ${entry.contactsNotified}/${entry.outcomes.length} contacts`,
+    timestamp: entry.createdAt
+  }];
+
+  events.forEach(event => timeline.push({
+    id: event.id,
+    type: event.event_type,
+    label: describeEvent(event),
+    timestamp: event.created_at
+  }));
+
+  // Final receipts only; the intermediate ones add nothing
+  deliveries
+    .filter(delivery => delivery.status === 'delivered' || delivery.status === 'undelivered' || delivery.status === 'failed')
+    .forEach(delivery => timeline.push({
+      id: delivery.messageSid,
+      type: delivery.status === 'delivered' ? 'delivered' : 'undelivered',
+      label: `SMS to ${delivery.contactName ?? delivery.phoneNumber ?? 'a contact'} ${delivery.status === 'delivered' ? 'delivered' : 'not delivered'}`,
+      timestamp: delivery.updatedAt
+    }));
+
+  if (entry.incident.resolvedAt) {
+    const reason = entry.incident.resolutionReason ? `: ${entry.incident.resolutionReason}` : '';
+    timeline.push({
+      id: `${entry.id}:closed`,
+      type: entry.incident.status,
+      label: (entry.incident.status === 'cancelled' ? 'Cancelled as a false alarm' : 'All-clear sent') + reason,
+      timestamp: entry.incident.resolvedAt
+    });
+  }
+
+  return timeline.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+/**
+ * Quote a CSV field; values that a spreadsheet would run as a formula are prefixed with '
+ */
+const csvField = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  'id', 'created_at', 'alert_type', 'trigger_source', 'status', 'latitude', 'longitude',
+  'contacts_notified', 'total_contacts', 'contact_results', 'acknowledged_at', 'resolved_at', 'resolution_reason'
+];
+
+/**
+ * Past alerts from `emergency_alerts`, read and deleted directly under the user's own RLS
+ * policies rather than through an edge function
+ */
+class HistoryService {
+  async list(): Promise<AlertHistoryEntry[]> {
+    const client = await this.client();
+    const { data, error } = await client
+      .from('emergency_alerts')
+      .select(ALERT_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE);
+
+    if (error) throw new Error(error.message);
+    // Whoever made the user send a duress code may well look through their history
+    return ((data ?? []) as AlertRow[])
+      .filter(row => !row.trigger_source || !DURESS_TRIGGER_SOURCES.includes(row.trigger_source))
+      .map(toEntry);
+  }
+
+  /**
+   * One alert with its timeline: escalations, acknowledgements, delivery receipts, the all-clear
+   * and any evidence recorded during it
+   */
+  async getDetail(alertId: string): Promise<AlertHistoryDetail> {
+    const client = await this.client();
+    const [alert, events, deliveries, acknowledgements, evidence] = await Promise.all([
+      client.from('emergency_alerts').select(ALERT_COLUMNS).eq('id', alertId).maybeSingle(),
+      client.from('incident_events').select('id, event_type, detail, created_at').eq('alert_id', alertId),
+      client.from('sms_deliveries').select(DELIVERY_COLUMNS).eq('alert_id', alertId),
+      client.from('contact_acknowledgements').select(ACK_COLUMNS).eq('alert_id', alertId),
+      client.from('evidence_sessions').select(EVIDENCE_COLUMNS).eq('alert_id', alertId).order('started_at', { ascending: true })
+    ]);
+
+    const failed = [alert, events, deliveries, acknowledgements, evidence].find(result => result.error);
+    if (failed?.error) throw new Error(failed.error.message);
+    if (!alert.data) throw new Error('Alert not found');
+
+    const entry = toEntry(alert.data as AlertRow);
+    const deliveryRecords: SmsDeliveryRecord[] = ((deliveries.data ?? []) as DeliveryRow[]).map(row => ({
+      messageSid: row.message_sid,
+      contactName: row.contact_name,
+      phoneNumber: row.phone_number,
+      status: row.status,
+      errorCode: row.error_code,
+      updatedAt: row.updated_at
+    }));
+    const acks: ContactAcknowledgement[] = ((acknowledgements.data ?? []) as AckRow[]).map(row => ({
+      contactName: row.contact_name,
+      phoneNumber: row.phone_number,
+      response: row.response,
+      via: row.via,
+      acknowledgedAt: row.acknowledged_at
+    }));
+    const recordings: EvidenceRecording[] = ((evidence.data ?? []) as EvidenceRow[]).map(row => ({
+      sessionId: row.id,
+      alertId: row.alert_id,
+      mimeType: row.mime_type,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      chunkCount: row.chunk_count,
+      headHash: row.head_hash
+    }));
+
+    return {
+      ...entry,
+      timeline: buildTimeline(entry, (events.data ?? []) as EventRow[], deliveryRecords),
+      deliveries: deliveryRecords,
+      acknowledgements: acks,
+      evidence: recordings
+    };
+  }
+
+  /**
+   * An incident still under way keeps its record, so the escalation ladder and the contacts'
+   * ack links keep working
+   */
+  canDelete(entry: AlertHistoryEntry, now: number = Date.now()): boolean {
+    const active = entry.incident.status === 'open' || entry.incident.status === 'acknowledged';
+    return !active || now - new Date(entry.createdAt).getTime() > ACTIVE_DELETE_LOCK_MS;
+  }
+
+  /**
+   * Delete alerts; their events, delivery receipts and acknowledgements go with them
+   */
+  async remove(alertIds: string[]): Promise<void> {
+    if (alertIds.length === 0) return;
+    const client = await this.client();
+    const { error } = await client
+      .from('emergency_alerts')
+      .delete()
+      .in('id', alertIds);
+
+    if (error) throw new Error(error.message);
+  }
+
+  toJson(entries: (AlertHistoryEntry | AlertHistoryDetail)[]): string {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), alerts: entries }, null, 2);
+  }
+
+  toCsv(entries: AlertHistoryEntry[]): string {
+    const rows = entries.map(entry => [
+      entry.id,
+      entry.createdAt,
+      entry.alertType,
+      entry.triggerSource,
+      entry.incident.status,
+      entry.location?.latitude,
+      entry.location?.longitude,
+      entry.contactsNotified,
+      entry.outcomes.length,
+      entry.outcomes.map(outcome => `${outcome.contactName} (${outcome.channel ?? 'sms'}): ${outcome.status}`).join('; '),
+      entry.incident.acknowledgedAt,
+      entry.incident.resolvedAt,
+      entry.incident.resolutionReason
+    ].map(csvField).join(','));
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+  }
+
+  /**
+   * Save an export through the browser's download prompt
+   */
+  download(contents: string, format: 'json' | 'csv'): void {
+    const blob = new Blob([contents], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aura-alert-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  private async client() {
+    const client = getSupabaseClient();
+    if (!client) {
+      throw new Error('Alert history is not available: Supabase is not configured');
+    }
+    // The RLS policies only show alerts to the signed-in owner
+    await authService.ensureSession();
+    return client;
+  }
+}
+
+export const historyService = new HistoryService();
@@ -0,0 +1,57 @@
+/**
+ * Minimal promise wrapper around IndexedDB for single-store databases
+ */
+export class KeyValueStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName: string,
+    private storeName: string,
+    private keyPath: string,
+    private version: number = 1
+  ) {}
+
+  get<T>(key: IDBValidKey): Promise<T | undefined> {
+    return this.request('readonly', store => store.get(key));
+  }
+
+  getAll<T>(): Promise<T[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  async put<T>(value: T): Promise<void> {
+    await this.request('readwrite', store => store.put(value));
+  }
+
+  async delete(key: IDBValidKey): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, this.version);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: this.keyPath });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Matches a spoken phrase inside a speech-recognition transcript.
+ *
+ * The phrase's words are aligned, in order, with a contiguous run of transcript words. Each pair
+ * is scored by spelling and by sound (a per-language phonetic code), so "help aura" still matches
+ * "helpaura" or "help or a", while a transcript that only contains one of the words does not.
+ */
+
+export interface PhraseMatchOptions {
+  language?: string;
+  minTokenScore?: number; // every phrase word must reach this, or the phrase is not matched
+}
+
+export interface PhraseMatchResult {
+  confidence: number; // 0-1, mean score of the aligned words
+  span: string; // the transcript words the phrase was aligned with
+}
+
+type PhoneticEncoder = (word: string) => string;
+
+const DEFAULT_MIN_TOKEN_SCORE = 0.7;
+
+// Scripts written without spaces are matched character by character
+const UNSPACED_SCRIPT = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])/gu;
+
+export const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(UNSPACED_SCRIPT, ' $1 ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const tokenize = (text: string): string[] => {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(' ') : [];
+};
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,       // deletion
+        current[j - 1] + 1,    // insertion
+        previous[j - 1] + cost // substitution
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  1 - levenshteinDistance(a, b) / Math.max(a.length, b.length, 1);
+
+/**
+ * Apply rewrite rules in order, then fold vowels to one symbol and collapse repeats
+ */
+const encodeWith = (rules: [RegExp, string][]) => (word: string): string => {
+  let code = word;
+  for (const [pattern, replacement] of rules) {
+    code = code.replace(pattern, replacement);
+  }
+  return code
+    .replace(/[aeiouy]+/g, 'a')
+    .replace(/(.)\1+/g, '$1');
+};
+
+// Rules see lowercase ASCII (accents are stripped by normalizeText); uppercase marks a sound
+// that is already final, so later rules leave it alone
+const PHONETIC_ENCODERS: Record<string, PhoneticEncoder> = {
+  en: encodeWith([
+    [/^kn/, 'n'], [/^wr/, 'r'], [/^wh/, 'w'], [/^ps/, 's'],
+    [/tch/g, 'X'], [/ch/g, 'X'], [/sh/g, 'X'], [/th/g, 'T'], [/ph/g, 'F'],
+    [/gh(?![aeiou])/g, ''], [/ck/g, 'K'], [/qu/g, 'KW'], [/x/g, 'KS'],
+    [/c(?=[eiy])/g, 'S'], [/c/g, 'K'], [/g(?=[eiy])/g, 'J'], [/dge/g, 'J'],
+    [/z/g, 'S'], [/q/g, 'K'], [/v/g, 'F'],
+    [/([^aeiou])h/g, '$1'], [/h$/, ''],
+    [/mb$/, 'M'], [/([aeiou])r(?![aeiou])/g, '$1R']
+  ]),
+  es: encodeWith([
+    [/ll/g, 'Y'], [/ch/g, 'X'], [/qu/g, 'K'], [/c(?=[ei])/g, 'S'], [/c/g, 'K'],
+    [/g(?=[ei])/g, 'J'], [/gu(?=[ei])/g, 'G'], [/j/g, 'J'], [/h/g, ''],
+    [/v/g, 'B'], [/z/g, 'S'], [/x/g, 'KS'], [/rr/g, 'R'], [/y$/, 'i']
+  ]),
+  fr: encodeWith([
+    [/eaux?$/, 'o'], [/eau/g, 'o'], [/au/g, 'o'], [/ou/g, 'U'], [/oi/g, 'WA'],
+    [/ph/g, 'F'], [/qu/g, 'K'], [/ch/g, 'X'], [/gn/g, 'NY'],
+    [/c(?=[eiy])/g, 'S'], [/c/g, 'K'], [/g(?=[eiy])/g, 'J'], [/h/g, ''],
+    [/(?:e?s|e?x|e?z|e?t|d|p|ent)$/, ''], [/e$/, ''], [/w/g, 'V']
+  ]),
+  de: encodeWith([
+    [/sch/g, 'X'], [/ch/g, 'X'], [/ph/g, 'F'], [/qu/g, 'KV'], [/ck/g, 'K'],
+    [/ei/g, 'ai'], [/ie/g, 'i'], [/eu|au/g, 'oi'], [/tz|z/g, 'TS'],
+    [/v/g, 'F'], [/w/g, 'V'], [/(?<=[aeiou])h/g, ''], [/d$/, 'T'], [/b$/, 'P'], [/g$/, 'K']
+  ])
+};
+
+/**
+ * Sound-alike code for a word; languages without rules compare spelling only
+ */
+export const phoneticCode = (word: string, language: string = 'en'): string => {
+  const encoder = PHONETIC_ENCODERS[language.split('-')[0]];
+  return encoder ? encoder(word).toLowerCase() : word;
+};
+
+/**
+ * How alike two words are, by spelling or by sound, whichever is closer
+ */
+export const tokenScore = (heard: string, expected: string, language: string = 'en'): number => {
+  if (heard === expected) return 1;
+  const spelling = similarity(heard, expected);
+  const sound = similarity(phoneticCode(heard, language), phoneticCode(expected, language));
+  // Identical codes are strong evidence, but never as strong as identical spelling
+  return Math.max(spelling, sound === 1 ? 0.9 : sound * 0.9);
+};
+
+/**
+ * Best alignment of the phrase's words with a contiguous run of transcript words. A phrase word
+ * may match one transcript word, two phrase words may have been run together into one
+ * ("helpaura"), or one phrase word may have been split in two ("or a"). Null when some phrase
+ * word has no counterpart scoring at least `minTokenScore`.
+ */
+export const matchPhrase = (
+  transcript: string,
+  phrase: string,
+  { language = 'en', minTokenScore = DEFAULT_MIN_TOKEN_SCORE }: PhraseMatchOptions = {}
+): PhraseMatchResult | null => {
+  const heard = tokenize(transcript);
+  const expected = tokenize(phrase);
+  if (heard.length === 0 || expected.length === 0) return null;
+
+  const score = (a: string, b: string): number => {
+    const value = tokenScore(a, b, language);
+    return value >= minTokenScore ? value : -Infinity;
+  };
+
+  // best[w][t]: highest total score aligning the first w phrase words so they end at transcript word t
+  const best: number[][] = [];
+  const start: number[][] = [];
+  for (let w = 0; w <= expected.length; w++) {
+    best.push(new Array(heard.length + 1).fill(w === 0 ? 0 : -Infinity));
+    start.push(Array.from({ length: heard.length + 1 }, (_, t) => t));
+  }
+
+  for (let w = 1; w <= expected.length; w++) {
+    for (let t = 1; t <= heard.length; t++) {
+      const candidates: [number, number][] = [
+        [best[w - 1][t - 1] + score(heard[t - 1], expected[w - 1]), start[w - 1][t - 1]]
+      ];
+      if (w >= 2) {
+        const merged = score(heard[t - 1], expected[w - 2] + expected[w - 1]);
+        candidates.push([best[w - 2][t - 1] + 2 * merged, start[w - 2][t - 1]]);
+      }
+      if (t >= 2) {
+        candidates.push([best[w - 1][t - 2] + score(heard[t - 2] + heard[t - 1], expected[w - 1]), start[w - 1][t - 2]]);
+      }
+
+      for (const [total, from] of candidates) {
+        if (total > best[w][t]) {
+          best[w][t] = total;
+          start[w][t] = from;
+        }
+      }
+    }
+  }
+
+  let bestEnd = -1;
+  for (let t = 1; t <= heard.length; t++) {
+    if (best[expected.length][t] > (bestEnd < 0 ? -Infinity : best[expected.length][bestEnd])) {
+      bestEnd = t;
+    }
+  }
+  if (bestEnd < 0 || best[expected.length][bestEnd] === -Infinity) return null;
+
+  return {
+    confidence: best[expected.length][bestEnd] / expected.length,
+    span: heard.slice(start[expected.length][bestEnd], bestEnd).join(' ')
+  };
+};
+
+export interface CorpusEntry {
+  transcript: string;
+  language: string;
+  phrase: string; // the wake phrase being listened for
+  trigger: boolean; // true when the speaker meant to say the phrase
+}
+
+export interface MatcherEvaluation {
+  falseAcceptRate: number; // everyday speech that would have fired
+  falseRejectRate: number; // real triggers that would have been missed
+  falseAccepts: CorpusEntry[];
+  falseRejects: CorpusEntry[];
+}
+
+/**
+ * Run the matcher over a labelled corpus at a given confidence threshold
+ */
+export const evaluateMatcher = (
+  corpus: CorpusEntry[],
+  threshold: number,
+  options: Omit<PhraseMatchOptions, 'language'> = {}
+): MatcherEvaluation => {
+  const falseAccepts: CorpusEntry[] = [];
+  const falseRejects: CorpusEntry[] = [];
+
+  for (const entry of corpus) {
+    const match = matchPhrase(entry.transcript, entry.phrase, { ...options, language: entry.language });
+    const accepted = match !== null && match.confidence >= threshold;
+    if (accepted && !entry.trigger) falseAccepts.push(entry);
+    if (!accepted && entry.trigger) falseRejects.push(entry);
+  }
+
+  const negatives = corpus.filter(entry => !entry.trigger).length;
+  const positives = corpus.length - negatives;
+  return {
+    falseAcceptRate: negatives ? falseAccepts.length / negatives : 0,
+    falseRejectRate: positives ? falseRejects.length / positives : 0,
+    falseAccepts,
+    falseRejects
+  };
+};
@@ -0,0 +1,97 @@
+import { CorpusEntry } from './phraseMatcher';
+
+/**
+ * Labelled transcripts for measuring the wake-phrase matcher with `evaluateMatcher`.
+ *
+ * Triggers are the phrase as speech recognition actually returns it: run together, split,
+ * misheard or wrapped in other words. Everyday speech leans on the near misses ("aurora",
+ * "help me", "hello Laura") that a loose matcher would fire on.
+ */
+
+const triggers = (phrase: string, language: string, transcripts: string[]): CorpusEntry[] =>
+  transcripts.map(transcript => ({ transcript, language, phrase, trigger: true }));
+
+const everyday = (phrase: string, language: string, transcripts: string[]): CorpusEntry[] =>
+  transcripts.map(transcript => ({ transcript, language, phrase, trigger: false }));
+
+export const PHRASE_MATCHER_CORPUS: CorpusEntry[] = [
+  ...triggers('help aura', 'en-US', [
+    'help aura',
+    'Help, Aura!',
+    'HELP AURA',
+    'helpaura',
+    'help or a',
+    'help ora',
+    'help aurah',
+    'help awra',
+    'please help aura please',
+    'somebody help aura now',
+    'hey help aura',
+    'stop it help aura',
+    'help aura help aura'
+  ]),
+  ...everyday('help aura', 'en-US', [
+    'the aurora borealis was beautiful last night',
+    'aurora is picking us up at six',
+    'have you met aurora yet',
+    'can you help me with this',
+    'i need help with my homework',
+    'help',
+    'aura',
+    'hello laura',
+    'hey laura how are you',
+    'help our team win',
+    'that was really helpful',
+    'she has a calm aura about her',
+    'the aura of the place was strange',
+    'help yourself to more food',
+    'we should order pizza',
+    'kelp and coral reefs',
+    'yelp reviews are useless',
+    'whatever you think is best',
+    'help a random person today',
+    'the help desk opens at nine',
+    'aurora help me move the couch',
+    'call laura for help'
+  ]),
+  ...triggers('ayuda aura', 'es-ES', [
+    'ayuda aura',
+    '¡Ayuda, Aura!',
+    'ayudaaura',
+    'ayuda aora',
+    'por favor ayuda aura'
+  ]),
+  ...everyday('ayuda aura', 'es-ES', [
+    'la aurora boreal es preciosa',
+    'necesito ayuda con los deberes',
+    'ayudame a mover la mesa',
+    'laura viene mañana',
+    'tiene un aura especial'
+  ]),
+  ...triggers('aide aura', 'fr-FR', [
+    'aide aura',
+    'Aide, Aura !',
+    'aide aurat',
+    "à l'aide aura"
+  ]),
+  ...everyday('aide aura', 'fr-FR', [
+    "l'aurore était magnifique",
+    "j'ai besoin d'aide pour demain",
+    'il aura faim ce soir',
+    'elle aura fini demain',
+    'aide moi à porter ça'
+  ]),
+  ...triggers('hilfe aura', 'de-DE', [
+    'hilfe aura',
+    'Hilfe, Aura!',
+    'hilfeaura',
+    'hilfe ora'
+  ]),
+  ...everyday('hilfe aura', 'de-DE', [
+    'die aurora war wunderschön',
+    'ich brauche hilfe beim umzug',
+    'laura kommt heute abend',
+    'danke für die hilfe',
+    'sie hat eine besondere aura'
+  ])
+];
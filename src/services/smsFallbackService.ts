@@ -0,0 +1,92 @@
+import { AlertDispatchResult, EmergencyContact, Location } from '../types';
+import { storageService } from './storageService';
+
+// Region (from the browser locale) -> local emergency number
+const EMERGENCY_NUMBERS: Record<string, string> = {
+  US: '911',
+  CA: '911',
+  MX: '911',
+  GB: '999',
+  IE: '112',
+  AU: '000',
+  NZ: '111',
+  IN: '112',
+  JP: '110',
+  KR: '112',
+  CN: '110',
+  SA: '911',
+  BR: '190',
+  ZA: '10111'
+};
+const DEFAULT_EMERGENCY_NUMBER = '112';
+
+class SmsFallbackService {
+  /**
+   * Same SOS text the send-sos-alert edge function sends
+   */
+  buildSOSMessage(userName: string, location: Location | null, time: Date = new Date(), trackingUrl?: string | null): string {
+    const name = userName || 'Aura User';
+    const locationLink = location && location.latitude && location.longitude
+      ? `https://www.google.com/maps?q=${location.latitude},${location.longitude}`
+      : 'Location unavailable';
+    const trackingLine = trackingUrl ? `\n\nFollow their live location: ${trackingUrl}` : '';
+
+    return `🚨 CRITICAL SOS ALERT from Aura 🚨\n\n${name} has triggered an emergency panic button and needs immediate help.\n\nTheir current location is: ${locationLink}${trackingLine}\n\nThis is a high-priority emergency alert. Please contact them immediately or call emergency services if you cannot reach them.\n\nTime: ${time.toLocaleString()}\n\n- Aura Personal Safety System`;
+  }
+
+  /**
+   * sms: URI addressed to every contact. iOS expects "&body=", everything else "?body=".
+   */
+  buildSmsUri(contacts: EmergencyContact[], body: string): string {
+    const recipients = contacts
+      .map(contact => contact.phoneNumber.replace(/[^\d+]/g, ''))
+      .filter(Boolean)
+      .join(',');
+    const separator = /iPad|iPhone|iPod/.test(navigator.userAgent) ? '&' : '?';
+    return `sms:${recipients}${separator}body=${encodeURIComponent(body)}`;
+  }
+
+  getEmergencyNumber(locale: string = navigator.language): string {
+    const region = locale.split('-')[1]?.toUpperCase();
+    return (region && EMERGENCY_NUMBERS[region]) || DEFAULT_EMERGENCY_NUMBER;
+  }
+
+  buildTelUri(number: string = this.getEmergencyNumber()): string {
+    return `tel:${number}`;
+  }
+
+  /**
+   * SMS intent for the current profile and contacts, or null when there is nobody to text
+   */
+  buildSOSIntent(location: Location | null, trackingUrl?: string | null): string | null {
+    const contacts = storageService.getEmergencyContacts();
+    if (contacts.length === 0) return null;
+
+    const profile = storageService.getUserProfile();
+    return this.buildSmsUri(contacts, this.buildSOSMessage(profile.name, location, new Date(), trackingUrl));
+  }
+
+  /**
+   * Open the phone's SMS composer with the SOS message prefilled
+   */
+  openSOSComposer(location: Location | null, trackingUrl?: string | null): boolean {
+    const uri = this.buildSOSIntent(location, trackingUrl);
+    if (!uri) return false;
+
+    window.location.href = uri;
+    return true;
+  }
+
+  /**
+   * Whether the alert failed because the backend could not be used at all,
+   * as opposed to the backend deliberately rejecting it
+   */
+  isBackendUnreachable(result: AlertDispatchResult): boolean {
+    const cause = result.error?.cause;
+    return cause === 'network'
+      || cause === 'not_configured'
+      || (cause === 'rejected' && (result.error?.status ?? 0) >= 500);
+  }
+}
+
+export const smsFallbackService = new SmsFallbackService();
@@ -0,0 +1,50 @@
+import { SpeechSettings } from '../types';
+import { KeyValueStore } from './indexedDb';
+
+interface CachedClip {
+  key: string;
+  blob: Blob;
+  createdAt: string;
+}
+
+/**
+ * Synthesized clips stored in IndexedDB, so fixed phrases play instantly and offline
+ */
+class SpeechCache {
+  private store = new KeyValueStore('aura-speech-cache', 'clips', 'key');
+
+  /**
+   * Clips are only reusable for the exact backend, voice, model and rate that produced them
+   */
+  private async keyFor(text: string, settings: SpeechSettings): Promise<string> {
+    const source = [settings.provider, settings.voice, settings.model, settings.rate, text].join('|');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  async get(text: string, settings: SpeechSettings): Promise<Blob | null> {
+    try {
+      const clip = await this.store.get<CachedClip>(await this.keyFor(text, settings));
+      return clip?.blob ?? null;
+    } catch (error) {
+      console.error('Error reading speech cache:', error);
+      return null;
+    }
+  }
+
+  async put(text: string, settings: SpeechSettings, blob: Blob): Promise<void> {
+    try {
+      await this.store.put<CachedClip>({
+        key: await this.keyFor(text, settings),
+        blob,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error writing speech cache:', error);
+    }
+  }
+}
+
+export const speechCache = new SpeechCache();
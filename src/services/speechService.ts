@@ -0,0 +1,278 @@
+import { SpeechProviderId, SpeechSettings } from '../types';
+import { AI_PROXY_URL, aiProxyHeaders, isAIProxyConfigured } from './aiProxy';
+import { speechCache } from './speechCache';
+
+/**
+ * Voice and model each backend starts with when the user switches to it
+ */
+export const SPEECH_PROVIDER_DEFAULTS: Record<SpeechProviderId, Pick<SpeechSettings, 'voice' | 'model'>> = {
+  elevenlabs: { voice: '21m00Tcm4TlvDq8ikWAM', model: 'eleven_monolingual_v1' },
+  local: { voice: 'alloy', model: 'tts-1' },
+  browser: { voice: '', model: '' }
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  provider: 'elevenlabs',
+  ...SPEECH_PROVIDER_DEFAULTS.elevenlabs,
+  rate: 1.0,
+  localServerUrl: 'http://localhost:8880/v1'
+};
+
+export type SpeechSynthesisErrorCode = 'not_configured' | 'unsupported' | 'network' | 'provider';
+
+/**
+ * Raised when a backend could not turn text into speech
+ */
+export class SpeechSynthesisError extends Error {
+  readonly code: SpeechSynthesisErrorCode;
+  readonly provider: SpeechProviderId;
+  readonly cause?: unknown;
+
+  constructor(code: SpeechSynthesisErrorCode, provider: SpeechProviderId, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'SpeechSynthesisError';
+    this.code = code;
+    this.provider = provider;
+    this.cause = cause;
+  }
+}
+
+export interface SpeakOptions {
+  volume?: number;
+  pitch?: number; // Only honoured by the browser backend
+}
+
+export interface SpeechSynthesizer {
+  readonly id: SpeechProviderId;
+  // Backends that return audio can be pre-synthesized and cached
+  readonly producesAudio: boolean;
+  synthesize(text: string): Promise<Blob>;
+  speak(text: string, options?: SpeakOptions): Promise<void>;
+  stop(): void;
+}
+
+let currentAudio: HTMLAudioElement | null = null;
+
+/**
+ * Play synthesized audio through the device speakers, resolving when it ends
+ */
+export const playAudioBlob = async (blob: Blob, volume: number = 1.0): Promise<void> => {
+  const audioUrl = URL.createObjectURL(blob);
+  const audio = new Audio(audioUrl);
+  audio.volume = volume;
+  currentAudio = audio;
+
+  try {
+    await new Promise((resolve, reject) => {
+      audio.onended = resolve;
+      audio.onpause = resolve;
+      audio.onerror = reject;
+      audio.play().catch(reject);
+    });
+  } finally {
+    if (currentAudio === audio) currentAudio = null;
+    URL.revokeObjectURL(audioUrl);
+  }
+};
+
+export const stopAudioPlayback = (): void => {
+  currentAudio?.pause();
+  currentAudio = null;
+};
+
+abstract class AudioSpeechSynthesizer implements SpeechSynthesizer {
+  abstract readonly id: SpeechProviderId;
+  readonly producesAudio = true;
+
+  constructor(protected settings: SpeechSettings) {}
+
+  abstract synthesize(text: string): Promise<Blob>;
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    const blob = await this.synthesize(text);
+    await playAudioBlob(blob, options.volume);
+  }
+
+  stop(): void {
+    stopAudioPlayback();
+  }
+
+  protected async post(url: string, headers: Record<string, string>, body: unknown): Promise<Blob> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new SpeechSynthesisError('network', this.id, `Could not reach speech server at ${url}`, error);
+    }
+
+    if (!response.ok) {
+      throw new SpeechSynthesisError('provider', this.id, `Speech generation failed: ${response.status} ${response.statusText}`);
+    }
+
+    const blob = await response.blob();
+    if (blob.size === 0) {
+      throw new SpeechSynthesisError('provider', this.id, 'Speech server returned no audio');
+    }
+    return blob;
+  }
+}
+
+/**
+ * ElevenLabs hosted voices, reached through the ai-proxy edge function so the key stays server-side
+ */
+export class ElevenLabsSpeechSynthesizer extends AudioSpeechSynthesizer {
+  readonly id = 'elevenlabs' as const;
+
+  async synthesize(text: string): Promise<Blob> {
+    if (!isAIProxyConfigured()) {
+      throw new SpeechSynthesisError('not_configured', this.id, 'AI proxy is not configured');
+    }
+
+    return this.post(
+      `${AI_PROXY_URL}/text-to-speech/${encodeURIComponent(this.settings.voice)}`,
+      { 'Accept': 'audio/mpeg', ...(await aiProxyHeaders()) },
+      {
+        text,
+        model_id: this.settings.model,
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.5,
+          // ElevenLabs only accepts 0.7-1.2
+          speed: Math.min(1.2, Math.max(0.7, this.settings.rate))
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Self-hosted server implementing OpenAI's /audio/speech endpoint (Kokoro, Piper, openedai-speech...)
+ */
+export class LocalSpeechSynthesizer extends AudioSpeechSynthesizer {
+  readonly id = 'local' as const;
+
+  synthesize(text: string): Promise<Blob> {
+    return this.post(
+      `${this.settings.localServerUrl.replace(/\/$/, '')}/audio/speech`,
+      { 'Accept': 'audio/mpeg' },
+      {
+        model: this.settings.model,
+        input: text,
+        voice: this.settings.voice,
+        speed: this.settings.rate,
+        response_format: 'mp3'
+      }
+    );
+  }
+}
+
+/**
+ * The browser's built-in speechSynthesis. Works offline, but produces no audio to cache.
+ */
+export class BrowserSpeechSynthesizer implements SpeechSynthesizer {
+  readonly id = 'browser' as const;
+  readonly producesAudio = false;
+
+  constructor(private settings: SpeechSettings) {}
+
+  synthesize(): Promise<Blob> {
+    return Promise.reject(
+      new SpeechSynthesisError('unsupported', this.id, 'Browser speech synthesis cannot export audio')
+    );
+  }
+
+  speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!('speechSynthesis' in window)) {
+      return Promise.reject(new SpeechSynthesisError('unsupported', this.id, 'Speech synthesis is not supported in this browser'));
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = this.settings.rate;
+    utterance.pitch = options.pitch ?? 1.0;
+    utterance.volume = options.volume ?? 1.0;
+
+    const voice = speechSynthesis.getVoices().find(candidate => candidate.voiceURI === this.settings.voice);
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    return new Promise((resolve) => {
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      speechSynthesis.speak(utterance);
+    });
+  }
+
+  stop(): void {
+    if ('speechSynthesis' in window) {
+      speechSynthesis.cancel();
+    }
+  }
+}
+
+/**
+ * Build the backend selected in the user's profile
+ */
+export const createSpeechSynthesizer = (settings: SpeechSettings): SpeechSynthesizer => {
+  switch (settings.provider) {
+    case 'local':
+      return new LocalSpeechSynthesizer(settings);
+    case 'browser':
+      return new BrowserSpeechSynthesizer(settings);
+    case 'elevenlabs':
+    default:
+      return new ElevenLabsSpeechSynthesizer(settings);
+  }
+};
+
+let currentSynthesizer: SpeechSynthesizer | null = null;
+
+/**
+ * Speak through the configured backend, reusing cached clips when asked to, and fall back
+ * to the browser's built-in voice when the backend is unreachable
+ */
+export const speakText = async (
+  text: string,
+  settings: SpeechSettings,
+  options: SpeakOptions = {},
+  useCache: boolean = false
+): Promise<void> => {
+  const synthesizer = createSpeechSynthesizer(settings);
+  currentSynthesizer = synthesizer;
+
+  try {
+    if (useCache && synthesizer.producesAudio) {
+      let clip = await speechCache.get(text, settings);
+      if (!clip) {
+        clip = await synthesizer.synthesize(text);
+        await speechCache.put(text, settings, clip);
+      }
+      await playAudioBlob(clip, options.volume);
+    } else {
+      await synthesizer.speak(text, options);
+    }
+  } catch (error) {
+    if (synthesizer.id === 'browser') throw error;
+
+    console.warn(`${synthesizer.id} speech unavailable, using browser voice:`, error);
+    const fallback = new BrowserSpeechSynthesizer({ ...settings, provider: 'browser', voice: '' });
+    currentSynthesizer = fallback;
+    await fallback.speak(text, options);
+  }
+};
+
+/**
+ * Cut off whatever is being spoken, on any backend
+ */
+export const stopSpeaking = (): void => {
+  currentSynthesizer?.stop();
+  currentSynthesizer = null;
+  stopAudioPlayback();
+  if ('speechSynthesis' in window) {
+    speechSynthesis.cancel();
+  }
+};
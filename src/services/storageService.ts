@@ -1,17 +1,68 @@
-import { EmergencyContact, UserProfile } from '../types';
+import { EmergencyContact, EscalationPolicy, SafetyCodes, UserProfile } from '../types';
+import { DEFAULT_TRANSCRIPTION_SETTINGS } from './transcriptionService';
+import { DEFAULT_SPEECH_SETTINGS } from './speechService';
+import { DEFAULT_ESCALATION_SCRIPTS } from './escalationScripts';
+import { DEFAULT_WAKE_PHRASES } from './wakePhrases';
+import { normalizeText } from './phraseMatcher';
+
+// Mirrors the server default in _shared/escalation.ts
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  ackTimeoutMinutes: 5,
+  resendEnabled: true,
+  notifySecondary: true,
+  voiceCallsEnabled: true
+};
+
+export const DEFAULT_SOS_COUNTDOWN_SECONDS = 5;
 
 const STORAGE_KEYS = {
   USER_PROFILE: 'aura_user_profile',
   EMERGENCY_CONTACTS: 'aura_emergency_contacts',
-  USER_ID: 'aura_user_id'
+  USER_ID: 'aura_user_id',
+  DELETED_CONTACTS: 'aura_deleted_contacts',
+  SAFETY_CODES: 'aura_safety_codes'
 } as const;
 
+// PBKDF2-HMAC-SHA256 work factor for new codes (OWASP's 2023 recommendation)
+export const SAFETY_CODE_ITERATIONS = 600000;
+
+// The duress phrase is hashed once per run of words in every transcript heard during a countdown,
+// and has to be recognised before the countdown ends, so it gets a far lighter work factor. A
+// phrase of several words has many more candidates than a PIN to make up for it.
+export const DURESS_PHRASE_ITERATIONS = 1000;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * PBKDF2-SHA256 of a cancel or duress code with this install's salt. A PIN has few candidates,
+ * but each guess now costs `iterations` hashes instead of one.
+ */
+export const hashSafetyCode = async (salt: string, code: string, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(code), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+/**
+ * Whether two versions of a contact differ in anything but their timestamp
+ */
+const contactChanged = (before: EmergencyContact, after: EmergencyContact): boolean => {
+  const { updatedAt: _before, ...beforeFields } = before;
+  const { updatedAt: _after, ...afterFields } = after;
+  return JSON.stringify(beforeFields) !== JSON.stringify(afterFields);
+};
+
 class StorageService {
   /**
-   * Generate a unique user ID
+   * Generate a unique user ID. Replaced by the Supabase Auth user id once signed in.
    */
   generateUserId(): string {
-    return `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return crypto.randomUUID();
   }
 
   /**
@@ -27,10 +78,64 @@ class StorageService {
   }
 
   /**
-   * Save emergency contacts
+   * Adopt the signed-in account's user id
+   */
+  setUserId(userId: string): void {
+    localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
+    this.saveUserProfile({ id: userId });
+  }
+
+  /**
+   * Save emergency contacts. Edited and new contacts are timestamped and removed ones remembered,
+   * so the sync service can tell which side changed.
    */
   saveEmergencyContacts(contacts: EmergencyContact[]): void {
+    const now = new Date().toISOString();
+    const previous = this.getEmergencyContacts();
+    const stamped = contacts.map(contact => {
+      const before = previous.find(existing => existing.id === contact.id);
+      return !before || contactChanged(before, contact)
+        ? { ...contact, updatedAt: now }
+        : { ...contact, updatedAt: before.updatedAt };
+    });
+
+    const deleted = this.getDeletedContacts();
+    previous
+      .filter(existing => !contacts.some(contact => contact.id === existing.id))
+      .forEach(removed => { deleted[removed.id] = now; });
+
+    localStorage.setItem(STORAGE_KEYS.DELETED_CONTACTS, JSON.stringify(deleted));
+    this.writeContacts(stamped);
+  }
+
+  /**
+   * Replace the contacts as they are, e.g. after a sync; nothing is re-stamped
+   */
+  writeContacts(contacts: EmergencyContact[]): void {
     localStorage.setItem(STORAGE_KEYS.EMERGENCY_CONTACTS, JSON.stringify(contacts));
+    const stored = localStorage.getItem(STORAGE_KEYS.USER_PROFILE);
+    if (stored) {
+      try {
+        localStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify({ ...JSON.parse(stored), emergencyContacts: contacts }));
+      } catch (error) {
+        console.error('Error updating stored user profile:', error);
+      }
+    }
+  }
+
+  /**
+   * Contacts removed on this device since the last sync, with when they were removed
+   */
+  getDeletedContacts(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEYS.DELETED_CONTACTS) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  clearDeletedContacts(): void {
+    localStorage.removeItem(STORAGE_KEYS.DELETED_CONTACTS);
   }
 
   /**
@@ -47,6 +152,13 @@ class StorageService {
   saveUserProfile(profile: Partial<UserProfile>): void {
     const existing = this.getUserProfile();
     const updated = { ...existing, ...profile };
+    if (profile.name !== undefined && profile.name !== existing.name && !profile.updatedAt) {
+      updated.updatedAt = new Date().toISOString();
+    }
+    if (profile.emergencyContacts) {
+      // Keep the timestamps the contact list was saved with
+      updated.emergencyContacts = this.getEmergencyContacts();
+    }
     localStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify(updated));
   }
 
@@ -60,13 +172,25 @@ class StorageService {
       name: '',
       emergencyContacts: this.getEmergencyContacts(),
       voiceActivationEnabled: false,
-      voiceActivationLanguage: 'en-US'
+      voiceActivationLanguage: 'en-US',
+      transcription: DEFAULT_TRANSCRIPTION_SETTINGS,
+      speech: DEFAULT_SPEECH_SETTINGS,
+      escalationScripts: DEFAULT_ESCALATION_SCRIPTS,
+      escalationPolicy: DEFAULT_ESCALATION_POLICY,
+      wakePhrases: DEFAULT_WAKE_PHRASES,
+      sosCountdownSeconds: DEFAULT_SOS_COUNTDOWN_SECONDS
     };
     
     if (stored) {
       try {
         const parsedProfile = JSON.parse(stored);
-        return { ...defaultProfile, ...parsedProfile };
+        return {
+          ...defaultProfile,
+          ...parsedProfile,
+          transcription: { ...defaultProfile.transcription, ...parsedProfile.transcription },
+          speech: { ...defaultProfile.speech, ...parsedProfile.speech },
+          escalationPolicy: { ...defaultProfile.escalationPolicy, ...parsedProfile.escalationPolicy }
+        };
       } catch (error) {
         console.error('Error parsing stored user profile:', error);
         // Clear corrupted data and return default
@@ -78,6 +202,51 @@ class StorageService {
     return defaultProfile;
   }
 
+  /**
+   * Hashed cancel and duress codes, or null when none are set. Never synced. Codes stored as a
+   * single SHA-256 (no iteration count), or with a phrase hashed at the PIN work factor, are
+   * dropped, so settings asks for them again.
+   */
+  getSafetyCodes(): SafetyCodes | null {
+    const stored = localStorage.getItem(STORAGE_KEYS.SAFETY_CODES);
+    if (!stored) return null;
+
+    try {
+      const codes = JSON.parse(stored) as SafetyCodes;
+      if (!codes.iterations || (codes.duressPhraseHash && !codes.duressPhraseIterations)) {
+        this.clearSafetyCodes();
+        return null;
+      }
+      return codes;
+    } catch (error) {
+      console.error('Error parsing stored safety codes:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Hash and store the codes; only the hashes are kept
+   */
+  async saveSafetyCodes(codes: { cancelPin: string; duressPin?: string; duressPhrase?: string }): Promise<void> {
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    const iterations = SAFETY_CODE_ITERATIONS;
+    const phrase = codes.duressPhrase ? normalizeText(codes.duressPhrase) : '';
+    const safetyCodes: SafetyCodes = {
+      salt,
+      iterations,
+      cancelPinHash: await hashSafetyCode(salt, codes.cancelPin, iterations),
+      duressPinHash: codes.duressPin ? await hashSafetyCode(salt, codes.duressPin, iterations) : null,
+      duressPhraseHash: phrase ? await hashSafetyCode(salt, phrase, DURESS_PHRASE_ITERATIONS) : null,
+      duressPhraseIterations: DURESS_PHRASE_ITERATIONS,
+      duressPhraseWords: phrase ? phrase.split(' ').length : 0
+    };
+    localStorage.setItem(STORAGE_KEYS.SAFETY_CODES, JSON.stringify(safetyCodes));
+  }
+
+  clearSafetyCodes(): void {
+    localStorage.removeItem(STORAGE_KEYS.SAFETY_CODES);
+  }
+
   /**
    * Check if onboarding is complete
    */
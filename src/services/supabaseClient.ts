@@ -0,0 +1,24 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'your-supabase-url';
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-supabase-anon-key';
+
+let client: SupabaseClient | null = null;
+
+export const isSupabaseConfigured = (): boolean =>
+  SUPABASE_URL !== 'your-supabase-url' && SUPABASE_ANON_KEY !== 'your-supabase-anon-key';
+
+/**
+ * The app's one Supabase client (auth session, table sync and Realtime); null when Supabase is
+ * not configured
+ */
+export const getSupabaseClient = (): SupabaseClient | null => {
+  if (!isSupabaseConfigured()) return null;
+
+  if (!client) {
+    client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: true, autoRefreshToken: true, detectSessionInUrl: true }
+    });
+  }
+  return client;
+};
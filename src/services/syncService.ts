@@ -0,0 +1,313 @@
+import { AuthAccount, EmergencyContact, SyncState } from '../types';
+import { authService } from './authService';
+import { storageService } from './storageService';
+import { getSupabaseClient, isSupabaseConfigured } from './supabaseClient';
+
+const LAST_SYNCED_KEY = 'aura_last_synced_at';
+// Edits made in quick succession go up together
+const SYNC_DEBOUNCE_MS = 2000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type SyncListener = (state: SyncState) => void;
+
+interface ContactRow {
+  id: string;
+  name: string;
+  phone_number: string;
+  channel: EmergencyContact['channel'] | null;
+  email: string | null;
+  webhook_url: string | null;
+  priority: EmergencyContact['priority'] | null;
+  updated_at: string | null;
+  deleted_at: string | null;
+}
+
+const CONTACT_COLUMNS = 'id, name, phone_number, channel, email, webhook_url, priority, updated_at, deleted_at';
+
+const toContact = (row: ContactRow): EmergencyContact => ({
+  id: row.id,
+  name: row.name,
+  phoneNumber: row.phone_number,
+  channel: row.channel ?? 'sms',
+  ...(row.email && { email: row.email }),
+  ...(row.webhook_url && { webhookUrl: row.webhook_url }),
+  priority: row.priority ?? 'primary',
+  updatedAt: row.updated_at ?? undefined
+});
+
+const toRow = (contact: EmergencyContact, userId: string, deletedAt: string | null = null) => ({
+  id: contact.id,
+  user_id: userId,
+  name: contact.name,
+  phone_number: contact.phoneNumber,
+  channel: contact.channel ?? 'sms',
+  email: contact.email ?? null,
+  webhook_url: contact.webhookUrl ?? null,
+  priority: contact.priority ?? 'primary',
+  updated_at: deletedAt ?? contact.updatedAt ?? new Date().toISOString(),
+  deleted_at: deletedAt
+});
+
+const time = (timestamp: string | null | undefined): number => timestamp ? new Date(timestamp).getTime() : 0;
+
+const sameContact = (a: EmergencyContact, b: EmergencyContact): boolean =>
+  a.name === b.name
+  && a.phoneNumber === b.phoneNumber
+  && (a.channel ?? 'sms') === (b.channel ?? 'sms')
+  && (a.email ?? null) === (b.email ?? null)
+  && (a.webhookUrl ?? null) === (b.webhookUrl ?? null)
+  && (a.priority ?? 'primary') === (b.priority ?? 'primary');
+
+/**
+ * Keeps the profile and emergency contacts in localStorage and in Supabase
+ * (`user_profiles`, `emergency_contacts`) in step, so the alert functions find what the user
+ * entered. Conflicts are settled per record: the newer edit wins, deletions included.
+ */
+class SyncService {
+  private listeners = new Set<SyncListener>();
+  private remoteListeners = new Set<() => void>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private started = false;
+  private state: SyncState = {
+    status: isSupabaseConfigured() ? 'idle' : 'disabled',
+    account: null,
+    lastSyncedAt: localStorage.getItem(LAST_SYNCED_KEY),
+    conflictsResolved: 0,
+    error: null
+  };
+
+  /**
+   * Sign in (anonymously if needed), sync once and keep syncing on reconnect and account changes
+   */
+  start(): void {
+    if (this.started || !isSupabaseConfigured()) return;
+    this.started = true;
+
+    window.addEventListener('online', () => this.schedule(0));
+    authService.onChange(account => {
+      const switched = account?.userId !== this.state.account?.userId;
+      this.setState({ account });
+      if (account && switched) this.schedule(0);
+    });
+    this.schedule(0);
+  }
+
+  /**
+   * Sync soon; repeated calls collapse into one run
+   */
+  schedule(delayMs: number = SYNC_DEBOUNCE_MS): void {
+    if (!isSupabaseConfigured()) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.syncNow();
+    }, delayMs);
+  }
+
+  async syncNow(): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    // One run at a time; a request during a run gets a fresh run afterwards
+    if (this.running) {
+      await this.running;
+      return this.syncNow();
+    }
+
+    this.running = this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Sign out and forget this account's data on the device; the next sync starts a fresh
+   * anonymous account
+   */
+  async signOut(): Promise<void> {
+    await authService.signOut();
+    storageService.clearAllData();
+    localStorage.removeItem(LAST_SYNCED_KEY);
+    this.setState({ status: 'idle', account: null, lastSyncedAt: null, conflictsResolved: 0, error: null });
+    this.remoteListeners.forEach(listener => listener());
+  }
+
+  getState(): SyncState {
+    return this.state;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called after a sync changed the local profile or contacts, so the UI can reload them
+   */
+  onRemoteChange(listener: () => void): () => void {
+    this.remoteListeners.add(listener);
+    return () => {
+      this.remoteListeners.delete(listener);
+    };
+  }
+
+  private async run(): Promise<void> {
+    const client = getSupabaseClient();
+    if (!client) return;
+
+    if (!navigator.onLine) {
+      this.setState({ status: 'offline' });
+      return;
+    }
+
+    this.setState({ status: 'syncing', error: null });
+
+    try {
+      const account = await authService.ensureSession();
+      if (!account) return;
+      this.setState({ account });
+
+      const conflicts = await this.reconcile(account);
+      const lastSyncedAt = new Date().toISOString();
+      localStorage.setItem(LAST_SYNCED_KEY, lastSyncedAt);
+      this.setState({ status: 'synced', lastSyncedAt, conflictsResolved: conflicts });
+    } catch (error) {
+      console.error('Error syncing profile:', error);
+      this.setState({
+        status: navigator.onLine ? 'error' : 'offline',
+        error: error instanceof Error ? error.message : 'Sync failed'
+      });
+    }
+  }
+
+  /**
+   * Merge local and server records, push what the server is missing and store the result
+   * locally. Returns how many records had been edited on both sides.
+   */
+  private async reconcile(account: AuthAccount): Promise<number> {
+    const client = getSupabaseClient()!;
+    const userId = account.userId;
+    const lastSyncedAt = time(this.state.lastSyncedAt);
+    let conflicts = 0;
+    let localChanged = false;
+
+    // A different account (first sign-in, or another one signed in) takes over the local data
+    if (storageService.getUserId() !== userId) {
+      storageService.setUserId(userId);
+      localChanged = true;
+    }
+
+    const local = storageService.getUserProfile();
+
+    // Profile: only the name lives on the server
+    const { data: serverProfile, error: profileError } = await client
+      .from('user_profiles')
+      .select('id, name, updated_at')
+      .eq('id', userId)
+      .maybeSingle();
+    if (profileError) throw new Error(profileError.message);
+
+    const serverNameNewer = serverProfile && time(serverProfile.updated_at) > time(local.updatedAt);
+    if (serverProfile && serverProfile.name !== local.name
+      && time(serverProfile.updated_at) > lastSyncedAt && time(local.updatedAt) > lastSyncedAt) {
+      conflicts++;
+    }
+
+    if (serverProfile && serverNameNewer && (serverProfile.name ?? '') !== local.name) {
+      storageService.saveUserProfile({ name: serverProfile.name ?? '', updatedAt: serverProfile.updated_at });
+      localChanged = true;
+    } else if (!serverProfile || (serverProfile.name ?? '') !== local.name) {
+      const { error } = await client
+        .from('user_profiles')
+        .upsert({ id: userId, name: local.name });
+      if (error) throw new Error(error.message);
+    }
+
+    // Contacts, record by record
+    const { data: rows, error: contactsError } = await client
+      .from('emergency_contacts')
+      .select(CONTACT_COLUMNS)
+      .eq('user_id', userId);
+    if (contactsError) throw new Error(contactsError.message);
+
+    const serverRows = new Map(((rows ?? []) as ContactRow[]).map(row => [row.id, row]));
+    const deleted = storageService.getDeletedContacts();
+    const merged: EmergencyContact[] = [];
+    const upserts: ReturnType<typeof toRow>[] = [];
+
+    for (const original of local.emergencyContacts) {
+      // Contacts from before sync existed have ids the uuid column cannot hold
+      const contact = UUID_PATTERN.test(original.id) ? original : { ...original, id: crypto.randomUUID() };
+      if (contact !== original) localChanged = true;
+
+      const row = serverRows.get(contact.id);
+      serverRows.delete(contact.id);
+
+      if (!row) {
+        merged.push(contact);
+        upserts.push(toRow(contact, userId));
+        continue;
+      }
+
+      const server = toContact(row);
+      const serverTime = time(row.deleted_at ?? row.updated_at);
+      const localTime = time(contact.updatedAt);
+      const differs = row.deleted_at !== null || !sameContact(server, contact);
+
+      if (differs && serverTime > lastSyncedAt && localTime > lastSyncedAt) {
+        conflicts++;
+      }
+
+      if (!differs) {
+        merged.push(contact);
+      } else if (localTime >= serverTime) {
+        merged.push(contact);
+        upserts.push(toRow(contact, userId));
+      } else {
+        localChanged = true;
+        if (!row.deleted_at) merged.push(server);
+      }
+    }
+
+    // Server contacts this device does not have: added elsewhere, or removed here
+    for (const row of serverRows.values()) {
+      if (row.deleted_at) continue;
+
+      const removedAt = deleted[row.id];
+      if (removedAt && time(removedAt) >= time(row.updated_at)) {
+        upserts.push(toRow(toContact(row), userId, removedAt));
+        continue;
+      }
+
+      if (removedAt && time(row.updated_at) > lastSyncedAt) {
+        conflicts++;
+      }
+      merged.push(toContact(row));
+      localChanged = true;
+    }
+
+    if (upserts.length > 0) {
+      const { error } = await client
+        .from('emergency_contacts')
+        .upsert(upserts, { onConflict: 'id' });
+      if (error) throw new Error(error.message);
+    }
+
+    storageService.clearDeletedContacts();
+    if (localChanged) {
+      storageService.writeContacts(merged);
+      this.remoteListeners.forEach(listener => listener());
+    }
+
+    return conflicts;
+  }
+
+  private setState(updates: Partial<SyncState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export const syncService = new SyncService();
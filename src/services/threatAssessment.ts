@@ -0,0 +1,175 @@
+import { ThreatAssessment, ThreatLevel, ThreatSignal } from '../types';
+
+interface SignalDefinition {
+  phrase: string;
+  weight: number;
+}
+
+/**
+ * Weighted distress phrases. Longer phrases win over the single words they contain,
+ * so "no stop" is scored as one signal instead of a negated "stop".
+ */
+export const THREAT_SIGNALS: SignalDefinition[] = [
+  { phrase: 'call the police', weight: 0.7 },
+  { phrase: 'call police', weight: 0.7 },
+  { phrase: 'stop following me', weight: 0.7 },
+  { phrase: "don't touch me", weight: 0.7 },
+  { phrase: 'let go of me', weight: 0.7 },
+  { phrase: 'get away from me', weight: 0.6 },
+  { phrase: 'leave me alone', weight: 0.6 },
+  { phrase: 'help me', weight: 0.6 },
+  { phrase: 'following me', weight: 0.5 },
+  { phrase: 'no stop', weight: 0.5 },
+  { phrase: 'please stop', weight: 0.4 },
+  { phrase: 'go away', weight: 0.4 },
+  { phrase: 'threatening', weight: 0.4 },
+  { phrase: 'emergency', weight: 0.4 },
+  { phrase: 'danger', weight: 0.4 },
+  { phrase: 'unsafe', weight: 0.4 },
+  { phrase: 'help', weight: 0.3 },
+  { phrase: 'scared', weight: 0.3 },
+  { phrase: 'afraid', weight: 0.3 },
+  { phrase: 'uncomfortable', weight: 0.25 },
+  { phrase: 'stop', weight: 0.15 }
+];
+
+const NEGATORS = new Set([
+  'not', 'never', 'nothing', 'nobody', 'without',
+  'dont', 'cant', 'wont', 'isnt', 'arent', 'wasnt', 'werent', 'didnt', 'doesnt',
+  'couldnt', 'wouldnt', 'shouldnt', 'havent', 'hasnt', 'aint'
+]);
+const NEGATION_WINDOW = 3;
+// Evidence from earlier turns keeps this fraction of its weight per turn
+const TURN_DECAY = 0.5;
+
+const LEVEL_THRESHOLDS: [ThreatLevel, number][] = [
+  ['high', 0.7],
+  ['elevated', 0.45],
+  ['low', 0.2]
+];
+
+const CLAUSE_BREAK = '|';
+
+/**
+ * Lowercase words with apostrophes dropped (recognisers disagree on "don't" vs "dont");
+ * punctuation becomes a clause break so negation does not reach across sentences.
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/['’‘]/g, '')
+    .replace(/[.,!?;:]+/g, ` ${CLAUSE_BREAK} `)
+    .replace(/[^a-z0-9|\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+const isNegator = (token: string, distance: number): boolean =>
+  NEGATORS.has(token) || (token === 'no' && distance === 1);
+
+const combine = (weights: number[]): number =>
+  1 - weights.reduce((remaining, weight) => remaining * (1 - weight), 1);
+
+const toLevel = (score: number): ThreatLevel =>
+  LEVEL_THRESHOLDS.find(([, threshold]) => score >= threshold)?.[0] ?? 'none';
+
+/**
+ * Scores transcripts for signs of distress across the turns of one activation
+ */
+export class ThreatAssessor {
+  private signals: { tokens: string[]; weight: number }[];
+  private priorTurnScores: number[] = [];
+
+  constructor(signals: SignalDefinition[] = THREAT_SIGNALS) {
+    this.signals = signals
+      .map(signal => ({ tokens: tokenize(signal.phrase), weight: signal.weight }))
+      .sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+
+  /**
+   * Find signals in a single transcript without touching the turn history
+   */
+  matchSignals(text: string): ThreatSignal[] {
+    const tokens = tokenize(text);
+    const consumed = new Array(tokens.length).fill(false);
+    const matches: { index: number; signal: ThreatSignal }[] = [];
+
+    for (const signal of this.signals) {
+      const length = signal.tokens.length;
+      for (let i = 0; i + length <= tokens.length; i++) {
+        const overlaps = consumed.slice(i, i + length).some(Boolean);
+        const matchesHere = signal.tokens.every((token, offset) => tokens[i + offset] === token);
+        if (overlaps || !matchesHere) continue;
+
+        for (let j = i; j < i + length; j++) consumed[j] = true;
+        matches.push({
+          index: i,
+          signal: {
+            phrase: signal.tokens.join(' '),
+            weight: signal.weight,
+            negated: this.isNegated(tokens, i)
+          }
+        });
+      }
+    }
+
+    return matches.sort((a, b) => a.index - b.index).map(match => match.signal);
+  }
+
+  /**
+   * Assess a new turn, folding in decayed evidence from earlier turns
+   */
+  assess(text: string): ThreatAssessment {
+    const matchedSignals = this.matchSignals(text);
+    const active = matchedSignals.filter(signal => !signal.negated);
+    const turnScore = combine(active.map(signal => signal.weight));
+
+    const carried = this.priorTurnScores.map((score, index) =>
+      score * Math.pow(TURN_DECAY, this.priorTurnScores.length - index)
+    );
+    const carriedScore = combine(carried);
+    const score = Math.round(combine([turnScore, carriedScore]) * 100) / 100;
+
+    this.priorTurnScores.push(turnScore);
+
+    return {
+      level: toLevel(score),
+      score,
+      matchedSignals,
+      rationale: this.describe(matchedSignals, carriedScore)
+    };
+  }
+
+  /**
+   * Forget earlier turns, e.g. when Aura is deactivated
+   */
+  reset(): void {
+    this.priorTurnScores = [];
+  }
+
+  private isNegated(tokens: string[], start: number): boolean {
+    for (let distance = 1; distance <= NEGATION_WINDOW; distance++) {
+      const token = tokens[start - distance];
+      if (token === undefined || token === CLAUSE_BREAK) return false;
+      if (isNegator(token, distance)) return true;
+    }
+    return false;
+  }
+
+  private describe(signals: ThreatSignal[], carriedScore: number): string {
+    const parts: string[] = [];
+    const active = signals.filter(signal => !signal.negated);
+    const negated = signals.filter(signal => signal.negated);
+
+    if (active.length > 0) {
+      parts.push(`Matched ${active.map(signal => `"${signal.phrase}" (${signal.weight.toFixed(2)})`).join(', ')}`);
+    }
+    if (negated.length > 0) {
+      parts.push(`ignored negated ${negated.map(signal => `"${signal.phrase}"`).join(', ')}`);
+    }
+    if (carriedScore > 0) {
+      parts.push(`carried ${carriedScore.toFixed(2)} from earlier turns`);
+    }
+
+    return parts.length > 0 ? parts.join('; ') : 'No distress signals detected';
+  }
+}
@@ -0,0 +1,175 @@
+import { TrackingPoint, TrackingSession, TrackingSnapshot } from '../types';
+import { authService } from './authService';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'your-supabase-url';
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-supabase-anon-key';
+
+const ACTIVE_SESSION_KEY = 'aura_tracking_session';
+// Never hold an SOS back waiting for the tracking session
+const START_TIMEOUT_MS = 4000;
+const TRACKING_PATH = /^\/track\/([A-Za-z0-9_-]{20,})\/?$/;
+
+/**
+ * Raised when the server says a tracking session is over
+ */
+export class TrackingSessionExpiredError extends Error {
+  constructor(message: string = 'Tracking session has expired') {
+    super(message);
+    this.name = 'TrackingSessionExpiredError';
+  }
+}
+
+class TrackingService {
+  private endpoint = `${SUPABASE_URL}/functions/v1/location-tracking`;
+
+  private get headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`
+    };
+  }
+
+  /**
+   * Starting a session needs the signed-in user's token; the write key covers everything after
+   */
+  private async startHeaders(): Promise<Record<string, string>> {
+    const account = await authService.ensureSession().catch(() => null);
+    const accessToken = account ? await authService.getAccessToken() : null;
+    return accessToken ? { ...this.headers, 'Authorization': `Bearer ${accessToken}` } : this.headers;
+  }
+
+  isConfigured(): boolean {
+    return SUPABASE_URL !== 'your-supabase-url' && SUPABASE_ANON_KEY !== 'your-supabase-anon-key';
+  }
+
+  /**
+   * Open a tracking session; null when the backend is unavailable, so the alert goes out without it
+   */
+  async startSession(userId: string): Promise<TrackingSession | null> {
+    if (!this.isConfigured()) return null;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), START_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.endpoint}/start`, {
+        method: 'POST',
+        headers: await this.startHeaders(),
+        body: JSON.stringify({ userId }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        console.error('Tracking session rejected:', response.status);
+        return null;
+      }
+
+      const body = await response.json();
+      const session: TrackingSession = body.data;
+      localStorage.setItem(ACTIVE_SESSION_KEY, JSON.stringify(session));
+      return session;
+    } catch (error) {
+      console.error('Error starting tracking session:', error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Post buffered positions. Throws TrackingSessionExpiredError once the session is over.
+   */
+  async sendPoints(session: TrackingSession, points: TrackingPoint[]): Promise<void> {
+    const response = await fetch(`${this.endpoint}/update`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({ sessionId: session.sessionId, writeKey: session.writeKey, points })
+    });
+
+    if (response.status === 410 || response.status === 404) {
+      this.clearActiveSession();
+      throw new TrackingSessionExpiredError();
+    }
+
+    if (!response.ok) {
+      throw new Error(`Location update failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async endSession(session: TrackingSession): Promise<void> {
+    this.clearActiveSession();
+
+    try {
+      await fetch(`${this.endpoint}/end`, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify({ sessionId: session.sessionId, writeKey: session.writeKey })
+      });
+    } catch (error) {
+      console.error('Error ending tracking session:', error);
+    }
+  }
+
+  /**
+   * Session left running by an earlier page load, if it has not expired
+   */
+  getActiveSession(): TrackingSession | null {
+    const stored = localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (!stored) return null;
+
+    try {
+      const session: TrackingSession = JSON.parse(stored);
+      if (new Date(session.expiresAt).getTime() > Date.now()) {
+        return session;
+      }
+    } catch (error) {
+      console.error('Error parsing stored tracking session:', error);
+    }
+    this.clearActiveSession();
+    return null;
+  }
+
+  /**
+   * Remember whether the running session is hidden, so a reload keeps a duress all-clear looking real
+   */
+  setConcealed(session: TrackingSession, concealed: boolean): TrackingSession {
+    const updated = { ...session, concealed };
+    localStorage.setItem(ACTIVE_SESSION_KEY, JSON.stringify(updated));
+    return updated;
+  }
+
+  clearActiveSession(): void {
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+
+  /**
+   * What the contact's tracking page shows
+   */
+  async getSnapshot(token: string): Promise<TrackingSnapshot> {
+    const response = await fetch(`${this.endpoint}?token=${encodeURIComponent(token)}`, {
+      headers: this.headers
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (response.status === 410) {
+      throw new TrackingSessionExpiredError(body.message);
+    }
+    if (!response.ok) {
+      throw new Error(body.message || `Tracking lookup failed: ${response.status}`);
+    }
+    return body.data;
+  }
+
+  buildTrackingUrl(token: string): string {
+    return `${window.location.origin}/track/${token}`;
+  }
+
+  /**
+   * Token from a /track/:token URL, or null for any other page
+   */
+  tokenFromPath(pathname: string = window.location.pathname): string | null {
+    return pathname.match(TRACKING_PATH)?.[1] ?? null;
+  }
+}
+
+export const trackingService = new TrackingService();
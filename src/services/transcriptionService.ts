@@ -0,0 +1,173 @@
+import { TranscriptionProviderId, TranscriptionResult, TranscriptionSettings } from '../types';
+import { AI_PROXY_URL, aiProxyHeaders, isAIProxyConfigured } from './aiProxy';
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  provider: 'whisper',
+  model: 'whisper-1',
+  language: 'en',
+  localServerUrl: 'http://localhost:8080/v1'
+};
+
+export type TranscriptionErrorCode =
+  | 'not_configured'
+  | 'unsupported'
+  | 'network'
+  | 'provider'
+  | 'no_speech';
+
+/**
+ * Raised when a provider could not turn audio into text
+ */
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode;
+  readonly provider: TranscriptionProviderId;
+  readonly cause?: unknown;
+
+  constructor(code: TranscriptionErrorCode, provider: TranscriptionProviderId, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.code = code;
+    this.provider = provider;
+    this.cause = cause;
+  }
+}
+
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  transcribe(audioBlob: Blob, language: string): Promise<TranscriptionResult>;
+}
+
+/**
+ * Any server that implements OpenAI's /audio/transcriptions endpoint
+ */
+class OpenAICompatibleTranscriptionProvider implements TranscriptionProvider {
+  constructor(
+    readonly id: TranscriptionProviderId,
+    private baseUrl: string,
+    private model: string,
+    private headers: () => Promise<Record<string, string>> = async () => ({})
+  ) {}
+
+  async transcribe(audioBlob: Blob, language: string): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append('file', audioBlob, 'audio.webm');
+    formData.append('model', this.model);
+    if (language && language !== 'auto') {
+      formData.append('language', language);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: await this.headers(),
+        body: formData
+      });
+    } catch (error) {
+      throw new TranscriptionError('network', this.id, `Could not reach transcription server at ${this.baseUrl}`, error);
+    }
+
+    if (!response.ok) {
+      throw new TranscriptionError('provider', this.id, `Transcription failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return {
+      text: (result.text || '').trim(),
+      provider: this.id,
+      language: result.language || (language !== 'auto' ? language : undefined)
+    };
+  }
+}
+
+/**
+ * Hosted OpenAI Whisper, reached through the ai-proxy edge function so the key stays server-side
+ */
+export class WhisperTranscriptionProvider extends OpenAICompatibleTranscriptionProvider {
+  constructor(model: string) {
+    super('whisper', AI_PROXY_URL, model, aiProxyHeaders);
+  }
+
+  async transcribe(audioBlob: Blob, language: string): Promise<TranscriptionResult> {
+    if (!isAIProxyConfigured()) {
+      throw new TranscriptionError('not_configured', this.id, 'AI proxy is not configured');
+    }
+    return super.transcribe(audioBlob, language);
+  }
+}
+
+/**
+ * Self-hosted whisper.cpp / faster-whisper server exposing the OpenAI API, for offline use
+ */
+export class LocalTranscriptionProvider extends OpenAICompatibleTranscriptionProvider {
+  constructor(baseUrl: string, model: string) {
+    super('local', baseUrl, model);
+  }
+}
+
+/**
+ * Browser speech recognition. The Web Speech API cannot decode recorded audio,
+ * so this provider ignores the blob and listens to the microphone for the next utterance.
+ */
+export class WebSpeechTranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'web-speech' as const;
+
+  transcribe(_audioBlob: Blob, language: string): Promise<TranscriptionResult> {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+
+    if (!SpeechRecognition) {
+      return Promise.reject(
+        new TranscriptionError('unsupported', this.id, 'Speech recognition is not supported in this browser')
+      );
+    }
+
+    const lang = language && language !== 'auto' ? language : navigator.language;
+
+    return new Promise((resolve, reject) => {
+      const recognition = new SpeechRecognition();
+      recognition.continuous = false;
+      recognition.interimResults = false;
+      recognition.lang = lang;
+
+      let settled = false;
+
+      recognition.onresult = (event) => {
+        const text = Array.from(event.results)
+          .map(result => result[0].transcript)
+          .join(' ')
+          .trim();
+        settled = true;
+        resolve({ text, provider: this.id, language: lang });
+      };
+
+      recognition.onerror = (event) => {
+        settled = true;
+        const code = event.error === 'no-speech' ? 'no_speech' : 'provider';
+        reject(new TranscriptionError(code, this.id, `Speech recognition error: ${event.error}`));
+      };
+
+      recognition.onend = () => {
+        if (!settled) {
+          reject(new TranscriptionError('no_speech', this.id, 'No speech was recognized'));
+        }
+      };
+
+      recognition.start();
+    });
+  }
+}
+
+/**
+ * Build the provider selected in the user's profile
+ */
+export const createTranscriptionProvider = (settings: TranscriptionSettings): TranscriptionProvider => {
+  switch (settings.provider) {
+    case 'local':
+      return new LocalTranscriptionProvider(settings.localServerUrl, settings.model);
+    case 'web-speech':
+      return new WebSpeechTranscriptionProvider();
+    case 'whisper':
+    default:
+      return new WhisperTranscriptionProvider(settings.model);
+  }
+};
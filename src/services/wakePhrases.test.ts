@@ -0,0 +1,97 @@
+/*
+  # Wake Phrase and Cancel Word Tests
+
+  Run with `deno test --unstable-sloppy-imports src/services/`. The matcher is measured on
+  `PHRASE_MATCHER_CORPUS` at every sensitivity the wake phrase editor offers.
+*/
+
+import assert from 'node:assert/strict';
+import { evaluateMatcher } from './phraseMatcher';
+import { PHRASE_MATCHER_CORPUS } from './phraseMatcherCorpus';
+import {
+  DEFAULT_SENSITIVITY,
+  DEFAULT_WAKE_PHRASES,
+  SENSITIVITY_STEP,
+  matchCancelWord,
+  matchThreshold,
+  matchWakePhrase
+} from './wakePhrases';
+
+// Everyday speech must never fire; strict settings may miss the odd mangled trigger
+const MAX_FALSE_ACCEPT_RATE = 0;
+const MAX_FALSE_REJECT_RATE = 0.05;
+
+const sliderSteps = (): number[] =>
+  Array.from({ length: Math.round(1 / SENSITIVITY_STEP) + 1 }, (_, index) => Number((index * SENSITIVITY_STEP).toFixed(2)));
+
+const evaluateAt = (sensitivity: number) => {
+  const threshold = matchThreshold(sensitivity);
+  // Same per-word margin as matchWakePhrase
+  return evaluateMatcher(PHRASE_MATCHER_CORPUS, threshold, { minTokenScore: threshold - 0.1 });
+};
+
+Deno.test('every sensitivity step stays within the FAR and FRR limits', () => {
+  for (const sensitivity of sliderSteps()) {
+    const { falseAcceptRate, falseRejectRate, falseAccepts, falseRejects } = evaluateAt(sensitivity);
+
+    assert.ok(
+      falseAcceptRate <= MAX_FALSE_ACCEPT_RATE,
+      `FAR ${falseAcceptRate.toFixed(3)} at sensitivity ${sensitivity}: ${falseAccepts.map(entry => entry.transcript).join(', ')}`
+    );
+    assert.ok(
+      falseRejectRate <= MAX_FALSE_REJECT_RATE,
+      `FRR ${falseRejectRate.toFixed(3)} at sensitivity ${sensitivity}: ${falseRejects.map(entry => entry.transcript).join(', ')}`
+    );
+  }
+});
+
+Deno.test('the default sensitivity and everything looser miss no trigger', () => {
+  for (const sensitivity of sliderSteps().filter(step => step >= DEFAULT_SENSITIVITY)) {
+    assert.equal(evaluateAt(sensitivity).falseRejectRate, 0, `sensitivity ${sensitivity}`);
+  }
+});
+
+Deno.test('sensitivity only ever loosens the threshold', () => {
+  const thresholds = sliderSteps().map(matchThreshold);
+  for (let i = 1; i < thresholds.length; i++) {
+    assert.ok(thresholds[i] < thresholds[i - 1]);
+  }
+  assert.equal(matchThreshold(-1), matchThreshold(0));
+  assert.equal(matchThreshold(2), matchThreshold(1));
+});
+
+Deno.test('matchWakePhrase uses the phrase variants for the language', () => {
+  const match = matchWakePhrase('¡Ayuda, Aura!', DEFAULT_WAKE_PHRASES, 'es-ES');
+  assert.equal(match?.phraseId, 'help-aura');
+  assert.equal(match?.action, 'sos');
+
+  assert.equal(matchWakePhrase('hello laura', DEFAULT_WAKE_PHRASES, 'en-US'), null);
+  assert.equal(matchWakePhrase('help aura', DEFAULT_WAKE_PHRASES.map(phrase => ({ ...phrase, enabled: false })), 'en-US'), null);
+});
+
+Deno.test('matchCancelWord accepts the cancel word in a sentence', () => {
+  assert.equal(matchCancelWord('cancel', 'en-US'), true);
+  assert.equal(matchCancelWord('Cancel!', 'en-GB'), true);
+  assert.equal(matchCancelWord('okay cancel it', 'en-US'), true);
+  assert.equal(matchCancelWord('cancelar', 'es-ES'), true);
+  assert.equal(matchCancelWord('abbrechen bitte', 'de-DE'), true);
+});
+
+Deno.test('matchCancelWord rejects sound-alikes and negated requests', () => {
+  const rejected: Array<[string, string]> = [
+    ['counsel', 'en-US'],
+    ["don't cancel", 'en-US'],
+    ['do not cancel', 'en-US'],
+    ['no cancel this is real', 'en-US'],
+    ['never cancel', 'en-US'],
+    ["won't cancel", 'en-US'],
+    ['no cancelar', 'es-ES'],
+    ['ne pas annuler', 'fr-FR'],
+    ['nicht abbrechen', 'de-DE'],
+    ['不要取消', 'zh-CN']
+  ];
+
+  for (const [transcript, language] of rejected) {
+    assert.equal(matchCancelWord(transcript, language), false, transcript);
+  }
+});
@@ -0,0 +1,135 @@
+import { WakePhrase, WakePhraseAction, WakePhraseMatch } from '../types';
+import { matchPhrase, normalizeText, tokenize } from './phraseMatcher';
+
+export const DEFAULT_SENSITIVITY = 0.5;
+export const DEFAULT_TIMER_MINUTES = 15;
+
+// Steps the sensitivity slider offers, from 0 to 1
+export const SENSITIVITY_STEP = 0.05;
+
+// Similarity needed at sensitivity 0 and 1; everything in between is interpolated. Below 0.74
+// everyday speech in the evaluation corpus ("hello Laura") starts firing, so the loosest setting
+// stops there (wakePhrases.test.ts holds every step to its FAR/FRR limits)
+const STRICTEST_THRESHOLD = 0.95;
+const LOOSEST_THRESHOLD = 0.74;
+// How far a single word may fall below the phrase threshold and still be aligned
+const TOKEN_SCORE_MARGIN = 0.1;
+
+export const WAKE_PHRASE_ACTIONS: Record<WakePhraseAction, string> = {
+  sos: 'Full SOS alert',
+  silent_alert: 'Silent location alert',
+  fake_call: 'Start a fake call',
+  safety_timer: 'Start a safety timer'
+};
+
+export const createWakePhrase = (
+  phrase: string = '',
+  action: WakePhraseAction = 'sos',
+  id: string = crypto.randomUUID()
+): WakePhrase => ({
+  id,
+  phrase,
+  action,
+  sensitivity: DEFAULT_SENSITIVITY,
+  variants: {},
+  ...(action === 'safety_timer' && { timerMinutes: DEFAULT_TIMER_MINUTES }),
+  enabled: true
+});
+
+export const DEFAULT_WAKE_PHRASES: WakePhrase[] = [{
+  ...createWakePhrase('Help Aura', 'sos', 'help-aura'),
+  variants: {
+    es: ['Ayuda Aura'],
+    fr: ['Aide Aura'],
+    de: ['Hilfe Aura']
+  }
+}];
+
+/**
+ * Minimum similarity for a phrase to count as heard
+ */
+export const matchThreshold = (sensitivity: number): number => {
+  const clamped = Math.min(1, Math.max(0, sensitivity));
+  return STRICTEST_THRESHOLD - (STRICTEST_THRESHOLD - LOOSEST_THRESHOLD) * clamped;
+};
+
+/**
+ * The wordings to listen for in a language: the phrase itself, plus the variants for the exact
+ * language and for its base language (`es-ES` also uses `es`)
+ */
+export const phraseWordings = (phrase: WakePhrase, language: string): string[] => {
+  const base = language.split('-')[0];
+  const variants = [
+    ...(phrase.variants[language] ?? []),
+    ...(language !== base ? phrase.variants[base] ?? [] : [])
+  ];
+  return [phrase.phrase, ...variants].map(normalizeText).filter(Boolean);
+};
+
+/**
+ * The best-matching enabled phrase, or null when none reaches its own sensitivity threshold
+ */
+export const matchWakePhrase = (
+  transcript: string,
+  phrases: WakePhrase[],
+  language: string
+): WakePhraseMatch | null => {
+  let best: WakePhraseMatch | null = null;
+
+  for (const phrase of phrases) {
+    if (!phrase.enabled) continue;
+
+    const threshold = matchThreshold(phrase.sensitivity);
+    for (const wording of phraseWordings(phrase, language)) {
+      const match = matchPhrase(transcript, wording, { language, minTokenScore: threshold - TOKEN_SCORE_MARGIN });
+      if (!match || match.confidence < threshold) continue;
+      if (!best || match.confidence > best.confidence) {
+        best = { phraseId: phrase.id, action: phrase.action, matchedText: match.span, transcript, confidence: match.confidence };
+      }
+    }
+  }
+
+  return best;
+};
+
+// Only the word for "cancel": "stop" or "no" are as likely to be shouted at an attacker
+const CANCEL_WORDS: Record<string, string> = {
+  en: 'cancel',
+  es: 'cancelar',
+  fr: 'annuler',
+  de: 'abbrechen',
+  zh: '取消',
+  ja: 'キャンセル',
+  ko: '취소',
+  ar: 'إلغاء',
+  hi: 'रद्द'
+};
+
+// A misheard cancel drops a real alert, so only the word itself counts, not sound-alikes
+const CANCEL_THRESHOLD = STRICTEST_THRESHOLD;
+
+// "Don't cancel" must never cancel. Words as tokenize() leaves them: "don't" becomes "don t".
+const NEGATION_WORDS: Record<string, string[]> = {
+  en: ['no', 'not', 'never', 'dont', 'don', 'wont', 'won', 't'],
+  es: ['no', 'nunca', 'jamas'],
+  fr: ['ne', 'n', 'pas', 'non', 'jamais'],
+  de: ['nicht', 'kein', 'keine', 'nein', 'nie'],
+  zh: ['不', '别', '没']
+};
+
+/**
+ * The spoken word that cancels a pending SOS in a language
+ */
+export const cancelWord = (language: string): string =>
+  CANCEL_WORDS[language.split('-')[0]] ?? CANCEL_WORDS.en;
+
+/**
+ * Whether a final transcript asks to cancel. Any negation in it ("do not cancel") rules it out.
+ */
+export const matchCancelWord = (transcript: string, language: string): boolean => {
+  const negations = NEGATION_WORDS[language.split('-')[0]] ?? NEGATION_WORDS.en;
+  if (tokenize(transcript).some(word => negations.includes(word))) return false;
+
+  const match = matchPhrase(transcript, cancelWord(language), { language, minTokenScore: CANCEL_THRESHOLD });
+  return match !== null && match.confidence >= CANCEL_THRESHOLD;
+};
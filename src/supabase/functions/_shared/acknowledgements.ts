@@ -0,0 +1,228 @@
+/*
+  # Contact Acknowledgements
+
+  1. Purpose
+    - Lets a contact tell Aura "I've got it", by replying to the alert SMS (sms-inbound) or by
+      tapping the one-tap link in the alert (contact-ack)
+    - Records the latest response per contact, moves the incident to `acknowledged` (which stops
+      the escalation ladder) and pushes the update to the user's confirmation screen
+
+  2. Ack Links
+    - `${AURA_APP_URL}/ack/<token>`, where the token names the alert and contact and is signed
+      with `ACK_SIGNING_SECRET`; no link is added when either is missing
+
+  3. Realtime
+    - Updates are broadcast on the `incident:<alertId>` channel; alert ids are random UUIDs that
+      only the user's device and the server know
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ChannelType } from './channels.ts';
+import { AlertContact } from './dispatch.ts';
+
+export type AckResponse = 'ok' | 'on_my_way' | 'calling';
+
+export type AckVia = 'sms' | 'link';
+
+export interface AckTokenClaims {
+  alertId: string;
+  contactId: string;
+}
+
+export interface Acknowledgement {
+  alertId: string;
+  contactName: string;
+  phoneNumber: string | null;
+  response: AckResponse;
+  via: AckVia;
+}
+
+const REPLY_PATTERNS: Array<[AckResponse, RegExp]> = [
+  ['on_my_way', /\b(ON MY WAY|OMW|ON THE WAY|COMING|HEADING)\b/],
+  ['calling', /\b(CALLING|CALL(ING)? (YOU|NOW|THEM)|WILL CALL|CALLED)\b/],
+  ['ok', /^(OK|OKAY|K|YES|Y|GOT IT|ACK|RECEIVED|SEEN)\b/],
+];
+
+// "NOT COMING", "CAN'T CALL", "NOBODY CALLED": a reply that says no must never stop the ladder
+const NEGATION = /\b(NOT|NO|NOPE|NEVER|NOBODY|NOONE|NONE|CANNOT|UNABLE|CANT|WONT|DONT|COULDNT|ISNT|AINT|[A-Z]+N T)\b/;
+
+/**
+ * What a reply means, or null when it is not one of the recognised answers or is negated
+ */
+export const parseAckReply = (text: string): AckResponse | null => {
+  const normalized = text
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (NEGATION.test(normalized)) return null;
+
+  for (const [response, pattern] of REPLY_PATTERNS) {
+    if (pattern.test(normalized)) return response;
+  }
+  return null;
+};
+
+export const ACK_RESPONSE_LABELS: Record<AckResponse, string> = {
+  ok: 'has seen your alert',
+  on_my_way: 'is on their way',
+  calling: 'is calling you',
+};
+
+const base64url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const hmac = async (secret: string, payload: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return base64url(new Uint8Array(digest));
+};
+
+/**
+ * `<alertId>.<contactId>.<signature>`; both ids are UUIDs, so the dots are unambiguous
+ */
+export const createAckToken = async (claims: AckTokenClaims, secret: string): Promise<string> => {
+  const payload = `${claims.alertId}.${claims.contactId}`;
+  return `${payload}.${await hmac(secret, payload)}`;
+};
+
+export const verifyAckToken = async (token: string, secret: string): Promise<AckTokenClaims | null> => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [alertId, contactId, signature] = parts;
+  const expected = await hmac(secret, `${alertId}.${contactId}`);
+
+  // Constant-time comparison
+  if (expected.length !== signature.length) return null;
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return mismatch === 0 ? { alertId, contactId } : null;
+};
+
+/**
+ * Lines added to a contact's copy of the alert telling them how to acknowledge it
+ */
+export const ackInstructions = async (
+  contact: AlertContact,
+  channel: ChannelType,
+  alertId: string,
+  userName: string
+): Promise<string> => {
+  const appUrl = Deno.env.get('AURA_APP_URL');
+  const secret = Deno.env.get('ACK_SIGNING_SECRET');
+  const link = appUrl && secret && contact.id
+    ? `${appUrl.replace(/\/$/, '')}/ack/${await createAckToken({ alertId, contactId: contact.id }, secret)}`
+    : null;
+
+  const lines: string[] = [];
+  if (channel === 'sms') {
+    lines.push(`Reply OK, ON MY WAY or CALLING so ${userName} knows you've got it.`);
+  }
+  if (link) {
+    lines.push(`${channel === 'sms' ? 'Or tap' : `Let ${userName} know you've got it`}: ${link}`);
+  }
+  return lines.length > 0 ? `\n\n${lines.join('\n')}` : '';
+};
+
+/**
+ * Push an incident update to the user's confirmation screen
+ */
+export const broadcastIncidentUpdate = async (
+  supabase: SupabaseClient,
+  alertId: string,
+  event: 'acknowledgement' | 'status',
+  payload: Record<string, unknown>
+): Promise<void> => {
+  const channel = supabase.channel(`incident:${alertId}`);
+  try {
+    await channel.send({ type: 'broadcast', event, payload });
+  } catch (broadcastError) {
+    console.error('Error broadcasting incident update:', broadcastError);
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+};
+
+/**
+ * Store a contact's latest response, mark the incident acknowledged and tell the user.
+ * Returns false when the incident is already closed.
+ */
+export const recordAcknowledgement = async (supabase: SupabaseClient, ack: Acknowledgement): Promise<boolean> => {
+  const { data: alert } = await supabase
+    .from('emergency_alerts')
+    .select('id, status')
+    .eq('id', ack.alertId)
+    .maybeSingle();
+
+  if (!alert || (alert.status !== 'open' && alert.status !== 'acknowledged')) {
+    return false;
+  }
+
+  const acknowledgedAt = new Date().toISOString();
+
+  const { error: writeError } = await supabase
+    .from('contact_acknowledgements')
+    .upsert({
+      alert_id: ack.alertId,
+      contact_name: ack.contactName,
+      phone_number: ack.phoneNumber ?? '',
+      response: ack.response,
+      via: ack.via,
+      acknowledged_at: acknowledgedAt,
+    }, { onConflict: 'alert_id,phone_number' });
+
+  if (writeError) {
+    throw new Error(`Could not store acknowledgement: ${writeError.message}`);
+  }
+
+  // First acknowledgement stops the escalation ladder
+  const { data: acknowledged } = await supabase
+    .from('emergency_alerts')
+    .update({ status: 'acknowledged', acknowledged_at: acknowledgedAt, next_escalation_at: null })
+    .eq('id', ack.alertId)
+    .eq('status', 'open')
+    .select('status, acknowledged_at');
+
+  try {
+    await supabase
+      .from('incident_events')
+      .insert({
+        alert_id: ack.alertId,
+        event_type: 'acknowledged',
+        detail: { contact: ack.contactName, response: ack.response, via: ack.via },
+        created_at: acknowledgedAt,
+      });
+  } catch (logError) {
+    console.error('Error logging acknowledgement:', logError);
+  }
+
+  await broadcastIncidentUpdate(supabase, ack.alertId, 'acknowledgement', {
+    contactName: ack.contactName,
+    phoneNumber: ack.phoneNumber,
+    response: ack.response,
+    via: ack.via,
+    acknowledgedAt,
+  });
+
+  if (acknowledged && acknowledged.length > 0) {
+    await broadcastIncidentUpdate(supabase, ack.alertId, 'status', {
+      status: 'acknowledged',
+      acknowledgedAt,
+    });
+  }
+
+  return true;
+};
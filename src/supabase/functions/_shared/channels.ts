@@ -0,0 +1,256 @@
+/*
+  # Notification Channels
+
+  1. Purpose
+    - One `NotificationChannel` interface for every way an alert can reach a contact
+    - Used by the alert functions through `dispatch.ts`; no function talks to a provider directly
+
+  2. Channels
+    - `sms` - Twilio Programmable Messaging (`TWILIO_ACCOUNT_SID`, `TWILIO_AUTH_TOKEN`, `TWILIO_PHONE_NUMBER`)
+    - `email` - SMTP over implicit TLS (`SMTP_HOST`, `SMTP_PORT` default 465, `SMTP_USERNAME`,
+      `SMTP_PASSWORD`, `SMTP_FROM`)
+    - `webhook` - JSON POST to the contact's HTTPS URL, signed with `WEBHOOK_SIGNING_SECRET` when set
+    - `InMemoryChannel` - records messages instead of sending them; used for every channel when
+      `NOTIFICATION_TRANSPORT=fake`, so the functions can run without provider accounts
+*/
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export type ChannelType = 'sms' | 'email' | 'webhook';
+
+export const CHANNEL_TYPES: ChannelType[] = ['sms', 'email', 'webhook'];
+
+export interface NotificationRecipient {
+  name: string;
+  phoneNumber: string;
+  email?: string | null;
+  webhookUrl?: string | null;
+}
+
+export interface OutboundNotification {
+  alertId: string;
+  alertType: string;
+  subject: string;
+  body: string;
+  // Twilio delivery receipts for SMS
+  statusCallback?: string;
+}
+
+export interface ChannelSendResult {
+  messageId?: string;
+}
+
+/**
+ * Raised by a channel when the provider refuses or cannot be reached
+ */
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+export interface NotificationChannel {
+  readonly type: ChannelType;
+  isConfigured(): boolean;
+  // Whether this recipient has an address this channel can use
+  canReach(recipient: NotificationRecipient): boolean;
+  // Resolves once the provider has accepted the message; throws NotificationError otherwise
+  send(recipient: NotificationRecipient, notification: OutboundNotification): Promise<ChannelSendResult>;
+}
+
+export class TwilioSmsChannel implements NotificationChannel {
+  readonly type = 'sms' as const;
+
+  constructor(
+    private accountSid = Deno.env.get('TWILIO_ACCOUNT_SID'),
+    private authToken = Deno.env.get('TWILIO_AUTH_TOKEN'),
+    private fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER')
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.accountSid && this.authToken && this.fromNumber);
+  }
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.phoneNumber);
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutboundNotification): Promise<ChannelSendResult> {
+    const params = new URLSearchParams({
+      From: this.fromNumber!,
+      To: recipient.phoneNumber,
+      Body: notification.body,
+    });
+    if (notification.statusCallback) {
+      // Delivery receipts are recorded per message by sms-status-callback
+      params.set('StatusCallback', notification.statusCallback);
+    }
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        },
+        body: params,
+      }
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new NotificationError(result.message || `Twilio responded ${response.status}`);
+    }
+    return { messageId: result.sid };
+  }
+}
+
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+
+  constructor(
+    private hostname = Deno.env.get('SMTP_HOST'),
+    private port = Number(Deno.env.get('SMTP_PORT') ?? 465),
+    private username = Deno.env.get('SMTP_USERNAME'),
+    private password = Deno.env.get('SMTP_PASSWORD'),
+    private from = Deno.env.get('SMTP_FROM')
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.hostname && this.username && this.password && this.from);
+  }
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.email);
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutboundNotification): Promise<ChannelSendResult> {
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.hostname!,
+        port: this.port,
+        tls: true,
+        auth: { username: this.username!, password: this.password! },
+      },
+    });
+
+    try {
+      await client.send({
+        from: this.from!,
+        to: recipient.email!,
+        subject: notification.subject,
+        content: notification.body,
+      });
+    } catch (error) {
+      throw new NotificationError(`Email not accepted: ${(error as Error).message}`);
+    } finally {
+      await client.close().catch(() => undefined);
+    }
+    return {};
+  }
+}
+
+export class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook' as const;
+
+  constructor(private signingSecret = Deno.env.get('WEBHOOK_SIGNING_SECRET')) {}
+
+  // Webhooks need no provider account
+  isConfigured(): boolean {
+    return true;
+  }
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.webhookUrl?.startsWith('https://'));
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutboundNotification): Promise<ChannelSendResult> {
+    const payload = JSON.stringify({
+      alertId: notification.alertId,
+      alertType: notification.alertType,
+      contact: recipient.name,
+      subject: notification.subject,
+      message: notification.body,
+      sentAt: new Date().toISOString(),
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.signingSecret) {
+      headers['X-Aura-Signature'] = await this.sign(payload);
+    }
+
+    const response = await fetch(recipient.webhookUrl!, { method: 'POST', headers, body: payload });
+    if (!response.ok) {
+      throw new NotificationError(`Webhook responded ${response.status}`);
+    }
+    return { messageId: response.headers.get('X-Request-Id') ?? undefined };
+  }
+
+  /**
+   * Hex HMAC-SHA256 of the body, so receivers can check the alert came from Aura
+   */
+  private async sign(payload: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.signingSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
+
+/**
+ * Fake transport: keeps every message in memory. Recipients listed in `failFor` (by name)
+ * are rejected, to exercise partial-failure paths.
+ */
+export class InMemoryChannel implements NotificationChannel {
+  readonly sent: Array<{ recipient: NotificationRecipient; notification: OutboundNotification; messageId: string }> = [];
+
+  constructor(readonly type: ChannelType, private failFor: string[] = []) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  canReach(recipient: NotificationRecipient): boolean {
+    if (this.type === 'email') return Boolean(recipient.email);
+    if (this.type === 'webhook') return Boolean(recipient.webhookUrl);
+    return Boolean(recipient.phoneNumber);
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutboundNotification): Promise<ChannelSendResult> {
+    if (this.failFor.includes(recipient.name)) {
+      throw new NotificationError(`Fake ${this.type} transport rejected ${recipient.name}`);
+    }
+
+    const messageId = `fake_${this.type}_${crypto.randomUUID()}`;
+    this.sent.push({ recipient, notification, messageId });
+    return { messageId };
+  }
+}
+
+/**
+ * The channels the alert functions dispatch through, from the environment
+ */
+export const createChannels = (): Record<ChannelType, NotificationChannel> => {
+  if (Deno.env.get('NOTIFICATION_TRANSPORT') === 'fake') {
+    return {
+      sms: new InMemoryChannel('sms'),
+      email: new InMemoryChannel('email'),
+      webhook: new InMemoryChannel('webhook'),
+    };
+  }
+
+  return {
+    sms: new TwilioSmsChannel(),
+    email: new SmtpEmailChannel(),
+    webhook: new WebhookChannel(),
+  };
+};
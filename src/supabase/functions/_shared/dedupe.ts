@@ -0,0 +1,194 @@
+/*
+  # Duplicate Alert Collapsing
+
+  1. Purpose
+    - Stops one emergency from turning into a storm of alerts: voice activation can match the
+      same phrase several times, and the offline outbox retries requests whose answer was lost
+    - A request is folded into an existing incident instead of messaging the contacts again when
+      - it carries the idempotency key of an earlier request (a retry), or
+      - the user already has an incident under way that was raised within the dedupe window and
+        is at least as urgent (`ALERT_PRIORITY`)
+    - A more urgent request never folds into a lesser incident: an SOS after a threat alert goes
+      out as its own alert, so contacts get the SOS wording and priority
+    - Folded requests are logged on the incident's timeline as `duplicate_trigger`
+
+  2. Configuration
+    - `ALERT_DEDUPE_WINDOW_SECONDS` (default 120); 0 only collapses exact retries
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { DispatchResult, dispatchResults } from './dispatch.ts';
+
+export type AlertTriggerSource =
+  | 'long_press' | 'voice' | 'threat_detection' | 'emergency_voice' | 'safety_timer' | 'duress_pin' | 'duress_phrase';
+
+export const TRIGGER_SOURCES: AlertTriggerSource[] = [
+  'long_press', 'voice', 'threat_detection', 'emergency_voice', 'safety_timer', 'duress_pin', 'duress_phrase'
+];
+
+// Higher is more urgent; an alert only folds into incidents at its own level or above
+export const ALERT_PRIORITY: Record<string, number> = {
+  AURA_THREAT: 1,
+  SOS_PANIC: 2,
+  DURESS: 3,
+};
+
+const DEFAULT_DEDUPE_WINDOW_SECONDS = 120;
+const MAX_DEDUPE_WINDOW_SECONDS = 60 * 60;
+
+export interface AlertTrigger {
+  idempotencyKey: string | null;
+  triggerSource: AlertTriggerSource | null;
+  alertType: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ExistingIncident {
+  id: string;
+  status: string;
+  createdAt: string;
+  contactsNotified: number;
+  results: DispatchResult[];
+  reason: 'retry' | 'within_window';
+}
+
+interface AlertRow {
+  id: string;
+  status: string;
+  created_at: string;
+  contacts_notified: number | null;
+  alert_data: unknown;
+}
+
+export const dedupeWindowSeconds = (): number => {
+  const configured = Deno.env.get('ALERT_DEDUPE_WINDOW_SECONDS');
+  const seconds = Number(configured);
+  if (!configured || !Number.isFinite(seconds)) return DEFAULT_DEDUPE_WINDOW_SECONDS;
+  return Math.min(MAX_DEDUPE_WINDOW_SECONDS, Math.max(0, Math.round(seconds)));
+};
+
+/**
+ * Idempotency key and trigger source of an alert request. The key comes from the
+ * `Idempotency-Key` header, or the body for clients that cannot set headers.
+ */
+export const readAlertTrigger = (
+  req: Request,
+  body: { idempotencyKey?: unknown; triggerSource?: unknown },
+  alertType: string
+): AlertTrigger => {
+  const key = req.headers.get('Idempotency-Key') ?? body.idempotencyKey;
+  return {
+    idempotencyKey: typeof key === 'string' && key.length > 0 && key.length <= 100 ? key : null,
+    triggerSource: TRIGGER_SOURCES.includes(body.triggerSource as AlertTriggerSource)
+      ? body.triggerSource as AlertTriggerSource
+      : null,
+    alertType,
+  };
+};
+
+const toIncident = (row: AlertRow, reason: ExistingIncident['reason']): ExistingIncident => ({
+  id: row.id,
+  status: row.status,
+  createdAt: row.created_at,
+  contactsNotified: row.contacts_notified ?? 0,
+  results: dispatchResults(row.alert_data),
+  reason,
+});
+
+/**
+ * Alert types at least as urgent as `alertType`
+ */
+export const alertTypesAtOrAbove = (alertType: string): string[] => {
+  const priority = ALERT_PRIORITY[alertType] ?? 0;
+  return Object.keys(ALERT_PRIORITY).filter(type => ALERT_PRIORITY[type] >= priority);
+};
+
+/**
+ * The incident this request duplicates, or null when it should alert the contacts.
+ * A window of 0 only finds retries.
+ */
+export const findExistingIncident = async (
+  supabase: SupabaseClient,
+  userId: string,
+  trigger: AlertTrigger,
+  windowSeconds: number = dedupeWindowSeconds()
+): Promise<ExistingIncident | null> => {
+  const columns = 'id, status, created_at, contacts_notified, alert_data';
+
+  if (trigger.idempotencyKey) {
+    const { data: retried } = await supabase
+      .from('emergency_alerts')
+      .select(columns)
+      .eq('idempotency_key', trigger.idempotencyKey)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (retried) return toIncident(retried as AlertRow, 'retry');
+  }
+
+  if (windowSeconds === 0) return null;
+
+  // Incidents that reached somebody, or are still being sent (no results stored yet).
+  // One that reached nobody must not swallow a fresh attempt.
+  const { data: recent } = await supabase
+    .from('emergency_alerts')
+    .select(columns)
+    .eq('user_id', userId)
+    .in('status', ['open', 'acknowledged'])
+    .in('alert_type', alertTypesAtOrAbove(trigger.alertType))
+    .gte('created_at', new Date(Date.now() - windowSeconds * 1000).toISOString())
+    .or('contacts_notified.gt.0,alert_data.is.null')
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  return recent && recent.length > 0 ? toIncident(recent[0] as AlertRow, 'within_window') : null;
+};
+
+/**
+ * Add the folded request to the incident's timeline
+ */
+export const recordDuplicateTrigger = async (
+  supabase: SupabaseClient,
+  incident: ExistingIncident,
+  trigger: AlertTrigger
+): Promise<void> => {
+  try {
+    await supabase
+      .from('incident_events')
+      .insert({
+        alert_id: incident.id,
+        event_type: 'duplicate_trigger',
+        detail: {
+          reason: incident.reason,
+          alertType: trigger.alertType,
+          triggerSource: trigger.triggerSource,
+          idempotencyKey: trigger.idempotencyKey,
+          latitude: trigger.latitude ?? null,
+          longitude: trigger.longitude ?? null,
+        },
+      });
+  } catch (logError) {
+    console.error('Error logging duplicate trigger:', logError);
+    // Don't fail the request if logging fails
+  }
+};
+
+/**
+ * What the alert functions return for a folded request, shaped like a fresh alert
+ */
+export const duplicateResponseData = (incident: ExistingIncident) => ({
+  alertId: incident.id,
+  duplicate: true,
+  duplicateReason: incident.reason,
+  incidentStatus: incident.status,
+  contactsNotified: incident.contactsNotified,
+  totalContacts: incident.results.length,
+  results: incident.results,
+  timestamp: incident.createdAt,
+});
+
+export const describeDuplicate = (incident: ExistingIncident): string =>
+  incident.reason === 'retry'
+    ? 'Alert already sent for this request'
+    : `Contacts were already alerted at ${new Date(incident.createdAt).toISOString()}; added to the existing incident`;
@@ -0,0 +1,307 @@
+/*
+  # Alert Dispatch
+
+  1. Purpose
+    - The profile lookup, per-contact send loop and alert logging shared by send-sos-alert and
+      send-aura-alert
+    - Each contact is reached on the channel they chose (`emergency_contacts.channel`); when that
+      channel is not configured or the contact has no address for it, the alert falls back to SMS
+
+  2. Alert Record
+    - `createAlertRecord` inserts the `emergency_alerts` row before anything is sent, so delivery
+      receipts always have an alert to attach to
+    - `recordDispatch` stores the results on it and starts tracking every SMS in `sms_deliveries`
+    - Only primary contacts get the first alert; secondary contacts are left to the escalation
+      ladder (`escalation.ts`)
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  ChannelType,
+  CHANNEL_TYPES,
+  NotificationChannel,
+  NotificationRecipient,
+  OutboundNotification,
+} from './channels.ts';
+
+export type ContactPriority = 'primary' | 'secondary';
+
+export interface AlertContact extends NotificationRecipient {
+  id: string;
+  channel: ChannelType;
+  // Secondary contacts are only alerted when the escalation ladder reaches them
+  priority?: ContactPriority;
+}
+
+export interface AlertProfile {
+  id: string;
+  name: string;
+  contacts: AlertContact[];
+}
+
+// The `emergency_contacts` columns selected with the profile
+interface ContactRow {
+  id: string;
+  name: string;
+  phone_number: string;
+  channel: string | null;
+  email: string | null;
+  webhook_url: string | null;
+  priority: string | null;
+}
+
+export interface DispatchResult {
+  contact: string;
+  phone: string;
+  channel: ChannelType;
+  status: 'sent' | 'failed';
+  messageId?: string;
+  error?: string;
+}
+
+const toAlertContact = (row: ContactRow): AlertContact => ({
+  id: row.id,
+  name: row.name,
+  phoneNumber: row.phone_number,
+  channel: CHANNEL_TYPES.includes(row.channel as ChannelType) ? row.channel as ChannelType : 'sms',
+  email: row.email,
+  webhookUrl: row.webhook_url,
+  priority: row.priority === 'secondary' ? 'secondary' : 'primary',
+});
+
+/**
+ * Profile and emergency contacts for an alert; null when the user has no profile
+ */
+export const fetchAlertProfile = async (supabase: SupabaseClient, userId: string): Promise<AlertProfile | null> => {
+  const { data: userProfile, error: fetchError } = await supabase
+    .from('user_profiles')
+    .select(`
+      id,
+      name,
+      emergency_contacts (
+        id,
+        name,
+        phone_number,
+        channel,
+        email,
+        webhook_url,
+        priority
+      )
+    `)
+    .eq('id', userId)
+    // Contacts removed in the app are kept as tombstones for sync
+    .is('emergency_contacts.deleted_at', null)
+    .single();
+
+  if (fetchError || !userProfile) {
+    console.error('Error fetching user profile:', fetchError);
+    return null;
+  }
+
+  return {
+    id: userProfile.id,
+    name: userProfile.name || 'Aura User',
+    contacts: ((userProfile.emergency_contacts ?? []) as ContactRow[]).map(toAlertContact),
+  };
+};
+
+/**
+ * Link to the contact-facing live tracking page, if the session is real and still open
+ */
+export const buildTrackingLine = async (supabase: SupabaseClient, userId: string, trackingToken?: string): Promise<string> => {
+  const appUrl = Deno.env.get('AURA_APP_URL');
+  if (!trackingToken || !appUrl) return '';
+
+  const { data: trackingSession } = await supabase
+    .from('tracking_sessions')
+    .select('id, expires_at, ended_at')
+    .eq('token', trackingToken)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!trackingSession || trackingSession.ended_at || new Date(trackingSession.expires_at).getTime() <= Date.now()) {
+    return '';
+  }
+  return `\n\nFollow their live location: ${appUrl.replace(/\/$/, '')}/track/${trackingToken}`;
+};
+
+/**
+ * Contacts the first alert goes to; everyone when no contact is marked primary
+ */
+export const primaryContacts = (contacts: AlertContact[]): AlertContact[] => {
+  const primary = contacts.filter(contact => contact.priority !== 'secondary');
+  return primary.length > 0 ? primary : contacts;
+};
+
+/**
+ * The channel a contact will actually be reached on, or null if none can reach them
+ */
+export const resolveChannel = (
+  contact: AlertContact,
+  channels: Record<ChannelType, NotificationChannel>
+): NotificationChannel | null => {
+  const preferred = channels[contact.channel];
+  if (preferred.isConfigured() && preferred.canReach(contact)) {
+    return preferred;
+  }
+  return channels.sms.isConfigured() && channels.sms.canReach(contact) ? channels.sms : null;
+};
+
+/**
+ * Send to every contact on their channel; one contact failing never stops the others.
+ * `personalize` returns text appended to that contact's copy of the message.
+ */
+export const dispatchToContacts = async (
+  contacts: AlertContact[],
+  notification: OutboundNotification,
+  channels: Record<ChannelType, NotificationChannel>,
+  personalize?: (contact: AlertContact, channel: ChannelType) => Promise<string>
+): Promise<DispatchResult[]> => {
+  const results: DispatchResult[] = [];
+
+  for (const contact of contacts) {
+    const channel = resolveChannel(contact, channels);
+    if (!channel) {
+      results.push({
+        contact: contact.name,
+        phone: contact.phoneNumber,
+        channel: contact.channel,
+        status: 'failed',
+        error: `No configured channel can reach this contact`,
+      });
+      continue;
+    }
+
+    try {
+      const suffix = personalize ? await personalize(contact, channel.type) : '';
+      const { messageId } = await channel.send(contact, { ...notification, body: notification.body + suffix });
+      results.push({
+        contact: contact.name,
+        phone: contact.phoneNumber,
+        channel: channel.type,
+        status: 'sent',
+        messageId,
+      });
+    } catch (error) {
+      results.push({
+        contact: contact.name,
+        phone: contact.phoneNumber,
+        channel: channel.type,
+        status: 'failed',
+        error: (error as Error).message || 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Returns false only when another request with the same idempotency key created its alert first
+ */
+export const createAlertRecord = async (supabase: SupabaseClient, record: {
+  alertId: string;
+  userId: string;
+  latitude?: number;
+  longitude?: number;
+  message: string;
+  idempotencyKey?: string | null;
+  triggerSource?: string | null;
+  alertType?: string | null;
+}): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('emergency_alerts')
+      .insert({
+        id: record.alertId,
+        user_id: record.userId,
+        latitude: record.latitude || null,
+        longitude: record.longitude || null,
+        message: record.message,
+        contacts_notified: 0,
+        idempotency_key: record.idempotencyKey ?? null,
+        trigger_source: record.triggerSource ?? null,
+        alert_type: record.alertType ?? null,
+        created_at: new Date().toISOString()
+      });
+
+    // unique_violation on idempotency_key
+    if (error?.code === '23505') return false;
+    if (error) console.error('Error creating alert record:', error);
+  } catch (logError) {
+    console.error('Error creating alert record:', logError);
+    // Don't fail the request if logging fails
+  }
+  return true;
+};
+
+/**
+ * Track each accepted SMS until sms-status-callback reports its delivery
+ */
+export const trackSmsDeliveries = async (supabase: SupabaseClient, alertId: string, results: DispatchResult[]): Promise<void> => {
+  const deliveries = results
+    .filter(r => r.status === 'sent' && r.channel === 'sms' && r.messageId)
+    .map(r => ({
+      alert_id: alertId,
+      message_sid: r.messageId,
+      contact_name: r.contact,
+      phone_number: r.phone,
+      status: 'queued'
+    }));
+
+  if (deliveries.length === 0) return;
+
+  // A receipt may already have created the row; keep its newer status
+  await supabase
+    .from('sms_deliveries')
+    .upsert(deliveries, { onConflict: 'message_sid', ignoreDuplicates: true });
+
+  for (const delivery of deliveries) {
+    await supabase
+      .from('sms_deliveries')
+      .update({ contact_name: delivery.contact_name, alert_id: alertId })
+      .eq('message_sid', delivery.message_sid)
+      .is('contact_name', null);
+  }
+};
+
+/**
+ * Store the results on the alert and start tracking its SMS deliveries
+ */
+export const recordDispatch = async (supabase: SupabaseClient, alertId: string, results: DispatchResult[], alertData: unknown): Promise<void> => {
+  try {
+    await supabase
+      .from('emergency_alerts')
+      .update({
+        contacts_notified: results.filter(r => r.status === 'sent').length,
+        alert_data: alertData,
+      })
+      .eq('id', alertId);
+
+    await trackSmsDeliveries(supabase, alertId, results);
+  } catch (logError) {
+    console.error('Error logging alert:', logError);
+    // Don't fail the request if logging fails
+  }
+};
+
+/**
+ * Per-contact results from an alert's `alert_data`. SOS alerts store the results
+ * spread into an object next to their priority flags, so both shapes are accepted.
+ */
+export const dispatchResults = (alertData: unknown): DispatchResult[] => {
+  const entries = Array.isArray(alertData)
+    ? alertData
+    : Object.values((alertData ?? {}) as Record<string, unknown>);
+
+  return entries.filter((entry): entry is DispatchResult =>
+    typeof entry === 'object' && entry !== null
+    && typeof (entry as DispatchResult).contact === 'string'
+  );
+};
+
+/**
+ * Contacts an alert actually reached
+ */
+export const notifiedResults = (alertData: unknown): DispatchResult[] =>
+  dispatchResults(alertData).filter(result => result.status === 'sent');
@@ -0,0 +1,330 @@
+/*
+  # Escalation Ladder
+
+  1. Purpose
+    - What happens when nobody acknowledges an open incident within the user's timeout
+    - Rungs, in order, each after another timeout: re-send the alert to the primary contacts,
+      alert the secondary contacts, then place automated voice calls that read the alert
+    - Driven by the escalate-incidents function, which a scheduled job calls every minute
+
+  2. Policy
+    - Per user in `escalation_policies`, and snapshotted onto each alert when it is sent so a
+      policy change never reshapes an incident already under way
+    - Disabled rungs are skipped; the ladder stops as soon as the incident leaves `open`
+
+  3. Testing
+    - Time comes from a `Clock` and calls from a `TelephonyTransport`, so the ladder can be run
+      against `FakeClock` and `InMemoryTelephony` with the in-memory notification channels
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ackInstructions } from './acknowledgements.ts';
+import { ChannelType, NotificationChannel } from './channels.ts';
+import {
+  AlertContact,
+  DispatchResult,
+  dispatchToContacts,
+  fetchAlertProfile,
+  primaryContacts,
+  trackSmsDeliveries,
+} from './dispatch.ts';
+import { TelephonyTransport, buildAlertTwiml } from './telephony.ts';
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export class FakeClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date): void {
+    this.current = date.getTime();
+  }
+
+  advanceMinutes(minutes: number): void {
+    this.current += minutes * 60 * 1000;
+  }
+}
+
+export type EscalationStep = 'resend' | 'secondary_contacts' | 'voice_calls';
+
+export interface EscalationPolicy {
+  ackTimeoutMinutes: number;
+  resendEnabled: boolean;
+  notifySecondary: boolean;
+  voiceCallsEnabled: boolean;
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  ackTimeoutMinutes: 5,
+  resendEnabled: true,
+  notifySecondary: true,
+  voiceCallsEnabled: true,
+};
+
+const MIN_TIMEOUT_MINUTES = 1;
+const MAX_TIMEOUT_MINUTES = 60;
+
+// Incidents handled per run; the rest wait for the next minute
+const BATCH_SIZE = 25;
+
+export interface EscalationAttempt extends Omit<DispatchResult, 'channel'> {
+  channel: ChannelType | 'voice';
+}
+
+export interface EscalationOutcome {
+  alertId: string;
+  step: EscalationStep | null; // null when the ladder had nothing left to do
+  level: number;
+  results: EscalationAttempt[];
+}
+
+export interface EscalationDependencies {
+  supabase: SupabaseClient;
+  supabaseUrl: string;
+  channels: Record<ChannelType, NotificationChannel>;
+  telephony: TelephonyTransport;
+  clock: Clock;
+}
+
+interface IncidentRow {
+  id: string;
+  user_id: string;
+  message: string;
+  escalation_level: number;
+  escalation_policy: EscalationPolicy | null;
+}
+
+/**
+ * Policy from untrusted input (the client or a stored row), clamped to sane limits
+ */
+export const normalizePolicy = (input: Partial<EscalationPolicy> | null | undefined): EscalationPolicy => {
+  const timeout = Number(input?.ackTimeoutMinutes);
+  return {
+    ackTimeoutMinutes: Number.isFinite(timeout)
+      ? Math.min(MAX_TIMEOUT_MINUTES, Math.max(MIN_TIMEOUT_MINUTES, Math.round(timeout)))
+      : DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes,
+    resendEnabled: input?.resendEnabled ?? DEFAULT_ESCALATION_POLICY.resendEnabled,
+    notifySecondary: input?.notifySecondary ?? DEFAULT_ESCALATION_POLICY.notifySecondary,
+    voiceCallsEnabled: input?.voiceCallsEnabled ?? DEFAULT_ESCALATION_POLICY.voiceCallsEnabled,
+  };
+};
+
+/**
+ * The rungs this policy climbs, in order
+ */
+export const planLadder = (policy: EscalationPolicy): EscalationStep[] => {
+  const steps: EscalationStep[] = [];
+  if (policy.resendEnabled) steps.push('resend');
+  if (policy.notifySecondary) steps.push('secondary_contacts');
+  if (policy.voiceCallsEnabled) steps.push('voice_calls');
+  return steps;
+};
+
+/**
+ * When the rung at `level` is due, or null once the ladder is finished
+ */
+export const nextEscalationAt = (policy: EscalationPolicy, level: number, from: Date): string | null =>
+  level < planLadder(policy).length
+    ? new Date(from.getTime() + policy.ackTimeoutMinutes * 60 * 1000).toISOString()
+    : null;
+
+export const loadEscalationPolicy = async (supabase: SupabaseClient, userId: string): Promise<EscalationPolicy> => {
+  const { data } = await supabase
+    .from('escalation_policies')
+    .select('ack_timeout_minutes, resend_enabled, notify_secondary, voice_calls_enabled')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data) return DEFAULT_ESCALATION_POLICY;
+
+  return normalizePolicy({
+    ackTimeoutMinutes: data.ack_timeout_minutes,
+    resendEnabled: data.resend_enabled,
+    notifySecondary: data.notify_secondary,
+    voiceCallsEnabled: data.voice_calls_enabled,
+  });
+};
+
+export const saveEscalationPolicy = async (supabase: SupabaseClient, userId: string, policy: EscalationPolicy): Promise<void> => {
+  const { error } = await supabase
+    .from('escalation_policies')
+    .upsert({
+      user_id: userId,
+      ack_timeout_minutes: policy.ackTimeoutMinutes,
+      resend_enabled: policy.resendEnabled,
+      notify_secondary: policy.notifySecondary,
+      voice_calls_enabled: policy.voiceCallsEnabled,
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving escalation policy:', error);
+  }
+};
+
+/**
+ * Put a freshly sent alert on the ladder
+ */
+export const scheduleEscalation = async (
+  supabase: SupabaseClient,
+  alertId: string,
+  policy: EscalationPolicy,
+  clock: Clock = systemClock
+): Promise<void> => {
+  try {
+    await supabase
+      .from('emergency_alerts')
+      .update({
+        escalation_level: 0,
+        escalation_policy: policy,
+        next_escalation_at: nextEscalationAt(policy, 0, clock.now()),
+      })
+      .eq('id', alertId);
+  } catch (scheduleError) {
+    console.error('Error scheduling escalation:', scheduleError);
+    // Don't fail the alert if scheduling fails
+  }
+};
+
+const REMINDER_PREFIX = '⏰ NO RESPONSE YET - this emergency alert has not been acknowledged by anyone.\n\n';
+const SECONDARY_SUFFIX = '\n\nYou are a backup emergency contact: their first contacts have not responded.';
+
+const placeVoiceCalls = async (
+  telephony: TelephonyTransport,
+  contacts: AlertContact[],
+  message: string
+): Promise<EscalationAttempt[]> => {
+  const twiml = buildAlertTwiml(message);
+  const attempts: EscalationAttempt[] = [];
+
+  for (const contact of contacts) {
+    try {
+      const { callSid } = await telephony.placeCall(contact.phoneNumber, twiml);
+      attempts.push({ contact: contact.name, phone: contact.phoneNumber, channel: 'voice', status: 'sent', messageId: callSid });
+    } catch (error) {
+      attempts.push({
+        contact: contact.name,
+        phone: contact.phoneNumber,
+        channel: 'voice',
+        status: 'failed',
+        error: (error as Error).message || 'Unknown error',
+      });
+    }
+  }
+
+  return attempts;
+};
+
+/**
+ * Climb one rung for an incident. The level is claimed with a conditional update first, so
+ * overlapping runs never repeat a rung.
+ */
+export const escalateIncident = async (
+  deps: EscalationDependencies,
+  incident: IncidentRow
+): Promise<EscalationOutcome | null> => {
+  const { supabase, clock } = deps;
+  const policy = normalizePolicy(incident.escalation_policy);
+  const level = incident.escalation_level ?? 0;
+  const step = planLadder(policy)[level] ?? null;
+
+  const { data: claimed } = await supabase
+    .from('emergency_alerts')
+    .update({
+      escalation_level: level + 1,
+      next_escalation_at: nextEscalationAt(policy, level + 1, clock.now()),
+    })
+    .eq('id', incident.id)
+    .eq('escalation_level', level)
+    .eq('status', 'open')
+    .select('id');
+
+  if (!claimed || claimed.length === 0) return null;
+  if (!step) return { alertId: incident.id, step, level: level + 1, results: [] };
+
+  const profile = await fetchAlertProfile(supabase, incident.user_id);
+  const contacts = profile?.contacts ?? [];
+  const notification = {
+    alertId: incident.id,
+    alertType: `ESCALATION_${step.toUpperCase()}`,
+    subject: `🚨 No response yet: ${profile?.name || 'Aura User'} still needs help`,
+    body: incident.message,
+    statusCallback: `${deps.supabaseUrl}/functions/v1/sms-status-callback?alertId=${incident.id}`,
+  };
+
+  // Every copy still tells the contact how to acknowledge, since that is what stops the ladder
+  const acknowledge = (contact: AlertContact, channel: ChannelType) =>
+    ackInstructions(contact, channel, incident.id, profile?.name || 'Aura User');
+
+  let results: EscalationAttempt[] = [];
+  if (step === 'resend') {
+    const sent = await dispatchToContacts(primaryContacts(contacts), {
+      ...notification,
+      body: REMINDER_PREFIX + incident.message,
+    }, deps.channels, acknowledge);
+    await trackSmsDeliveries(supabase, incident.id, sent);
+    results = sent;
+  } else if (step === 'secondary_contacts') {
+    const primary = primaryContacts(contacts);
+    const secondary = contacts.filter(contact => !primary.includes(contact));
+    const sent = await dispatchToContacts(secondary, {
+      ...notification,
+      body: incident.message + SECONDARY_SUFFIX,
+    }, deps.channels, acknowledge);
+    await trackSmsDeliveries(supabase, incident.id, sent);
+    results = sent;
+  } else if (deps.telephony.isConfigured()) {
+    results = await placeVoiceCalls(deps.telephony, contacts.filter(contact => contact.phoneNumber), incident.message);
+  }
+
+  try {
+    await supabase
+      .from('incident_events')
+      .insert({
+        alert_id: incident.id,
+        event_type: `escalation_${step}`,
+        detail: { level: level + 1, results },
+        created_at: clock.now().toISOString(),
+      });
+  } catch (logError) {
+    console.error('Error logging escalation:', logError);
+  }
+
+  return { alertId: incident.id, step, level: level + 1, results };
+};
+
+/**
+ * Climb one rung for every open incident whose timeout has passed
+ */
+export const runDueEscalations = async (deps: EscalationDependencies): Promise<EscalationOutcome[]> => {
+  const { data: due, error } = await deps.supabase
+    .from('emergency_alerts')
+    .select('id, user_id, message, escalation_level, escalation_policy')
+    .eq('status', 'open')
+    .lte('next_escalation_at', deps.clock.now().toISOString())
+    .order('next_escalation_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Could not read due incidents: ${error.message}`);
+  }
+
+  const outcomes: EscalationOutcome[] = [];
+  for (const incident of (due ?? []) as IncidentRow[]) {
+    const outcome = await escalateIncident(deps, incident);
+    if (outcome) outcomes.push(outcome);
+  }
+  return outcomes;
+};
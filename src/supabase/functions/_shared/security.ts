@@ -0,0 +1,189 @@
+/*
+  # Request Security
+
+  1. Purpose
+    - Who is calling: the user comes from the verified Supabase Auth JWT in `Authorization`,
+      never from the request body; a body `userId` that names someone else is rejected
+    - How often: fixed-window rate limits per user and per client IP, counted atomically in
+      Postgres (`hit_rate_limit`) so they hold across function instances
+    - Every rejection is written to `security_audit_log`
+
+  2. Configuration
+    - `ALERT_RATE_LIMIT_PER_USER` (default 10) and `ALERT_RATE_LIMIT_PER_IP` (default 30) alerts
+      per `ALERT_RATE_LIMIT_WINDOW_SECONDS` (default 600)
+
+  3. Notes
+    - A failing rate-limit check lets the request through: an emergency alert must not be
+      blocked by a database hiccup
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type SecurityEventType =
+  | 'missing_token'
+  | 'invalid_token'
+  | 'user_mismatch'
+  | 'rate_limited_user'
+  | 'rate_limited_ip';
+
+export interface RateLimit {
+  max: number;
+  windowSeconds: number;
+}
+
+export interface RequestContext {
+  functionName: string;
+  ip: string;
+  userAgent: string | null;
+}
+
+export type Authorization =
+  | { ok: true; userId: string }
+  | { ok: false; status: number; message: string; retryAfterSeconds?: number };
+
+const envNumber = (name: string, fallback: number): number => {
+  const configured = Deno.env.get(name);
+  const value = Number(configured);
+  return configured && Number.isFinite(value) && value > 0 ? Math.round(value) : fallback;
+};
+
+export const alertRateLimits = (): { perUser: RateLimit; perIp: RateLimit } => {
+  // Counters are purged after a day, so no window may be longer
+  const windowSeconds = Math.min(envNumber('ALERT_RATE_LIMIT_WINDOW_SECONDS', 600), 86400);
+  return {
+    perUser: { max: envNumber('ALERT_RATE_LIMIT_PER_USER', 10), windowSeconds },
+    perIp: { max: envNumber('ALERT_RATE_LIMIT_PER_IP', 30), windowSeconds },
+  };
+};
+
+/**
+ * The caller's address as seen by the Supabase edge gateway. The gateway sets
+ * `cf-connecting-ip` and appends to `x-forwarded-for`, whose earlier hops the client can
+ * write itself, so only the right-most hop is trusted.
+ */
+export const clientIp = (req: Request): string =>
+  req.headers.get('cf-connecting-ip')?.trim()
+    || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    || 'unknown';
+
+export const requestContext = (req: Request, functionName: string): RequestContext => ({
+  functionName,
+  ip: clientIp(req),
+  userAgent: req.headers.get('user-agent'),
+});
+
+export const logSecurityEvent = async (
+  supabase: SupabaseClient,
+  context: RequestContext,
+  eventType: SecurityEventType,
+  details: { claimedUserId?: string | null; authUserId?: string | null; detail?: Record<string, unknown> } = {}
+): Promise<void> => {
+  try {
+    await supabase
+      .from('security_audit_log')
+      .insert({
+        function_name: context.functionName,
+        event_type: eventType,
+        claimed_user_id: details.claimedUserId ?? null,
+        auth_user_id: details.authUserId ?? null,
+        ip_address: context.ip,
+        user_agent: context.userAgent,
+        detail: details.detail ?? null,
+      });
+  } catch (logError) {
+    console.error('Error writing security audit log:', logError);
+    // Don't fail the request if logging fails
+  }
+};
+
+/**
+ * Count one hit against a bucket; false once the bucket is over its limit for this window
+ */
+export const checkRateLimit = async (supabase: SupabaseClient, bucket: string, limit: RateLimit): Promise<boolean> => {
+  const { data: hits, error } = await supabase.rpc('hit_rate_limit', {
+    p_bucket: bucket,
+    p_window_seconds: limit.windowSeconds,
+  });
+
+  if (error) {
+    console.error('Error checking rate limit:', error);
+    return true;
+  }
+  return Number(hits) <= limit.max;
+};
+
+/**
+ * Verify the JWT, match it against the user the body claims to be, and apply the per-IP limit.
+ * `claimedUserId` may be empty, in which case the JWT's user is used.
+ */
+export const authorizeRequest = async (
+  supabase: SupabaseClient,
+  req: Request,
+  context: RequestContext,
+  claimedUserId: string | null | undefined,
+  ipLimit?: RateLimit
+): Promise<Authorization> => {
+  // Checked first, so token guessing is throttled too
+  if (ipLimit && !(await checkRateLimit(supabase, `${context.functionName}:ip:${context.ip}`, ipLimit))) {
+    await logSecurityEvent(supabase, context, 'rate_limited_ip', { claimedUserId });
+    return { ok: false, status: 429, message: "Too many requests", retryAfterSeconds: ipLimit.windowSeconds };
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    await logSecurityEvent(supabase, context, 'missing_token', { claimedUserId });
+    return { ok: false, status: 401, message: "Sign-in required" };
+  }
+
+  // The anon key is a valid JWT too, but it has no user
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    await logSecurityEvent(supabase, context, 'invalid_token', {
+      claimedUserId,
+      detail: { error: error?.message ?? 'no user in token' },
+    });
+    return { ok: false, status: 401, message: "Sign-in required" };
+  }
+
+  if (claimedUserId && claimedUserId !== user.id) {
+    await logSecurityEvent(supabase, context, 'user_mismatch', { claimedUserId, authUserId: user.id });
+    return { ok: false, status: 403, message: "User ID does not match the signed-in user" };
+  }
+
+  return { ok: true, userId: user.id };
+};
+
+/**
+ * Per-user limit, applied only to requests that would actually message contacts
+ */
+export const checkUserRateLimit = async (
+  supabase: SupabaseClient,
+  context: RequestContext,
+  userId: string,
+  limit: RateLimit
+): Promise<Authorization> => {
+  if (await checkRateLimit(supabase, `alerts:user:${userId}`, limit)) {
+    return { ok: true, userId };
+  }
+
+  await logSecurityEvent(supabase, context, 'rate_limited_user', { authUserId: userId });
+  return { ok: false, status: 429, message: "Too many alerts, please wait before sending another", retryAfterSeconds: limit.windowSeconds };
+};
+
+/**
+ * Response for a rejected request, with Retry-After when it was rate limited
+ */
+export const rejectionResponse = (
+  rejection: Extract<Authorization, { ok: false }>,
+  corsHeaders: Record<string, string>
+): Response => new Response(
+  JSON.stringify({ success: false, message: rejection.message }),
+  {
+    status: rejection.status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      ...(rejection.retryAfterSeconds && { "Retry-After": String(rejection.retryAfterSeconds) }),
+    },
+  }
+);
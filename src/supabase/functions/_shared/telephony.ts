@@ -0,0 +1,100 @@
+/*
+  # Telephony
+
+  1. Purpose
+    - Automated voice calls for the last rung of the escalation ladder
+    - `TwilioVoiceTransport` places a call whose TwiML reads the alert aloud
+    - `InMemoryTelephony` records calls instead of placing them; used when
+      `NOTIFICATION_TRANSPORT=fake`, like the fake notification channels
+*/
+
+import { NotificationError } from './channels.ts';
+
+export interface PlacedCall {
+  callSid: string;
+}
+
+export interface TelephonyTransport {
+  isConfigured(): boolean;
+  // Resolves once the provider has queued the call; throws NotificationError otherwise
+  placeCall(to: string, twiml: string): Promise<PlacedCall>;
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * TwiML that reads the alert twice. Links and emoji are dropped since they make no sense spoken.
+ */
+export const buildAlertTwiml = (message: string): string => {
+  const spoken = message
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/[^\p{L}\p{N}\p{P}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Say voice="alice" loop="2">${escapeXml(spoken)}</Say></Response>`;
+};
+
+export class TwilioVoiceTransport implements TelephonyTransport {
+  constructor(
+    private accountSid = Deno.env.get('TWILIO_ACCOUNT_SID'),
+    private authToken = Deno.env.get('TWILIO_AUTH_TOKEN'),
+    private fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER')
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.accountSid && this.authToken && this.fromNumber);
+  }
+
+  async placeCall(to: string, twiml: string): Promise<PlacedCall> {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Calls.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        },
+        body: new URLSearchParams({ From: this.fromNumber!, To: to, Twiml: twiml }),
+      }
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new NotificationError(result.message || `Twilio responded ${response.status}`);
+    }
+    return { callSid: result.sid };
+  }
+}
+
+/**
+ * Fake telephony: keeps every call in memory. Numbers listed in `failFor` are rejected.
+ */
+export class InMemoryTelephony implements TelephonyTransport {
+  readonly calls: Array<{ to: string; twiml: string; callSid: string }> = [];
+
+  constructor(private failFor: string[] = []) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async placeCall(to: string, twiml: string): Promise<PlacedCall> {
+    if (this.failFor.includes(to)) {
+      throw new NotificationError(`Fake telephony rejected ${to}`);
+    }
+
+    const callSid = `fake_call_${crypto.randomUUID()}`;
+    this.calls.push({ to, twiml, callSid });
+    return { callSid };
+  }
+}
+
+export const createTelephony = (): TelephonyTransport =>
+  Deno.env.get('NOTIFICATION_TRANSPORT') === 'fake' ? new InMemoryTelephony() : new TwilioVoiceTransport();
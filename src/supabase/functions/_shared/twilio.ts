@@ -0,0 +1,39 @@
+/*
+  # Twilio Webhooks
+
+  1. Purpose
+    - Signature check shared by every function Twilio calls (delivery receipts, inbound SMS)
+*/
+
+/**
+ * X-Twilio-Signature: base64 HMAC-SHA1 over the full URL followed by every POST
+ * parameter name and value, sorted by name
+ */
+export const isValidTwilioSignature = async (
+  authToken: string,
+  url: string,
+  params: URLSearchParams,
+  signature: string
+): Promise<boolean> => {
+  const payload = [...params.keys()]
+    .sort()
+    .reduce((data, key) => data + key + (params.get(key) ?? ''), url);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  // Constant-time comparison
+  if (expected.length !== signature.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
@@ -0,0 +1,344 @@
+/*
+  # AI Proxy Function
+
+  1. Function Purpose
+    - Keeps OpenAI and ElevenLabs API keys on the server instead of in the client bundle
+    - Proxies transcription, chat completion and text-to-speech for the Aura client
+    - Enforces per-user daily quotas, a per-IP rate limit and request size limits
+    - Upstream URLs are configurable so a local stand-in can replace the vendors in tests
+
+  2. Routes (mirror the vendor APIs, so clients only swap their base URL)
+    - `POST /ai-proxy/audio/transcriptions` - multipart `file`, `language` -> OpenAI Whisper
+    - `POST /ai-proxy/chat/completions` - JSON `messages`, `max_tokens`, `temperature` -> OpenAI chat
+    - `POST /ai-proxy/text-to-speech/:voiceId` - JSON `text`, `model_id`, `voice_settings` -> ElevenLabs
+    - Every request carries the caller's session JWT; quotas are kept per verified user
+
+  3. Environment
+    - `OPENAI_API_KEY`, `ELEVENLABS_API_KEY` - vendor credentials
+    - `OPENAI_BASE_URL`, `ELEVENLABS_BASE_URL` - upstream URLs (default to the vendors)
+    - `AI_PROXY_CHAT_MODEL`, `AI_PROXY_TRANSCRIPTION_MODEL` - models the proxy pins
+    - `AI_PROXY_DAILY_TRANSCRIPTIONS`, `AI_PROXY_DAILY_CHATS`, `AI_PROXY_DAILY_SPEECH` - per-user quotas
+    - `AI_PROXY_RATE_LIMIT_PER_IP` (default 200) - requests of any kind per client IP per 10 minutes
+
+  4. Process
+    - Validate the route and request size, apply the per-IP limit and verify the caller's JWT
+    - Count the caller's requests of that kind in the last 24 hours in `ai_usage`
+    - Forward the request upstream with the server-side key
+    - Record the usage and return the upstream response unchanged
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { RateLimit, authorizeRequest, rejectionResponse, requestContext } from '../_shared/security.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+type UsageKind = 'transcription' | 'chat' | 'speech';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatRequest {
+  messages: ChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+}
+
+interface SpeechRequest {
+  text: string;
+  model_id?: string;
+  voice_settings?: Record<string, number>;
+}
+
+// Request size limits
+const MAX_AUDIO_BYTES = 5 * 1024 * 1024;
+const MAX_CHAT_MESSAGES = 40;
+const MAX_CHAT_CHARS = 12000;
+const MAX_CHAT_TOKENS = 300;
+const MAX_SPEECH_CHARS = 1000;
+const MAX_JSON_BYTES = 64 * 1024;
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DAILY_QUOTAS: Record<UsageKind, number> = {
+  transcription: Number(Deno.env.get('AI_PROXY_DAILY_TRANSCRIPTIONS') ?? 300),
+  chat: Number(Deno.env.get('AI_PROXY_DAILY_CHATS') ?? 300),
+  speech: Number(Deno.env.get('AI_PROXY_DAILY_SPEECH') ?? 300),
+};
+
+// Anonymous sign-in hands out a new user, with new quotas, on every call, so the per-user quotas
+// alone do not bound what one client can spend
+const IP_RATE_LIMIT: RateLimit = {
+  max: Number(Deno.env.get('AI_PROXY_RATE_LIMIT_PER_IP') ?? 200),
+  windowSeconds: 600,
+};
+
+const OPENAI_BASE_URL = (Deno.env.get('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+const ELEVENLABS_BASE_URL = (Deno.env.get('ELEVENLABS_BASE_URL') ?? 'https://api.elevenlabs.io/v1').replace(/\/$/, '');
+const CHAT_MODEL = Deno.env.get('AI_PROXY_CHAT_MODEL') ?? 'gpt-4o';
+const TRANSCRIPTION_MODEL = Deno.env.get('AI_PROXY_TRANSCRIPTION_MODEL') ?? 'whisper-1';
+
+const jsonResponse = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+
+const errorResponse = (message: string, status: number, headers: Record<string, string> = {}) =>
+  jsonResponse({ success: false, message }, status, headers);
+
+/**
+ * Reject bodies the client claims are too large before reading them
+ */
+const exceedsDeclaredSize = (req: Request, limit: number): boolean =>
+  Number(req.headers.get('Content-Length') ?? 0) > limit;
+
+type JsonBody<T> = { ok: true; body: T } | { ok: false; status: number; message: string };
+
+/**
+ * The request's JSON object, or why it cannot be used
+ */
+const readJson = async <T>(req: Request): Promise<JsonBody<T>> => {
+  const raw = await req.text();
+  if (raw.length > MAX_JSON_BYTES) {
+    return { ok: false, status: 413, message: "Request body too large" };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return { ok: false, status: 400, message: "Request body must be valid JSON" };
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, status: 400, message: "Request body must be a JSON object" };
+  }
+  return { ok: true, body: body as T };
+};
+
+/**
+ * Pass the upstream response through, keeping its status and content type
+ */
+const relay = (upstream: Response) =>
+  new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": upstream.headers.get('Content-Type') ?? 'application/octet-stream',
+    },
+  });
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  try {
+    // Path arrives as /ai-proxy/<route>
+    const route = new URL(req.url).pathname.replace(/^.*?\/ai-proxy\/?/, '');
+    const speechMatch = route.match(/^text-to-speech\/([A-Za-z0-9]{1,64})$/);
+
+    let kind: UsageKind;
+    if (route === 'audio/transcriptions') {
+      kind = 'transcription';
+    } else if (route === 'chat/completions') {
+      kind = 'chat';
+    } else if (speechMatch) {
+      kind = 'speech';
+    } else {
+      return errorResponse(`Unknown route: ${route}`, 404);
+    }
+
+    const openaiKey = Deno.env.get('OPENAI_API_KEY');
+    const elevenLabsKey = Deno.env.get('ELEVENLABS_API_KEY');
+    if ((kind === 'speech' && !elevenLabsKey) || (kind !== 'speech' && !openaiKey)) {
+      console.error(`AI proxy credentials for ${kind} not configured`);
+      return errorResponse("AI service not configured", 500);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Quotas are keyed on the verified user, never on an id the client sends
+    const auth = await authorizeRequest(supabase, req, requestContext(req, 'ai-proxy'), null, IP_RATE_LIMIT);
+    if (!auth.ok) {
+      return rejectionResponse(auth, corsHeaders);
+    }
+    const userId = auth.userId;
+
+    // Enforce the caller's daily quota for this kind of request
+    const windowStart = new Date(Date.now() - QUOTA_WINDOW_MS).toISOString();
+    const { count, error: usageError } = await supabase
+      .from('ai_usage')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .gte('created_at', windowStart);
+
+    if (usageError) {
+      console.error('Error reading AI usage:', usageError);
+      return errorResponse("Could not check usage quota", 500);
+    }
+
+    if ((count ?? 0) >= DAILY_QUOTAS[kind]) {
+      return errorResponse(
+        `Daily ${kind} quota of ${DAILY_QUOTAS[kind]} requests reached`,
+        429,
+        { "Retry-After": String(QUOTA_WINDOW_MS / 1000) }
+      );
+    }
+
+    let upstream: Response;
+    let units = 1;
+
+    if (kind === 'transcription') {
+      if (exceedsDeclaredSize(req, MAX_AUDIO_BYTES + 64 * 1024)) {
+        return errorResponse(`Audio must be smaller than ${MAX_AUDIO_BYTES} bytes`, 413);
+      }
+
+      const form = await req.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return errorResponse("Audio file is required", 400);
+      }
+      if (file.size > MAX_AUDIO_BYTES) {
+        return errorResponse(`Audio must be smaller than ${MAX_AUDIO_BYTES} bytes`, 413);
+      }
+
+      const upstreamForm = new FormData();
+      upstreamForm.append('file', file, file.name || 'audio.webm');
+      upstreamForm.append('model', TRANSCRIPTION_MODEL);
+      const language = form.get('language');
+      if (typeof language === 'string' && /^[a-z]{2,3}$/.test(language)) {
+        upstreamForm.append('language', language);
+      }
+
+      units = file.size;
+      upstream = await fetch(`${OPENAI_BASE_URL}/audio/transcriptions`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${openaiKey}` },
+        body: upstreamForm,
+      });
+    } else if (kind === 'chat') {
+      if (exceedsDeclaredSize(req, MAX_JSON_BYTES)) {
+        return errorResponse("Request body too large", 413);
+      }
+
+      const parsed = await readJson<ChatRequest>(req);
+      if (!parsed.ok) {
+        return errorResponse(parsed.message, parsed.status);
+      }
+      const body = parsed.body;
+
+      const messages = Array.isArray(body.messages) ? body.messages : [];
+      const validMessages = messages.every(message =>
+        ['system', 'user', 'assistant'].includes(message?.role) && typeof message?.content === 'string'
+      );
+      if (messages.length === 0 || !validMessages) {
+        return errorResponse("Messages must be a non-empty list of { role, content }", 400);
+      }
+
+      const totalChars = messages.reduce((sum, message) => sum + message.content.length, 0);
+      if (messages.length > MAX_CHAT_MESSAGES || totalChars > MAX_CHAT_CHARS) {
+        return errorResponse(`Conversation exceeds ${MAX_CHAT_MESSAGES} messages or ${MAX_CHAT_CHARS} characters`, 413);
+      }
+
+      units = totalChars;
+      upstream = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${openaiKey}`,
+        },
+        body: JSON.stringify({
+          model: CHAT_MODEL,
+          messages: messages.map(({ role, content }) => ({ role, content })),
+          max_tokens: Math.min(Number(body.max_tokens) || MAX_CHAT_TOKENS, MAX_CHAT_TOKENS),
+          temperature: typeof body.temperature === 'number' ? body.temperature : 0.7,
+        }),
+      });
+    } else {
+      if (exceedsDeclaredSize(req, MAX_JSON_BYTES)) {
+        return errorResponse("Request body too large", 413);
+      }
+
+      const parsed = await readJson<SpeechRequest>(req);
+      if (!parsed.ok) {
+        return errorResponse(parsed.message, parsed.status);
+      }
+      const body = parsed.body;
+      if (typeof body.text !== 'string' || body.text.trim().length === 0) {
+        return errorResponse("Text is required", 400);
+      }
+      if (body.text.length > MAX_SPEECH_CHARS) {
+        return errorResponse(`Text must be at most ${MAX_SPEECH_CHARS} characters`, 413);
+      }
+
+      units = body.text.length;
+      upstream = await fetch(`${ELEVENLABS_BASE_URL}/text-to-speech/${speechMatch![1]}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': elevenLabsKey!,
+        },
+        body: JSON.stringify({
+          text: body.text,
+          model_id: body.model_id,
+          voice_settings: body.voice_settings,
+        }),
+      });
+    }
+
+    // Only successful calls count against the quota
+    if (upstream.ok) {
+      try {
+        await supabase
+          .from('ai_usage')
+          .insert({
+            user_id: userId,
+            kind,
+            units,
+            created_at: new Date().toISOString()
+          });
+      } catch (logError) {
+        console.error('Error recording AI usage:', logError);
+        // Don't fail the request if logging fails
+      }
+    } else {
+      console.error(`Upstream ${kind} request failed: ${upstream.status} ${upstream.statusText}`);
+    }
+
+    return relay(upstream);
+
+  } catch (error) {
+    console.error('Error in ai-proxy function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,144 @@
+/*
+  # Contact Ack Function
+
+  1. Function Purpose
+    - Backs the one-tap acknowledgement page (`/ack/:token`) linked from every alert
+    - The token is signed per alert and contact (`_shared/acknowledgements.ts`), so the page needs
+      no login and a link cannot be reused for another alert or contact
+
+  2. Input Parameters
+    - `GET`: `token` query parameter
+    - `POST`: `token`, `response` (ok, on_my_way or calling)
+
+  3. Process
+    - Verify the token signature
+    - For `GET`, return who needs help, the incident status and the contact's current answer
+    - For `POST`, record the acknowledgement, which marks the incident acknowledged and tells the user
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AckResponse, ACK_RESPONSE_LABELS, recordAcknowledgement, verifyAckToken } from '../_shared/acknowledgements.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+  }
+
+  try {
+    const ackSecret = Deno.env.get('ACK_SIGNING_SECRET');
+    if (!ackSecret) {
+      console.error('Acknowledgement signing secret not configured');
+      return jsonResponse({ success: false, message: "Acknowledgements are not configured" }, 500);
+    }
+
+    const body = req.method === "POST" ? await req.json() : {};
+    const token = req.method === "POST" ? body.token : new URL(req.url).searchParams.get('token');
+
+    const claims = typeof token === 'string' ? await verifyAckToken(token, ackSecret) : null;
+    if (!claims) {
+      return jsonResponse({ success: false, message: "Invalid acknowledgement link" }, 404);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: alert } = await supabase
+      .from('emergency_alerts')
+      .select('id, status, created_at, user_profiles ( name )')
+      .eq('id', claims.alertId)
+      .maybeSingle();
+
+    const { data: contact } = await supabase
+      .from('emergency_contacts')
+      .select('id, name, phone_number')
+      .eq('id', claims.contactId)
+      .maybeSingle();
+
+    if (!alert || !contact) {
+      return jsonResponse({ success: false, message: "Alert not found" }, 404);
+    }
+
+    if (req.method === "POST") {
+      const response = body.response as AckResponse;
+      if (!(response in ACK_RESPONSE_LABELS)) {
+        return jsonResponse({ success: false, message: "response must be ok, on_my_way or calling" }, 400);
+      }
+
+      const recorded = await recordAcknowledgement(supabase, {
+        alertId: alert.id,
+        contactName: contact.name,
+        phoneNumber: contact.phone_number,
+        response,
+        via: 'link',
+      });
+
+      if (!recorded) {
+        return jsonResponse({ success: false, message: "This alert has already been closed" }, 409);
+      }
+    }
+
+    const { data: acknowledgement } = await supabase
+      .from('contact_acknowledgements')
+      .select('response, acknowledged_at')
+      .eq('alert_id', alert.id)
+      .eq('phone_number', contact.phone_number ?? '')
+      .maybeSingle();
+
+    const { data: current } = await supabase
+      .from('emergency_alerts')
+      .select('status')
+      .eq('id', alert.id)
+      .single();
+
+    const profile = alert.user_profiles as { name?: string } | null;
+
+    return jsonResponse({
+      success: true,
+      data: {
+        userName: profile?.name || 'Aura User',
+        contactName: contact.name,
+        alertStatus: current?.status ?? alert.status,
+        createdAt: alert.created_at,
+        response: acknowledgement?.response ?? null,
+        acknowledgedAt: acknowledgement?.acknowledged_at ?? null
+      }
+    }, 200);
+
+  } catch (error) {
+    console.error('Error in contact-ack function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,104 @@
+/*
+  # Escalate Incidents Function
+
+  1. Function Purpose
+    - Scheduled job (every minute, see the `sturdy_ladder` migration) that climbs the escalation
+      ladder for open incidents nobody has acknowledged in time
+    - The ladder itself lives in `_shared/escalation.ts`
+
+  2. Input Parameters
+    - `X-Cron-Secret` header matching `ESCALATION_CRON_SECRET`
+    - `now` (optional, body) - ISO time to run at; only honoured with `NOTIFICATION_TRANSPORT=fake`,
+      so the ladder can be walked through on a fake clock without waiting for real timeouts
+
+  3. Process
+    - Find open incidents whose `next_escalation_at` has passed
+    - For each, claim the next rung, send it, log it to `incident_events` and schedule the next one
+    - Return what was done
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createChannels } from '../_shared/channels.ts';
+import { createTelephony } from '../_shared/telephony.ts';
+import { Clock, FakeClock, runDueEscalations, systemClock } from '../_shared/escalation.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Cron-Secret",
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+  }
+
+  try {
+    const cronSecret = Deno.env.get('ESCALATION_CRON_SECRET');
+    if (!cronSecret) {
+      console.error('Escalation cron secret not configured');
+      return jsonResponse({ success: false, message: "Escalation is not configured" }, 500);
+    }
+
+    if (req.headers.get('X-Cron-Secret') !== cronSecret) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const fakeTransport = Deno.env.get('NOTIFICATION_TRANSPORT') === 'fake';
+    const clock: Clock = fakeTransport && body.now && !Number.isNaN(Date.parse(body.now))
+      ? new FakeClock(new Date(body.now))
+      : systemClock;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const outcomes = await runDueEscalations({
+      supabase,
+      supabaseUrl,
+      channels: createChannels(),
+      telephony: createTelephony(),
+      clock,
+    });
+
+    return jsonResponse({
+      success: true,
+      message: `Escalated ${outcomes.length} incident(s)`,
+      data: {
+        ranAt: clock.now().toISOString(),
+        escalations: outcomes
+      }
+    }, 200);
+
+  } catch (error) {
+    console.error('Error in escalate-incidents function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,256 @@
+/*
+  # Live Location Tracking Function
+
+  1. Function Purpose
+    - Runs the tracking session started when the user triggers an SOS
+    - Stores the device's position updates under an unguessable, expiring token
+    - Serves the contact-facing tracking page: latest position, accuracy, trail and update time
+
+  2. Routes
+    - `POST /location-tracking/start` - session JWT (a body `userId` must match it) -> new session
+      with `token` and `writeKey`
+    - `POST /location-tracking/update` - `sessionId`, `writeKey`, `points[]` -> stores positions
+    - `POST /location-tracking/end` - `sessionId`, `writeKey` -> stops sharing immediately
+    - `GET /location-tracking?token=...` - what the contact's tracking page shows
+
+  3. Process
+    - The token only grants reading; posting updates needs the write key, which is only kept
+      as a SHA-256 hash and never leaves the user's device otherwise
+    - The viewer response carries no profile data, since anyone holding the link can read it
+    - Sessions expire after `TRACKING_SESSION_HOURS` (default 4); expired or ended sessions
+      return 410 to viewers
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { alertRateLimits, authorizeRequest, rejectionResponse, requestContext } from '../_shared/security.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+interface TrackingPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: string;
+}
+
+interface UpdateRequest {
+  sessionId: string;
+  writeKey: string;
+  points: TrackingPoint[];
+}
+
+const SESSION_HOURS = Number(Deno.env.get('TRACKING_SESSION_HOURS') ?? 4);
+const MAX_POINTS_PER_UPDATE = 50;
+const MAX_TRAIL_POINTS = 500;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * 32 random bytes, base64url encoded
+ */
+const randomToken = (): string =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const isValidPoint = (point: TrackingPoint): boolean =>
+  typeof point?.latitude === 'number' && Math.abs(point.latitude) <= 90
+  && typeof point?.longitude === 'number' && Math.abs(point.longitude) <= 180
+  && !Number.isNaN(Date.parse(point.timestamp));
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const route = url.pathname.replace(/^.*?\/location-tracking\/?/, '');
+
+    // Contact-facing view
+    if (req.method === "GET") {
+      const token = url.searchParams.get('token');
+      if (!token) {
+        return jsonResponse({ success: false, message: "Tracking token is required" }, 400);
+      }
+
+      const { data: session } = await supabase
+        .from('tracking_sessions')
+        .select('id, expires_at, ended_at')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (!session) {
+        return jsonResponse({ success: false, message: "Tracking link not found" }, 404);
+      }
+
+      if (session.ended_at || new Date(session.expires_at).getTime() < Date.now()) {
+        return jsonResponse({ success: false, message: "This tracking link has expired" }, 410);
+      }
+
+      const { data: updates, error: readError } = await supabase
+        .from('location_updates')
+        .select('latitude, longitude, accuracy, recorded_at')
+        .eq('session_id', session.id)
+        .order('recorded_at', { ascending: false })
+        .limit(MAX_TRAIL_POINTS);
+
+      if (readError) {
+        console.error('Error reading location updates:', readError);
+        return jsonResponse({ success: false, message: "Could not read location" }, 500);
+      }
+
+      const trail = (updates ?? []).reverse().map(update => ({
+        latitude: Number(update.latitude),
+        longitude: Number(update.longitude),
+        accuracy: update.accuracy === null ? null : Number(update.accuracy),
+        timestamp: update.recorded_at
+      }));
+
+      return jsonResponse({
+        success: true,
+        data: {
+          expiresAt: session.expires_at,
+          latest: trail[trail.length - 1] ?? null,
+          trail
+        }
+      }, 200);
+    }
+
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+    }
+
+    if (route === 'start') {
+      // The session belongs to whoever the JWT belongs to; a body userId can only confirm it
+      const { userId: claimedUserId } = await req.json().catch(() => ({}));
+      const context = requestContext(req, 'location-tracking');
+      const auth = await authorizeRequest(supabase, req, context, claimedUserId, alertRateLimits().perIp);
+      if (!auth.ok) {
+        return rejectionResponse(auth, corsHeaders);
+      }
+      const userId = auth.userId;
+
+      const token = randomToken();
+      const writeKey = randomToken();
+      const expiresAt = new Date(Date.now() + SESSION_HOURS * 60 * 60 * 1000).toISOString();
+
+      const { data: session, error: createError } = await supabase
+        .from('tracking_sessions')
+        .insert({
+          user_id: userId,
+          token,
+          write_key_hash: await sha256(writeKey),
+          expires_at: expiresAt
+        })
+        .select('id')
+        .single();
+
+      if (createError || !session) {
+        console.error('Error creating tracking session:', createError);
+        return jsonResponse({ success: false, message: "Could not start tracking" }, 500);
+      }
+
+      return jsonResponse({
+        success: true,
+        data: { sessionId: session.id, token, writeKey, expiresAt }
+      }, 200);
+    }
+
+    if (route !== 'update' && route !== 'end') {
+      return jsonResponse({ success: false, message: `Unknown route: ${route}` }, 404);
+    }
+
+    const { sessionId, writeKey, points = [] }: UpdateRequest = await req.json();
+    if (!sessionId || !writeKey) {
+      return jsonResponse({ success: false, message: "Session ID and write key are required" }, 400);
+    }
+
+    const { data: session } = await supabase
+      .from('tracking_sessions')
+      .select('id, write_key_hash, expires_at, ended_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session || session.write_key_hash !== await sha256(writeKey)) {
+      return jsonResponse({ success: false, message: "Tracking session not found" }, 404);
+    }
+
+    if (route === 'end') {
+      await supabase
+        .from('tracking_sessions')
+        .update({ ended_at: new Date().toISOString() })
+        .eq('id', sessionId);
+      return jsonResponse({ success: true, message: "Tracking ended" }, 200);
+    }
+
+    if (session.ended_at || new Date(session.expires_at).getTime() < Date.now()) {
+      return jsonResponse({ success: false, message: "Tracking session has expired" }, 410);
+    }
+
+    if (!Array.isArray(points) || points.length === 0 || points.length > MAX_POINTS_PER_UPDATE) {
+      return jsonResponse({ success: false, message: `Send between 1 and ${MAX_POINTS_PER_UPDATE} points` }, 400);
+    }
+
+    if (!points.every(isValidPoint)) {
+      return jsonResponse({ success: false, message: "Invalid location point" }, 400);
+    }
+
+    const { error: insertError } = await supabase
+      .from('location_updates')
+      .insert(points.map(point => ({
+        session_id: sessionId,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        accuracy: point.accuracy ?? null,
+        recorded_at: point.timestamp
+      })));
+
+    if (insertError) {
+      console.error('Error storing location updates:', insertError);
+      return jsonResponse({ success: false, message: "Could not store location" }, 500);
+    }
+
+    return jsonResponse({ success: true, message: `Stored ${points.length} location update(s)` }, 200);
+
+  } catch (error) {
+    console.error('Error in location-tracking function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,234 @@
+/*
+  # All-Clear Function
+
+  1. Function Purpose
+    - Closes an incident when the user says they are safe, or that the alert was a false alarm
+    - Sends a reassurance message only to the contacts the original alert reached, on the same
+      channel it reached them on
+
+  2. Input Parameters
+    - `Authorization` header - The user's Supabase Auth JWT
+    - `userId` (optional) - Unique identifier for the user; must match the JWT
+    - `alertId` - The alert being closed
+    - `resolution` - `resolved` (the user is safe, default) or `cancelled` (false alarm)
+    - `reason` - Optional note from the user, included in the message
+
+  3. Process
+    - Verify the caller's JWT (`_shared/security.ts`) and check the alert belongs to them
+    - Move it from open/acknowledged to resolved/cancelled with the resolution time and reason;
+      an incident that is already closed is returned as is and nothing is sent again
+    - Send the all-clear to every contact with a `sent` result on the original alert or on one
+      of its escalations
+    - Store the all-clear results on the alert and return the incident state
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { CHANNEL_TYPES, createChannels } from '../_shared/channels.ts';
+import {
+  AlertContact,
+  dispatchToContacts,
+  fetchAlertProfile,
+  notifiedResults,
+} from '../_shared/dispatch.ts';
+import {
+  authorizeRequest,
+  rejectionResponse,
+  requestContext,
+} from '../_shared/security.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+interface AllClearRequest {
+  userId?: string; // optional; must match the signed-in user when given
+  alertId: string;
+  resolution?: 'resolved' | 'cancelled';
+  reason?: string;
+}
+
+interface IncidentRow {
+  status: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  resolution_reason: string | null;
+}
+
+const MAX_REASON_LENGTH = 200;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const toIncident = (alert: IncidentRow) => ({
+  status: alert.status,
+  acknowledgedAt: alert.acknowledged_at,
+  resolvedAt: alert.resolved_at,
+  resolutionReason: alert.resolution_reason,
+});
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+  }
+
+  try {
+    // Parse request body
+    const body: AllClearRequest = await req.json();
+    const { alertId, resolution = 'resolved', reason } = body;
+
+    if (!alertId) {
+      return jsonResponse({ success: false, message: "Alert ID is required" }, 400);
+    }
+
+    if (resolution !== 'resolved' && resolution !== 'cancelled') {
+      return jsonResponse({ success: false, message: "Resolution must be resolved or cancelled" }, 400);
+    }
+
+    const resolutionReason = reason?.trim().slice(0, MAX_REASON_LENGTH) || null;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Only the signed-in owner of the alert can close it
+    const auth = await authorizeRequest(supabase, req, requestContext(req, 'send-all-clear'), body.userId);
+    if (!auth.ok) {
+      return rejectionResponse(auth, corsHeaders);
+    }
+    const userId = auth.userId;
+
+    const { data: alert } = await supabase
+      .from('emergency_alerts')
+      .select('id, user_id, status, acknowledged_at, resolved_at, resolution_reason, alert_data, created_at')
+      .eq('id', alertId)
+      .maybeSingle();
+
+    if (!alert || String(alert.user_id) !== userId) {
+      return jsonResponse({ success: false, message: "Alert not found" }, 404);
+    }
+
+    // Close the incident first; the status guard makes a repeated all-clear a no-op
+    const { data: closed, error: closeError } = await supabase
+      .from('emergency_alerts')
+      .update({
+        status: resolution,
+        resolved_at: new Date().toISOString(),
+        resolution_reason: resolutionReason,
+      })
+      .eq('id', alertId)
+      .in('status', ['open', 'acknowledged'])
+      .select('status, acknowledged_at, resolved_at, resolution_reason');
+
+    if (closeError) {
+      console.error('Error closing incident:', closeError);
+      return jsonResponse({ success: false, message: "Could not close the incident" }, 500);
+    }
+
+    if (!closed || closed.length === 0) {
+      return jsonResponse({
+        success: true,
+        message: `Incident is already ${alert.status}`,
+        data: { alertId, incident: toIncident(alert), contactsNotified: 0, totalContacts: 0, results: [] }
+      }, 200);
+    }
+
+    const incident = toIncident(closed[0]);
+    // Contacts reached later by the escalation ladder are reassured too, once each
+    const { data: escalations } = await supabase
+      .from('incident_events')
+      .select('detail')
+      .eq('alert_id', alertId)
+      .like('event_type', 'escalation_%');
+
+    const reached = [
+      ...notifiedResults(alert.alert_data),
+      ...(escalations ?? []).flatMap((event: { detail: { results?: unknown } | null }) => notifiedResults(event.detail?.results))
+    ].filter((result, index, all) =>
+      all.findIndex(other => other.contact === result.contact && other.phone === result.phone) === index
+    );
+
+    if (reached.length === 0) {
+      return jsonResponse({
+        success: true,
+        message: "Incident closed; no contacts had been notified",
+        data: { alertId, incident, contactsNotified: 0, totalContacts: 0, results: [] }
+      }, 200);
+    }
+
+    // Reach each contact the way the alert reached them, with their current address for it
+    const userProfile = await fetchAlertProfile(supabase, userId);
+    const userName = userProfile?.name || 'Aura User';
+    const recipients: AlertContact[] = reached.map(result => {
+      const contact = userProfile?.contacts.find(c => c.name === result.contact && c.phoneNumber === result.phone);
+      return contact
+        ? { ...contact, channel: CHANNEL_TYPES.includes(result.channel) ? result.channel : 'sms' }
+        : { id: '', name: result.contact, phoneNumber: result.phone, channel: 'sms' };
+    });
+
+    const alertTime = new Date(alert.created_at).toLocaleString();
+    const reasonLine = resolutionReason ? `\n\nThey said: "${resolutionReason}"` : '';
+    const allClearMessage = resolution === 'cancelled'
+      ? `✅ FALSE ALARM from Aura\n\nThe emergency alert ${userName} sent at ${alertTime} was a false alarm. They are safe and no action is needed.${reasonLine}\n\n- Aura Personal Safety`
+      : `✅ ALL CLEAR from Aura\n\n${userName} is safe and has closed the emergency alert sent at ${alertTime}.${reasonLine}\n\nThank you for being there for them.\n\n- Aura Personal Safety`;
+
+    const results = await dispatchToContacts(recipients, {
+      alertId,
+      alertType: resolution === 'cancelled' ? 'ALERT_CANCELLED' : 'ALL_CLEAR',
+      subject: resolution === 'cancelled' ? `False alarm: ${userName} is safe` : `All clear: ${userName} is safe`,
+      body: allClearMessage,
+    }, createChannels());
+
+    try {
+      await supabase
+        .from('emergency_alerts')
+        .update({ all_clear_data: results })
+        .eq('id', alertId);
+    } catch (logError) {
+      console.error('Error logging all-clear:', logError);
+      // Don't fail the request if logging fails
+    }
+
+    const successCount = results.filter(r => r.status === 'sent').length;
+
+    return jsonResponse({
+      success: true,
+      message: `All-clear sent to ${successCount}/${results.length} contacts`,
+      data: {
+        alertId,
+        incident,
+        contactsNotified: successCount,
+        totalContacts: results.length,
+        results
+      }
+    }, 200);
+
+  } catch (error) {
+    console.error('Error in send-all-clear function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -4,46 +4,84 @@
   # Aura Emergency Alert Function
   
   1. Function Purpose
-    - Sends emergency SMS alerts to user's emergency contacts
+    - Sends emergency alerts to user's emergency contacts
     - Triggered when threat is detected by the AI system
     - Includes user's location and emergency message
   
   2. Input Parameters
-    - `userId` - Unique identifier for the user
+    - `Authorization` header - The user's Supabase Auth JWT
+    - `userId` (optional) - Unique identifier for the user; must match the JWT
     - `latitude` - User's current latitude
     - `longitude` - User's current longitude
+    - `escalationPolicy` (optional) - The user's escalation settings, stored for this and later alerts
+    - `idempotencyKey` (optional, or the `Idempotency-Key` header) - Identifies retries of one request
+    - `triggerSource` (optional) - What raised the alert, e.g. `voice`
   
   3. Process
+    - Verify the caller's JWT and apply the per-IP and per-user rate limits
+      (`_shared/security.ts`); rejected requests are logged to `security_audit_log`
+    - Fold retries and repeated triggers into the incident already under way
+      (`_shared/dedupe.ts`), logging them on its timeline instead of alerting contacts again
     - Fetch user profile and emergency contacts from database
     - Construct alert message with location link
-    - Send SMS to all emergency contacts via Twilio
+    - Send to every primary emergency contact on their chosen channel (SMS, email or webhook)
+      through the shared dispatcher in `_shared/dispatch.ts`
+    - Each copy says how to acknowledge it: reply to the SMS or tap the one-tap link
+    - Schedule the escalation ladder (`_shared/escalation.ts`) for when nobody acknowledges
     - Return success/failure response
 */
 
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ackInstructions } from '../_shared/acknowledgements.ts';
+import { createChannels } from '../_shared/channels.ts';
+import {
+  buildTrackingLine,
+  createAlertRecord,
+  dispatchToContacts,
+  fetchAlertProfile,
+  primaryContacts,
+  recordDispatch,
+  resolveChannel,
+} from '../_shared/dispatch.ts';
+import {
+  AlertTrigger,
+  AlertTriggerSource,
+  describeDuplicate,
+  duplicateResponseData,
+  ExistingIncident,
+  findExistingIncident,
+  readAlertTrigger,
+  recordDuplicateTrigger,
+} from '../_shared/dedupe.ts';
+import {
+  EscalationPolicy,
+  loadEscalationPolicy,
+  normalizePolicy,
+  saveEscalationPolicy,
+  scheduleEscalation,
+} from '../_shared/escalation.ts';
+import {
+  alertRateLimits,
+  authorizeRequest,
+  checkUserRateLimit,
+  rejectionResponse,
+  requestContext,
+} from '../_shared/security.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Idempotency-Key",
 };
 
 interface AlertRequest {
-  userId: string;
+  userId?: string; // optional; must match the signed-in user when given
   latitude: number;
   longitude: number;
-}
-
-interface EmergencyContact {
-  id: string;
-  name: string;
-  phoneNumber: string;
-}
-
-interface UserProfile {
-  id: string;
-  name: string;
-  emergencyContacts: EmergencyContact[];
+  trackingToken?: string; // live tracking session started by the client
+  escalationPolicy?: Partial<EscalationPolicy>; // the user's current ladder settings
+  idempotencyKey?: string; // also accepted as the Idempotency-Key header
+  triggerSource?: AlertTriggerSource;
 }
 
 Deno.serve(async (req: Request) => {
@@ -57,40 +95,55 @@ Deno.serve(async (req: Request) => {
 
   try {
     // Parse request body
-    const { userId, latitude, longitude }: AlertRequest = await req.json();
+    const body: AlertRequest = await req.json();
+    const { latitude, longitude, trackingToken, escalationPolicy } = body;
 
-    if (!userId) {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The user is whoever the JWT belongs to; a body userId can only confirm it
+    const context = requestContext(req, 'send-aura-alert');
+    const limits = alertRateLimits();
+    const auth = await authorizeRequest(supabase, req, context, body.userId, limits.perIp);
+    if (!auth.ok) {
+      return rejectionResponse(auth, corsHeaders);
+    }
+    const userId = auth.userId;
+
+    // Retries and repeated triggers join the incident already under way instead of alerting again
+    const trigger: AlertTrigger = { ...readAlertTrigger(req, body, 'AURA_THREAT'), latitude, longitude };
+    const collapseInto = async (existing: ExistingIncident) => {
+      await recordDuplicateTrigger(supabase, existing, trigger);
       return new Response(
-        JSON.stringify({ success: false, message: "User ID is required" }),
+        JSON.stringify({
+          success: true,
+          message: describeDuplicate(existing),
+          ...duplicateResponseData(existing)
+        }),
         {
-          status: 400,
+          status: 200,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         }
       );
+    };
+
+    const existingIncident = await findExistingIncident(supabase, userId, trigger);
+    if (existingIncident) {
+      return await collapseInto(existingIncident);
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    // Only requests that would message contacts count against the user's limit
+    const allowed = await checkUserRateLimit(supabase, context, userId, limits.perUser);
+    if (!allowed.ok) {
+      return rejectionResponse(allowed, corsHeaders);
+    }
 
     // Fetch user profile and emergency contacts
-    const { data: userProfile, error: fetchError } = await supabase
-      .from('user_profiles')
-      .select(`
-        id,
-        name,
-        emergency_contacts (
-          id,
-          name,
-          phone_number
-        )
-      `)
-      .eq('id', userId)
-      .single();
-
-    if (fetchError || !userProfile) {
-      console.error('Error fetching user profile:', fetchError);
+    const userProfile = await fetchAlertProfile(supabase, userId);
+
+    if (!userProfile) {
       return new Response(
         JSON.stringify({ success: false, message: "User profile not found" }),
         {
@@ -100,7 +153,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const emergencyContacts = userProfile.emergency_contacts || [];
+    const emergencyContacts = userProfile.contacts;
 
     if (emergencyContacts.length === 0) {
       return new Response(
@@ -113,24 +166,23 @@ Deno.serve(async (req: Request) => {
     }
 
     // Construct alert message
-    const userName = userProfile.name || 'Aura User';
+    const userName = userProfile.name;
     const locationLink = latitude && longitude 
       ? `https://www.google.com/maps?q=${latitude},${longitude}`
       : 'Location unavailable';
+    const trackingLine = await buildTrackingLine(supabase, userId, trackingToken);
     
-    const alertMessage = `🚨 EMERGENCY ALERT from Aura 🚨\n\n${userName} may be in danger and needs immediate assistance.\n\nLive location: ${locationLink}\n\nThis is an automated safety alert. Please check on them immediately or contact emergency services if you cannot reach them.\n\n- Aura Personal Safety`;
+    const alertMessage = `🚨 EMERGENCY ALERT from Aura 🚨\n\n${userName} may be in danger and needs immediate assistance.\n\nLocation: ${locationLink}${trackingLine}\n\nThis is an automated safety alert. Please check on them immediately or contact emergency services if you cannot reach them.\n\n- Aura Personal Safety`;
 
-    // Initialize Twilio (you'll need to add these environment variables)
-    const twilioAccountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
-    const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
-    const twilioPhoneNumber = Deno.env.get('TWILIO_PHONE_NUMBER');
+    // Each contact is reached on their own channel, falling back to SMS
+    const channels = createChannels();
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.error('Twilio credentials not configured');
+    if (!emergencyContacts.some(contact => resolveChannel(contact, channels))) {
+      console.error('No notification channel configured for any contact');
       return new Response(
         JSON.stringify({ 
           success: false, 
-          message: "SMS service not configured" 
+          message: "Notification service not configured" 
         }),
         {
           status: 500,
@@ -139,70 +191,45 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Send SMS to each emergency contact
-    const results: any[] = [];
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-    const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-
-    for (const contact of emergencyContacts) {
-      try {
-        const response = await fetch(twilioUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Authorization': `Basic ${twilioAuth}`,
-          },
-          body: new URLSearchParams({
-            From: twilioPhoneNumber,
-            To: contact.phone_number,
-            Body: alertMessage,
-          }),
-        });
-
-        const result = await response.json();
-        
-        if (response.ok) {
-          results.push({
-            contact: contact.name,
-            phone: contact.phone_number,
-            status: 'sent',
-            messageId: result.sid
-          });
-        } else {
-          results.push({
-            contact: contact.name,
-            phone: contact.phone_number,
-            status: 'failed',
-            error: result.message || 'Unknown error'
-          });
-        }
-      } catch (error) {
-        results.push({
-          contact: contact.name,
-          phone: contact.phone_number,
-          status: 'failed',
-          error: (error as Error).message || 'Unknown error'
-        });
-      }
+    // Create the alert before sending, so delivery receipts always have an alert to attach to
+    const alertId = crypto.randomUUID();
+    const created = await createAlertRecord(supabase, {
+      alertId,
+      userId,
+      latitude,
+      longitude,
+      message: alertMessage,
+      idempotencyKey: trigger.idempotencyKey,
+      triggerSource: trigger.triggerSource,
+      alertType: trigger.alertType,
+    });
+
+    // A concurrent request with the same idempotency key won the race
+    const original = created ? null : await findExistingIncident(supabase, userId, trigger);
+    if (original) {
+      return await collapseInto(original);
     }
 
-    // Log alert in database for record keeping
-    try {
-      await supabase
-        .from('emergency_alerts')
-        .insert({
-          user_id: userId,
-          latitude: latitude || null,
-          longitude: longitude || null,
-          message: alertMessage,
-          contacts_notified: results.filter(r => r.status === 'sent').length,
-          alert_data: results,
-          created_at: new Date().toISOString()
-        });
-    } catch (logError) {
-      console.error('Error logging alert:', logError);
-      // Don't fail the request if logging fails
+    // Send to each emergency contact
+    const results = await dispatchToContacts(primaryContacts(emergencyContacts), {
+      alertId,
+      alertType: 'AURA_THREAT',
+      subject: `🚨 EMERGENCY ALERT: ${userName} may be in danger`,
+      body: alertMessage,
+      statusCallback: `${supabaseUrl}/functions/v1/sms-status-callback?alertId=${alertId}`,
+    }, channels, (contact, channel) => ackInstructions(contact, channel, alertId, userName));
+
+    // Record the results on the alert
+    await recordDispatch(supabase, alertId, results, results);
+
+    // Put the incident on the escalation ladder in case nobody acknowledges it
+    const policy = escalationPolicy
+      ? normalizePolicy(escalationPolicy)
+      : await loadEscalationPolicy(supabase, userId);
+    if (escalationPolicy) {
+      await saveEscalationPolicy(supabase, userId, policy);
     }
+    await scheduleEscalation(supabase, alertId, policy);
 
     const successCount = results.filter(r => r.status === 'sent').length;
     const totalCount = results.length;
@@ -211,6 +238,7 @@ Deno.serve(async (req: Request) => {
       JSON.stringify({
         success: successCount > 0,
         message: `Emergency alert sent to ${successCount}/${totalCount} contacts`,
+        alertId,
         results: results,
         location: { latitude, longitude },
         timestamp: new Date().toISOString()
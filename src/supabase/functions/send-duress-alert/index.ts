@@ -0,0 +1,264 @@
+/*
+  # Duress Alert Function
+
+  1. Function Purpose
+    - Sends a silent, high-priority alert when the user enters their duress PIN or says their
+      duress phrase, i.e. when somebody is forcing them to cancel an alert
+    - On the phone this looks exactly like a normal cancel or all-clear, so nothing here may
+      reach the user: contacts are told not to call or text back
+    - Recorded with its own alert type (`DURESS`) and trigger source (`duress_pin` or
+      `duress_phrase`)
+
+  2. Input Parameters
+    - `Authorization` header - The user's Supabase Auth JWT
+    - `userId` (optional) - Unique identifier for the user; must match the JWT
+    - `latitude` - User's current latitude
+    - `longitude` - User's current longitude
+    - `trackingToken` (optional) - Live tracking session, kept running for the contacts
+    - `closesAlertId` (optional) - The incident the user was made to close with an all-clear
+    - `resolution` (optional) - `resolved` or `cancelled`, the all-clear they were made to send
+    - `reason` (optional) - Note they typed with it
+    - `escalationPolicy` (optional) - The user's escalation settings
+    - `idempotencyKey` (optional, or the `Idempotency-Key` header) - Identifies retries of one request
+    - `triggerSource` - `duress_pin` or `duress_phrase`
+
+  3. Process
+    - Verify the caller's JWT and apply the per-IP and per-user rate limits (`_shared/security.ts`)
+    - Fold retries into the alert they already created; unlike the other alerts, an open
+      incident never absorbs a duress alert
+    - Close `closesAlertId` the way send-all-clear would, so the app shows it closed, but send no
+      all-clear: the contacts must not think the user is safe
+    - Send the duress alert to every contact, primary and secondary, with the live tracking link
+    - Log it with alert type `DURESS` and schedule the escalation ladder for it
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ackInstructions } from '../_shared/acknowledgements.ts';
+import { createChannels } from '../_shared/channels.ts';
+import {
+  buildTrackingLine,
+  createAlertRecord,
+  dispatchToContacts,
+  fetchAlertProfile,
+  recordDispatch,
+  resolveChannel,
+} from '../_shared/dispatch.ts';
+import {
+  AlertTrigger,
+  describeDuplicate,
+  duplicateResponseData,
+  findExistingIncident,
+  readAlertTrigger,
+  recordDuplicateTrigger,
+} from '../_shared/dedupe.ts';
+import {
+  EscalationPolicy,
+  loadEscalationPolicy,
+  normalizePolicy,
+  saveEscalationPolicy,
+  scheduleEscalation,
+} from '../_shared/escalation.ts';
+import {
+  alertRateLimits,
+  authorizeRequest,
+  checkUserRateLimit,
+  rejectionResponse,
+  requestContext,
+} from '../_shared/security.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Idempotency-Key",
+};
+
+interface DuressAlertRequest {
+  userId?: string; // optional; must match the signed-in user when given
+  latitude: number;
+  longitude: number;
+  trackingToken?: string;
+  closesAlertId?: string;
+  resolution?: 'resolved' | 'cancelled';
+  reason?: string;
+  escalationPolicy?: Partial<EscalationPolicy>;
+  idempotencyKey?: string; // also accepted as the Idempotency-Key header
+  triggerSource?: 'duress_pin' | 'duress_phrase';
+}
+
+const MAX_REASON_LENGTH = 200;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Parse request body
+    const body: DuressAlertRequest = await req.json();
+    const { latitude, longitude, trackingToken, closesAlertId, escalationPolicy } = body;
+    const resolution = body.resolution === 'cancelled' ? 'cancelled' : 'resolved';
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The user is whoever the JWT belongs to; a body userId can only confirm it
+    const context = requestContext(req, 'send-duress-alert');
+    const limits = alertRateLimits();
+    const auth = await authorizeRequest(supabase, req, context, body.userId, limits.perIp);
+    if (!auth.ok) {
+      return rejectionResponse(auth, corsHeaders);
+    }
+    const userId = auth.userId;
+
+    // Only a retry of this same request is folded; the incident under way is what they were forced to cancel
+    const trigger: AlertTrigger = { ...readAlertTrigger(req, body, 'DURESS'), latitude, longitude };
+    const retried = await findExistingIncident(supabase, userId, trigger, 0);
+    if (retried) {
+      await recordDuplicateTrigger(supabase, retried, trigger);
+      return jsonResponse({
+        success: true,
+        message: describeDuplicate(retried),
+        data: duplicateResponseData(retried)
+      }, 200);
+    }
+
+    const allowed = await checkUserRateLimit(supabase, context, userId, limits.perUser);
+    if (!allowed.ok) {
+      return rejectionResponse(allowed, corsHeaders);
+    }
+
+    // Close the incident on the user's screen without reassuring anyone
+    if (closesAlertId) {
+      const { error: closeError } = await supabase
+        .from('emergency_alerts')
+        .update({
+          status: resolution,
+          resolved_at: new Date().toISOString(),
+          resolution_reason: body.reason?.trim().slice(0, MAX_REASON_LENGTH) || null,
+        })
+        .eq('id', closesAlertId)
+        .eq('user_id', userId)
+        .in('status', ['open', 'acknowledged']);
+
+      if (closeError) {
+        // The duress alert matters more than how the old incident looks
+        console.error('Error closing incident under duress:', closeError);
+      }
+    }
+
+    // Fetch user profile and emergency contacts
+    const userProfile = await fetchAlertProfile(supabase, userId);
+
+    if (!userProfile || userProfile.contacts.length === 0) {
+      return jsonResponse({ success: false, message: "No emergency contacts found" }, userProfile ? 400 : 404);
+    }
+
+    const userName = userProfile.name;
+    const locationLink = latitude && longitude
+      ? `https://www.google.com/maps?q=${latitude},${longitude}`
+      : 'Location unavailable';
+    const trackingLine = await buildTrackingLine(supabase, userId, trackingToken);
+
+    const duressMessage = `🚨 DURESS ALERT from Aura 🚨\n\n${userName} has entered their secret duress code. Someone is forcing them to call off their emergency alert, and they are likely in danger right now. Their phone shows that everything is fine.\n\nDo NOT call or text them - it could put them at further risk. Call emergency services and give them this location: ${locationLink}${trackingLine}\n\nIgnore any message saying they are safe.\n\nTime: ${new Date().toLocaleString()}\n\n- Aura Personal Safety System`;
+
+    const channels = createChannels();
+
+    if (!userProfile.contacts.some(contact => resolveChannel(contact, channels))) {
+      console.error('No notification channel configured for any contact');
+      return jsonResponse({ success: false, message: "Notification service not configured" }, 500);
+    }
+
+    // Create the alert before sending, so delivery receipts always have an alert to attach to
+    const alertId = crypto.randomUUID();
+    const created = await createAlertRecord(supabase, {
+      alertId,
+      userId,
+      latitude,
+      longitude,
+      message: duressMessage,
+      idempotencyKey: trigger.idempotencyKey,
+      triggerSource: trigger.triggerSource ?? 'duress_pin',
+      alertType: trigger.alertType,
+    });
+
+    // A concurrent retry of this request won the race
+    const original = created ? null : await findExistingIncident(supabase, userId, trigger, 0);
+    if (original) {
+      return jsonResponse({
+        success: true,
+        message: describeDuplicate(original),
+        data: duplicateResponseData(original)
+      }, 200);
+    }
+
+    // Every contact, secondary ones included: this is the most urgent alert Aura sends
+    const results = (await dispatchToContacts(userProfile.contacts, {
+      alertId,
+      alertType: 'DURESS',
+      subject: `🚨 DURESS ALERT: ${userName} is being forced to cancel their alert`,
+      body: duressMessage,
+      statusCallback: `${supabaseUrl}/functions/v1/sms-status-callback?alertId=${alertId}`,
+    }, channels, (contact, channel) => ackInstructions(contact, channel, alertId, userName)))
+      .map(result => ({ ...result, priority: 'high' }));
+
+    await recordDispatch(supabase, alertId, results, {
+      ...results,
+      alert_type: 'DURESS',
+      priority: 'CRITICAL',
+      trigger_method: trigger.triggerSource ?? 'duress_pin',
+      closed_alert_id: closesAlertId ?? null
+    });
+
+    const policy = escalationPolicy
+      ? normalizePolicy(escalationPolicy)
+      : await loadEscalationPolicy(supabase, userId);
+    if (escalationPolicy) {
+      await saveEscalationPolicy(supabase, userId, policy);
+    }
+    await scheduleEscalation(supabase, alertId, policy);
+
+    const successCount = results.filter(r => r.status === 'sent').length;
+
+    return jsonResponse({
+      success: successCount > 0,
+      message: `Duress alert sent to ${successCount}/${results.length} contacts`,
+      data: {
+        alertId,
+        contactsNotified: successCount,
+        totalContacts: results.length,
+        results,
+        location: { latitude, longitude },
+        timestamp: new Date().toISOString(),
+        alertType: 'DURESS',
+        priority: 'CRITICAL'
+      }
+    }, 200);
+
+  } catch (error) {
+    console.error('Error in send-duress-alert function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
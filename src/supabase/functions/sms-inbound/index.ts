@@ -0,0 +1,162 @@
+/*
+  # SMS Inbound Function
+
+  1. Function Purpose
+    - Twilio's incoming-message webhook for the alert number
+    - Turns a contact's reply to an alert (OK, ON MY WAY, CALLING) into an acknowledgement of the
+      incident, see `_shared/acknowledgements.ts`
+
+  2. Input Parameters
+    - `POST` (from Twilio, form encoded): `From`, `Body`; signed with `X-Twilio-Signature`
+
+  3. Process
+    - Verify the Twilio signature with the account auth token, reject anything unsigned
+    - Find the most recent open or acknowledged incident sent to the number in the last 24 hours
+    - Record the acknowledgement and reply with a TwiML confirmation, or with the accepted
+      answers when the reply was not one of them
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { parseAckReply, recordAcknowledgement } from '../_shared/acknowledgements.ts';
+import { isValidTwilioSignature } from '../_shared/twilio.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Replies only count for alerts sent within this window
+const REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const HELP_TEXT = 'Aura: reply OK, ON MY WAY or CALLING to let them know you have seen their emergency alert.';
+
+const CONFIRMATIONS = {
+  ok: 'Thanks, they have been told you saw the alert.',
+  on_my_way: 'Thanks, they have been told you are on your way.',
+  calling: 'Thanks, they have been told you are calling.',
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Twilio sends whatever is in <Message> back to the contact
+ */
+const twimlResponse = (message: string | null) =>
+  new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Response>${message ? `<Message>${escapeXml(message)}</Message>` : ''}</Response>`,
+    {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "text/xml" },
+    }
+  );
+
+/**
+ * Numbers are compared on their last 10 digits, so "+1 (555) 123-4567" matches "+15551234567"
+ */
+const numberSuffix = (phone: string): string => phone.replace(/\D/g, '').slice(-10);
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+  }
+
+  try {
+    const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    if (!twilioAuthToken) {
+      console.error('Twilio credentials not configured');
+      return jsonResponse({ success: false, message: "SMS service not configured" }, 500);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const params = new URLSearchParams(await req.text());
+    const signature = req.headers.get('X-Twilio-Signature') ?? '';
+    // Twilio signs the public URL it called, not the URL the function sees internally
+    const publicUrl = `${supabaseUrl}/functions/v1/sms-inbound${new URL(req.url).search}`;
+
+    if (!signature || !(await isValidTwilioSignature(twilioAuthToken, publicUrl, params, signature))) {
+      console.error('Rejected inbound SMS with invalid Twilio signature');
+      return jsonResponse({ success: false, message: "Invalid signature" }, 403);
+    }
+
+    const from = params.get('From') ?? '';
+    const suffix = numberSuffix(from);
+    if (suffix.length < 7) {
+      return twimlResponse(null);
+    }
+
+    const response = parseAckReply(params.get('Body') ?? '');
+    if (!response) {
+      return twimlResponse(HELP_TEXT);
+    }
+
+    // Latest alert message sent to this number, whose incident is still running
+    const { data: deliveries, error: readError } = await supabase
+      .from('sms_deliveries')
+      .select('alert_id, contact_name, phone_number, created_at, emergency_alerts!inner(status)')
+      .like('phone_number', `%${suffix}`)
+      .in('emergency_alerts.status', ['open', 'acknowledged'])
+      .gte('created_at', new Date(Date.now() - REPLY_WINDOW_MS).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (readError) {
+      console.error('Error finding alert for reply:', readError);
+      return jsonResponse({ success: false, message: "Could not read alerts" }, 500);
+    }
+
+    const delivery = deliveries?.[0];
+    if (!delivery?.alert_id) {
+      return twimlResponse('Aura: there is no active emergency alert for this number.');
+    }
+
+    const recorded = await recordAcknowledgement(supabase, {
+      alertId: delivery.alert_id,
+      contactName: delivery.contact_name || from,
+      phoneNumber: delivery.phone_number,
+      response,
+      via: 'sms',
+    });
+
+    return twimlResponse(recorded
+      ? `Aura: ${CONFIRMATIONS[response]}`
+      : 'Aura: this emergency alert has already been closed.');
+
+  } catch (error) {
+    console.error('Error in sms-inbound function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
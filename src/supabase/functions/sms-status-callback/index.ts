@@ -0,0 +1,234 @@
+/*
+  # SMS Status Callback Function
+
+  1. Function Purpose
+    - Receives Twilio delivery receipts for alert messages (the `StatusCallback` of send-sos-alert
+      and send-aura-alert)
+    - Records the latest status of every message SID in `sms_deliveries`
+    - Lets the client read per-contact delivery status for an alert, since "sent" from the alert
+      functions only means Twilio accepted the message
+
+  2. Input Parameters
+    - `POST` (from Twilio, form encoded): `MessageSid`, `MessageStatus`, `To`, `ErrorCode`,
+      plus `alertId` in the query string; signed with `X-Twilio-Signature`
+    - `GET` (from the client): `alertId` query parameter and the user's JWT in `Authorization`;
+      `userId` may be given too but must match the JWT
+
+  3. Process
+    - Verify the Twilio signature with the account auth token, reject anything unsigned
+    - Ignore receipts that arrive out of order (e.g. `sent` after `delivered`)
+    - Insert or update the delivery row for the message SID
+    - For `GET`, verify the JWT, check the alert belongs to the user and return its delivery rows,
+      contact acknowledgements and incident status
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  authorizeRequest,
+  rejectionResponse,
+  requestContext,
+} from '../_shared/security.ts';
+import { isValidTwilioSignature } from '../_shared/twilio.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+type DeliveryStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+// Later states win; receipts can arrive out of order
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  queued: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  undelivered: 3,
+  failed: 3,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Twilio's "accepted" and "scheduled" are queued as far as the contact is concerned
+ */
+const normalizeStatus = (status: string): DeliveryStatus | null => {
+  if (status === 'accepted' || status === 'scheduled') return 'queued';
+  return status in STATUS_RANK ? status as DeliveryStatus : null;
+};
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const requestUrl = new URL(req.url);
+    const alertId = requestUrl.searchParams.get('alertId');
+
+    // Client reading delivery status for one of its alerts
+    if (req.method === "GET") {
+      if (!alertId || !UUID_PATTERN.test(alertId)) {
+        return jsonResponse({ success: false, message: "alertId is required" }, 400);
+      }
+
+      const auth = await authorizeRequest(
+        supabase,
+        req,
+        requestContext(req, 'sms-status-callback'),
+        requestUrl.searchParams.get('userId')
+      );
+      if (!auth.ok) {
+        return rejectionResponse(auth, corsHeaders);
+      }
+      const userId = auth.userId;
+
+      const { data: alert } = await supabase
+        .from('emergency_alerts')
+        .select('id, user_id, status, acknowledged_at, resolved_at, resolution_reason')
+        .eq('id', alertId)
+        .maybeSingle();
+
+      if (!alert || String(alert.user_id) !== userId) {
+        return jsonResponse({ success: false, message: "Alert not found" }, 404);
+      }
+
+      const { data: deliveries, error: readError } = await supabase
+        .from('sms_deliveries')
+        .select('message_sid, contact_name, phone_number, status, error_code, updated_at')
+        .eq('alert_id', alertId);
+
+      if (readError) {
+        console.error('Error reading deliveries:', readError);
+        return jsonResponse({ success: false, message: "Could not read delivery status" }, 500);
+      }
+
+      const { data: acknowledgements } = await supabase
+        .from('contact_acknowledgements')
+        .select('contact_name, phone_number, response, via, acknowledged_at')
+        .eq('alert_id', alertId)
+        .order('acknowledged_at', { ascending: true });
+
+      return jsonResponse({
+        success: true,
+        data: {
+          alertId,
+          incident: {
+            status: alert.status,
+            acknowledgedAt: alert.acknowledged_at,
+            resolvedAt: alert.resolved_at,
+            resolutionReason: alert.resolution_reason
+          },
+          deliveries: (deliveries ?? []).map(delivery => ({
+            messageSid: delivery.message_sid,
+            contactName: delivery.contact_name,
+            phoneNumber: delivery.phone_number,
+            status: delivery.status,
+            errorCode: delivery.error_code,
+            updatedAt: delivery.updated_at
+          })),
+          acknowledgements: (acknowledgements ?? []).map(ack => ({
+            contactName: ack.contact_name,
+            phoneNumber: ack.phone_number,
+            response: ack.response,
+            via: ack.via,
+            acknowledgedAt: ack.acknowledged_at
+          }))
+        }
+      }, 200);
+    }
+
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+    }
+
+    // Twilio delivery receipt
+    const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    if (!twilioAuthToken) {
+      console.error('Twilio credentials not configured');
+      return jsonResponse({ success: false, message: "SMS service not configured" }, 500);
+    }
+
+    const params = new URLSearchParams(await req.text());
+    const signature = req.headers.get('X-Twilio-Signature') ?? '';
+    // Twilio signs the public URL it called, not the URL the function sees internally
+    const publicUrl = `${supabaseUrl}/functions/v1/sms-status-callback${requestUrl.search}`;
+
+    if (!signature || !(await isValidTwilioSignature(twilioAuthToken, publicUrl, params, signature))) {
+      console.error('Rejected status callback with invalid Twilio signature');
+      return jsonResponse({ success: false, message: "Invalid signature" }, 403);
+    }
+
+    const messageSid = params.get('MessageSid');
+    const status = normalizeStatus(params.get('MessageStatus') ?? '');
+    if (!messageSid || !status) {
+      // Acknowledge so Twilio does not keep calling about statuses we do not track
+      return jsonResponse({ success: true, message: "Ignored" }, 200);
+    }
+
+    const { data: existing } = await supabase
+      .from('sms_deliveries')
+      .select('id, status')
+      .eq('message_sid', messageSid)
+      .maybeSingle();
+
+    if (existing && STATUS_RANK[existing.status as DeliveryStatus] >= STATUS_RANK[status]) {
+      return jsonResponse({ success: true, message: "Stale status ignored" }, 200);
+    }
+
+    const errorCode = params.get('ErrorCode') || null;
+    const { error: writeError } = existing
+      ? await supabase
+        .from('sms_deliveries')
+        .update({ status, error_code: errorCode })
+        .eq('id', existing.id)
+      : await supabase
+        .from('sms_deliveries')
+        .insert({
+          message_sid: messageSid,
+          // The receipt can beat the alert function's own insert; it fills in the contact later
+          alert_id: alertId && UUID_PATTERN.test(alertId) ? alertId : null,
+          phone_number: params.get('To'),
+          status,
+          error_code: errorCode
+        });
+
+    if (writeError) {
+      console.error('Error recording delivery status:', writeError);
+      return jsonResponse({ success: false, message: "Could not record delivery status" }, 500);
+    }
+
+    return jsonResponse({ success: true, message: `Recorded ${status} for ${messageSid}` }, 200);
+
+  } catch (error) {
+    console.error('Error in sms-status-callback function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: "Internal server error",
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
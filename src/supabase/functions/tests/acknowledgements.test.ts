@@ -0,0 +1,66 @@
+/*
+  # Acknowledgement Tests
+
+  Run with `deno test --allow-env src/supabase/functions/tests/`.
+*/
+
+import assert from 'node:assert/strict';
+import { createAckToken, parseAckReply, verifyAckToken } from '../_shared/acknowledgements.ts';
+
+Deno.test('parseAckReply recognises each answer', () => {
+  const cases: Array<[string, ReturnType<typeof parseAckReply>]> = [
+    ['OK', 'ok'],
+    ['ok!', 'ok'],
+    ['Got it, thanks', 'ok'],
+    ['yes', 'ok'],
+    ['On my way', 'on_my_way'],
+    ['omw', 'on_my_way'],
+    ['Coming now', 'on_my_way'],
+    ['Calling you', 'calling'],
+    ['Will call in a sec', 'calling'],
+    ['called 911', 'calling'],
+  ];
+
+  for (const [reply, expected] of cases) {
+    assert.equal(parseAckReply(reply), expected, reply);
+  }
+});
+
+Deno.test('parseAckReply ignores replies that are not answers', () => {
+  for (const reply of ['', 'who is this?', 'STOP', 'hello']) {
+    assert.equal(parseAckReply(reply), null, reply);
+  }
+});
+
+Deno.test('parseAckReply rejects negated replies', () => {
+  const negated = [
+    'NOT COMING',
+    "I'm not on my way",
+    "Can't come",
+    'cant come right now',
+    'Can’t call, driving',
+    "Won't be calling",
+    "don't think I'm coming",
+    'Nobody called',
+    'No one is coming',
+    'Unable to come',
+    'Cannot call',
+    'OK but not coming',
+    "Ok, I couldn't get through calling",
+    'No',
+  ];
+
+  for (const reply of negated) {
+    assert.equal(parseAckReply(reply), null, reply);
+  }
+});
+
+Deno.test('ack tokens verify only with the secret that signed them', async () => {
+  const claims = { alertId: crypto.randomUUID(), contactId: crypto.randomUUID() };
+  const token = await createAckToken(claims, 'secret-a');
+
+  assert.deepEqual(await verifyAckToken(token, 'secret-a'), claims);
+  assert.equal(await verifyAckToken(token, 'secret-b'), null);
+  assert.equal(await verifyAckToken(`${token}x`, 'secret-a'), null);
+  assert.equal(await verifyAckToken('not-a-token', 'secret-a'), null);
+});
@@ -0,0 +1,136 @@
+/*
+  # Channel Dispatch Tests
+
+  Run with `deno test --allow-env src/supabase/functions/tests/`. Every channel is an
+  `InMemoryChannel`, so nothing reaches a provider.
+*/
+
+import assert from 'node:assert/strict';
+import { ChannelType, InMemoryChannel, OutboundNotification } from '../_shared/channels.ts';
+import { AlertContact, dispatchToContacts, resolveChannel } from '../_shared/dispatch.ts';
+
+/**
+ * Fake channel whose provider account is missing
+ */
+class UnconfiguredChannel extends InMemoryChannel {
+  override isConfigured(): boolean {
+    return false;
+  }
+}
+
+const notification: OutboundNotification = {
+  alertId: 'alert-1',
+  alertType: 'SOS_PANIC',
+  subject: 'SOS',
+  body: 'Help needed',
+};
+
+const contact = (overrides: Partial<AlertContact>): AlertContact => ({
+  id: crypto.randomUUID(),
+  name: 'Sam',
+  phoneNumber: '+15550000001',
+  channel: 'sms',
+  ...overrides,
+});
+
+const fakeChannels = (overrides: Partial<Record<ChannelType, InMemoryChannel>> = {}): Record<ChannelType, InMemoryChannel> => ({
+  sms: new InMemoryChannel('sms'),
+  email: new InMemoryChannel('email'),
+  webhook: new InMemoryChannel('webhook'),
+  ...overrides,
+});
+
+Deno.test('resolveChannel uses the contact\'s own channel when it can reach them', () => {
+  const channels = fakeChannels();
+  const resolved = resolveChannel(contact({ channel: 'email', email: 'sam@example.com' }), channels);
+  assert.equal(resolved, channels.email);
+});
+
+Deno.test('resolveChannel falls back to SMS when the contact has no address for their channel', () => {
+  const channels = fakeChannels();
+  assert.equal(resolveChannel(contact({ channel: 'email', email: null }), channels), channels.sms);
+  assert.equal(resolveChannel(contact({ channel: 'webhook', webhookUrl: null }), channels), channels.sms);
+});
+
+Deno.test('resolveChannel falls back to SMS when the contact\'s channel is not configured', () => {
+  const channels = fakeChannels({ email: new UnconfiguredChannel('email') });
+  assert.equal(resolveChannel(contact({ channel: 'email', email: 'sam@example.com' }), channels), channels.sms);
+});
+
+Deno.test('resolveChannel gives up when SMS cannot reach the contact either', () => {
+  const noPhone = contact({ channel: 'email', email: null, phoneNumber: '' });
+  assert.equal(resolveChannel(noPhone, fakeChannels()), null);
+
+  const smsDown = fakeChannels({ sms: new UnconfiguredChannel('sms'), email: new UnconfiguredChannel('email') });
+  assert.equal(resolveChannel(contact({ channel: 'email', email: 'sam@example.com' }), smsDown), null);
+});
+
+Deno.test('dispatchToContacts sends each contact on their resolved channel, in order', async () => {
+  const channels = fakeChannels();
+  const contacts = [
+    contact({ name: 'Ana', channel: 'email', email: 'ana@example.com' }),
+    contact({ name: 'Ben', channel: 'webhook', webhookUrl: 'https://example.com/hook' }),
+    contact({ name: 'Cy', channel: 'email', email: null }),
+  ];
+
+  const results = await dispatchToContacts(contacts, notification, channels);
+
+  assert.deepEqual(results.map(r => [r.contact, r.channel, r.status]), [
+    ['Ana', 'email', 'sent'],
+    ['Ben', 'webhook', 'sent'],
+    ['Cy', 'sms', 'sent'],
+  ]);
+  assert.deepEqual(channels.sms.sent.map(m => m.recipient.name), ['Cy']);
+  assert.ok(results.every(r => r.messageId?.startsWith(`fake_${r.channel}_`)));
+});
+
+Deno.test('dispatchToContacts keeps going after a contact fails', async () => {
+  const channels = fakeChannels({ sms: new InMemoryChannel('sms', ['Ben']) });
+  const contacts = [contact({ name: 'Ana' }), contact({ name: 'Ben' }), contact({ name: 'Cy' })];
+
+  const results = await dispatchToContacts(contacts, notification, channels);
+
+  assert.deepEqual(results.map(r => r.status), ['sent', 'failed', 'sent']);
+  assert.match(results[1].error ?? '', /rejected Ben/);
+  assert.equal(results[1].messageId, undefined);
+  assert.deepEqual(channels.sms.sent.map(m => m.recipient.name), ['Ana', 'Cy']);
+});
+
+Deno.test('dispatchToContacts does not retry a failed preferred channel on SMS', async () => {
+  const channels = fakeChannels({ email: new InMemoryChannel('email', ['Ana']) });
+
+  const [result] = await dispatchToContacts(
+    [contact({ name: 'Ana', channel: 'email', email: 'ana@example.com' })],
+    notification,
+    channels
+  );
+
+  assert.equal(result.status, 'failed');
+  assert.equal(result.channel, 'email');
+  assert.equal(channels.sms.sent.length, 0);
+});
+
+Deno.test('dispatchToContacts reports contacts no channel can reach', async () => {
+  const [result] = await dispatchToContacts(
+    [contact({ name: 'Ana', channel: 'webhook', webhookUrl: null, phoneNumber: '' })],
+    notification,
+    fakeChannels()
+  );
+
+  assert.equal(result.status, 'failed');
+  assert.equal(result.channel, 'webhook');
+  assert.match(result.error ?? '', /No configured channel/);
+});
+
+Deno.test('dispatchToContacts appends the personalized line to each copy', async () => {
+  const channels = fakeChannels();
+  await dispatchToContacts(
+    [contact({ name: 'Ana' }), contact({ name: 'Ben', channel: 'email', email: 'ben@example.com' })],
+    notification,
+    channels,
+    async (recipient, channel) => `\n${recipient.name} via ${channel}`
+  );
+
+  assert.equal(channels.sms.sent[0].notification.body, 'Help needed\nAna via sms');
+  assert.equal(channels.email.sent[0].notification.body, 'Help needed\nBen via email');
+});
@@ -0,0 +1,76 @@
+/*
+  # Duplicate Alert Tests
+
+  Run with `deno test --allow-env src/supabase/functions/tests/`.
+*/
+
+import assert from 'node:assert/strict';
+import { AlertTrigger, alertTypesAtOrAbove, findExistingIncident } from '../_shared/dedupe.ts';
+import { FakeSupabase, Row } from './fake-supabase.ts';
+
+const WINDOW_SECONDS = 120;
+
+const incident = (overrides: Row): Row => ({
+  id: crypto.randomUUID(),
+  user_id: 'user-1',
+  status: 'open',
+  created_at: new Date(Date.now() - 30 * 1000).toISOString(),
+  contacts_notified: 2,
+  alert_data: [],
+  ...overrides,
+});
+
+const trigger = (alertType: string, idempotencyKey: string | null = null): AlertTrigger => ({
+  idempotencyKey,
+  triggerSource: null,
+  alertType,
+});
+
+Deno.test('alertTypesAtOrAbove ranks duress over SOS over threat alerts', () => {
+  assert.deepEqual(alertTypesAtOrAbove('AURA_THREAT').sort(), ['AURA_THREAT', 'DURESS', 'SOS_PANIC']);
+  assert.deepEqual(alertTypesAtOrAbove('SOS_PANIC').sort(), ['DURESS', 'SOS_PANIC']);
+  assert.deepEqual(alertTypesAtOrAbove('DURESS'), ['DURESS']);
+});
+
+Deno.test('an SOS is not folded into a recent threat alert', async () => {
+  const db = new FakeSupabase({ emergency_alerts: [incident({ alert_type: 'AURA_THREAT' })] });
+
+  assert.equal(await findExistingIncident(db.asClient(), 'user-1', trigger('SOS_PANIC'), WINDOW_SECONDS), null);
+});
+
+Deno.test('a threat alert is folded into a recent SOS', async () => {
+  const sos = incident({ alert_type: 'SOS_PANIC' });
+  const db = new FakeSupabase({ emergency_alerts: [sos] });
+
+  const existing = await findExistingIncident(db.asClient(), 'user-1', trigger('AURA_THREAT'), WINDOW_SECONDS);
+  assert.equal(existing?.id, sos.id);
+  assert.equal(existing?.reason, 'within_window');
+});
+
+Deno.test('a repeated SOS is folded into the SOS under way', async () => {
+  const sos = incident({ alert_type: 'SOS_PANIC' });
+  const db = new FakeSupabase({ emergency_alerts: [sos] });
+
+  assert.equal((await findExistingIncident(db.asClient(), 'user-1', trigger('SOS_PANIC'), WINDOW_SECONDS))?.id, sos.id);
+});
+
+Deno.test('incidents outside the window, closed, or that reached nobody are not reused', async () => {
+  const db = new FakeSupabase({
+    emergency_alerts: [
+      incident({ alert_type: 'SOS_PANIC', created_at: new Date(Date.now() - 10 * 60 * 1000).toISOString() }),
+      incident({ alert_type: 'SOS_PANIC', status: 'resolved' }),
+      incident({ alert_type: 'SOS_PANIC', contacts_notified: 0 }),
+    ],
+  });
+
+  assert.equal(await findExistingIncident(db.asClient(), 'user-1', trigger('SOS_PANIC'), WINDOW_SECONDS), null);
+});
+
+Deno.test('a retry finds its own incident whatever its type', async () => {
+  const threat = incident({ alert_type: 'AURA_THREAT', idempotency_key: 'key-1' });
+  const db = new FakeSupabase({ emergency_alerts: [threat] });
+
+  const existing = await findExistingIncident(db.asClient(), 'user-1', trigger('SOS_PANIC', 'key-1'), 0);
+  assert.equal(existing?.id, threat.id);
+  assert.equal(existing?.reason, 'retry');
+});
@@ -0,0 +1,201 @@
+/*
+  # Escalation Ladder Tests
+
+  Run with `deno test --allow-env src/supabase/functions/tests/`. The ladder runs against
+  `FakeClock`, `InMemoryTelephony`, the in-memory channels and a fake Supabase client.
+*/
+
+import assert from 'node:assert/strict';
+import { recordAcknowledgement } from '../_shared/acknowledgements.ts';
+import { ChannelType, InMemoryChannel } from '../_shared/channels.ts';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  EscalationDependencies,
+  EscalationPolicy,
+  FakeClock,
+  escalateIncident,
+  runDueEscalations,
+  scheduleEscalation,
+} from '../_shared/escalation.ts';
+import { InMemoryTelephony } from '../_shared/telephony.ts';
+import { FakeSupabase } from './fake-supabase.ts';
+
+const ALERT_ID = 'alert-1';
+const START = new Date('2026-01-01T12:00:00.000Z');
+
+interface Harness {
+  db: FakeSupabase;
+  clock: FakeClock;
+  channels: Record<ChannelType, InMemoryChannel>;
+  telephony: InMemoryTelephony;
+  deps: EscalationDependencies;
+}
+
+/**
+ * An open SOS from a user with two primary contacts and one secondary contact,
+ * already on the ladder with `policy`
+ */
+const setUp = async (policy: EscalationPolicy = DEFAULT_ESCALATION_POLICY, failCalls: string[] = []): Promise<Harness> => {
+  const db = new FakeSupabase({
+    user_profiles: [{ id: 'user-1', name: 'Riley' }],
+    emergency_contacts: [
+      { id: 'c-ana', user_id: 'user-1', name: 'Ana', phone_number: '+15550000001', channel: 'sms', priority: 'primary', deleted_at: null },
+      { id: 'c-ben', user_id: 'user-1', name: 'Ben', phone_number: '+15550000002', channel: 'email', email: 'ben@example.com', priority: 'primary', deleted_at: null },
+      { id: 'c-cy', user_id: 'user-1', name: 'Cy', phone_number: '+15550000003', channel: 'sms', priority: 'secondary', deleted_at: null },
+      { id: 'c-old', user_id: 'user-1', name: 'Removed', phone_number: '+15550000004', channel: 'sms', priority: 'primary', deleted_at: '2025-12-01T00:00:00.000Z' },
+    ],
+    emergency_alerts: [{ id: ALERT_ID, user_id: 'user-1', message: 'SOS from Riley', status: 'open' }],
+  });
+  const clock = new FakeClock(START);
+  const channels = {
+    sms: new InMemoryChannel('sms'),
+    email: new InMemoryChannel('email'),
+    webhook: new InMemoryChannel('webhook'),
+  };
+  const telephony = new InMemoryTelephony(failCalls);
+
+  await scheduleEscalation(db.asClient(), ALERT_ID, policy, clock);
+
+  return {
+    db,
+    clock,
+    channels,
+    telephony,
+    deps: { supabase: db.asClient(), supabaseUrl: 'https://example.supabase.co', channels, telephony, clock },
+  };
+};
+
+const alertRow = (db: FakeSupabase) => db.table('emergency_alerts')[0];
+
+const recipients = (channel: InMemoryChannel) => channel.sent.map(message => message.recipient.name);
+
+Deno.test('nothing escalates before the acknowledgement timeout', async () => {
+  const { clock, deps } = await setUp();
+
+  assert.deepEqual(await runDueEscalations(deps), []);
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes - 1);
+  assert.deepEqual(await runDueEscalations(deps), []);
+});
+
+Deno.test('the ladder climbs one rung per timeout and then stops', async () => {
+  const { db, clock, channels, telephony, deps } = await setUp();
+  const timeout = DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes;
+
+  // Level 1: the primary contacts get a reminder
+  clock.advanceMinutes(timeout);
+  const [resend] = await runDueEscalations(deps);
+  assert.equal(resend.step, 'resend');
+  assert.equal(resend.level, 1);
+  assert.deepEqual(recipients(channels.sms), ['Ana']);
+  assert.deepEqual(recipients(channels.email), ['Ben']);
+  assert.match(channels.sms.sent[0].notification.body, /^⏰ NO RESPONSE YET/);
+  assert.match(channels.sms.sent[0].notification.body, /Reply OK, ON MY WAY or CALLING/);
+  assert.equal(db.table('sms_deliveries').length, 1);
+
+  // Running again inside the same minute climbs nothing
+  assert.deepEqual(await runDueEscalations(deps), []);
+
+  // Level 2: the secondary contacts are brought in
+  clock.advanceMinutes(timeout);
+  const [secondary] = await runDueEscalations(deps);
+  assert.equal(secondary.step, 'secondary_contacts');
+  assert.deepEqual(recipients(channels.sms), ['Ana', 'Cy']);
+  assert.match(channels.sms.sent[1].notification.body, /backup emergency contact/);
+
+  // Level 3: everyone with a phone number is called
+  clock.advanceMinutes(timeout);
+  const [calls] = await runDueEscalations(deps);
+  assert.equal(calls.step, 'voice_calls');
+  assert.deepEqual(telephony.calls.map(call => call.to), ['+15550000001', '+15550000002', '+15550000003']);
+  assert.match(telephony.calls[0].twiml, /SOS from Riley/);
+
+  // The ladder is finished
+  assert.equal(alertRow(db).escalation_level, 3);
+  assert.equal(alertRow(db).next_escalation_at, null);
+  clock.advanceMinutes(timeout * 10);
+  assert.deepEqual(await runDueEscalations(deps), []);
+
+  assert.deepEqual(
+    db.table('incident_events').map(event => event.event_type),
+    ['escalation_resend', 'escalation_secondary_contacts', 'escalation_voice_calls']
+  );
+});
+
+Deno.test('disabled rungs are skipped', async () => {
+  const { clock, channels, telephony, deps } = await setUp({
+    ...DEFAULT_ESCALATION_POLICY,
+    resendEnabled: false,
+    voiceCallsEnabled: false,
+  });
+
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+  const [first] = await runDueEscalations(deps);
+  assert.equal(first.step, 'secondary_contacts');
+  assert.deepEqual(recipients(channels.sms), ['Cy']);
+
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+  assert.deepEqual(await runDueEscalations(deps), []);
+  assert.equal(telephony.calls.length, 0);
+});
+
+Deno.test('an acknowledgement stops the ladder', async () => {
+  const { db, clock, channels, telephony, deps } = await setUp();
+
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+  assert.equal((await runDueEscalations(deps)).length, 1);
+
+  const recorded = await recordAcknowledgement(db.asClient(), {
+    alertId: ALERT_ID,
+    contactName: 'Ana',
+    phoneNumber: '+15550000001',
+    response: 'on_my_way',
+    via: 'sms',
+  });
+  assert.equal(recorded, true);
+  assert.equal(alertRow(db).status, 'acknowledged');
+  assert.equal(alertRow(db).next_escalation_at, null);
+  assert.deepEqual(db.broadcasts.map(broadcast => broadcast.event), ['acknowledgement', 'status']);
+
+  const sentBefore = channels.sms.sent.length + channels.email.sent.length;
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes * 10);
+  assert.deepEqual(await runDueEscalations(deps), []);
+  assert.equal(channels.sms.sent.length + channels.email.sent.length, sentBefore);
+  assert.equal(telephony.calls.length, 0);
+});
+
+Deno.test('a rung already claimed by another run is not repeated', async () => {
+  const { db, clock, channels, deps } = await setUp();
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+
+  // Both runs read the incident at level 0 before either climbed
+  const stale = {
+    id: ALERT_ID,
+    user_id: 'user-1',
+    message: 'SOS from Riley',
+    escalation_level: 0,
+    escalation_policy: DEFAULT_ESCALATION_POLICY,
+  };
+  assert.equal((await escalateIncident(deps, stale))?.step, 'resend');
+  assert.equal(await escalateIncident(deps, stale), null);
+
+  assert.deepEqual(recipients(channels.sms), ['Ana']);
+  assert.equal(alertRow(db).escalation_level, 1);
+});
+
+Deno.test('a failed voice call is reported without stopping the other calls', async () => {
+  const { clock, telephony, deps } = await setUp(DEFAULT_ESCALATION_POLICY, ['+15550000002']);
+
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+  await runDueEscalations(deps);
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+  await runDueEscalations(deps);
+  clock.advanceMinutes(DEFAULT_ESCALATION_POLICY.ackTimeoutMinutes);
+  const [calls] = await runDueEscalations(deps);
+
+  assert.deepEqual(calls.results.map(result => [result.contact, result.status]), [
+    ['Ana', 'sent'],
+    ['Ben', 'failed'],
+    ['Cy', 'sent'],
+  ]);
+  assert.equal(telephony.calls.length, 2);
+});
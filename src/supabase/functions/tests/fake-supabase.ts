@@ -0,0 +1,246 @@
+/*
+  # Fake Supabase Client
+
+  In-memory tables behind just enough of the query builder for the shared modules: `select`
+  (with one level of embedded `table ( ... )` rows joined on `user_id`), `insert`, `update`,
+  `upsert`, the `eq` / `is` / `in` / `lte` / `gte` filters, `or` over `gt` and `is.null`,
+  `order`, `limit`, `single` and `maybeSingle`. Realtime broadcasts are recorded instead of sent.
+*/
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type Row = Record<string, unknown>;
+
+interface Filter {
+  column: string;
+  matches(value: unknown): boolean;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string } | null;
+  count: number | null;
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' = 'select';
+  private payload: Row[] = [];
+  private columns: string | null = null;
+  private countOnly = false;
+  private conflictColumns: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private rowFilters: Array<(row: Row) => boolean> = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+  private singleRow: 'single' | 'maybe' | null = null;
+
+  constructor(private rows: Row[], private tables: (name: string) => Row[]) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}): this {
+    this.columns = columns;
+    this.countOnly = Boolean(options.head);
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.action = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.conflictColumns = (options.onConflict ?? 'id').split(',');
+    this.ignoreDuplicates = Boolean(options.ignoreDuplicates);
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push({ column, matches: actual => actual === value });
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push({ column, matches: actual => (actual ?? null) === value });
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push({ column, matches: actual => values.includes(actual) });
+    return this;
+  }
+
+  // Only the `column.gt.value` and `column.is.null` conditions the shared modules use
+  or(conditions: string): this {
+    const tests = conditions.split(',').map(condition => {
+      const [column, operator, value] = condition.split('.');
+      return (row: Row) => operator === 'gt'
+        ? Number(row[column]) > Number(value)
+        : (row[column] ?? null) === null;
+    });
+    this.rowFilters.push(row => tests.some(test => test(row)));
+    return this;
+  }
+
+  lte(column: string, value: string | number): this {
+    this.filters.push({ column, matches: actual => actual != null && (actual as string | number) <= value });
+    return this;
+  }
+
+  gte(column: string, value: string | number): this {
+    this.filters.push({ column, matches: actual => actual != null && (actual as string | number) >= value });
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleRow = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleRow = 'maybe';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    const own = this.filters.filter(filter => !filter.column.includes('.'));
+    return this.rows.filter(row =>
+      own.every(filter => filter.matches(row[filter.column])) && this.rowFilters.every(test => test(row))
+    );
+  }
+
+  // Embedded rows are those of the named table whose `user_id` is this row's id
+  private embed(row: Row): Row {
+    const embedded = [...(this.columns ?? '').matchAll(/(\w+)\s*\(/g)].map(match => match[1]);
+    const copy = { ...row };
+    for (const table of embedded) {
+      const nested = this.filters
+        .filter(filter => filter.column.startsWith(`${table}.`))
+        .map(filter => ({ ...filter, column: filter.column.slice(table.length + 1) }));
+      copy[table] = this.tables(table)
+        .filter(child => child.user_id === row.id)
+        .filter(child => nested.every(filter => filter.matches(child[filter.column])))
+        .map(child => ({ ...child }));
+    }
+    return copy;
+  }
+
+  private write(): Row[] {
+    if (this.action === 'insert') {
+      const inserted = this.payload.map(values => ({ id: crypto.randomUUID(), ...values }));
+      this.rows.push(...inserted);
+      return inserted;
+    }
+
+    if (this.action === 'upsert') {
+      const written: Row[] = [];
+      for (const values of this.payload) {
+        const existing = this.rows.find(row => this.conflictColumns.every(column => row[column] === values[column]));
+        if (!existing) {
+          const inserted = { id: crypto.randomUUID(), ...values };
+          this.rows.push(inserted);
+          written.push(inserted);
+        } else if (!this.ignoreDuplicates) {
+          Object.assign(existing, values);
+          written.push(existing);
+        }
+      }
+      return written;
+    }
+
+    const updated = this.matching();
+    for (const row of updated) Object.assign(row, this.payload[0]);
+    return updated;
+  }
+
+  private execute(): QueryResult {
+    let rows = this.action === 'select' ? this.matching() : this.write();
+    if (this.action !== 'select' && this.columns === null) {
+      return { data: null, error: null, count: null };
+    }
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      rows = [...rows].sort((a, b) => {
+        const order = String(a[column]).localeCompare(String(b[column]));
+        return ascending ? order : -order;
+      });
+    }
+    if (this.maxRows !== null) rows = rows.slice(0, this.maxRows);
+
+    const data = rows.map(row => this.embed(row));
+    if (this.countOnly) return { data: null, error: null, count: data.length };
+
+    if (this.singleRow) {
+      if (data.length === 0 && this.singleRow === 'single') {
+        return { data: null, error: { message: 'No rows found', code: 'PGRST116' }, count: null };
+      }
+      return { data: data[0] ?? null, error: null, count: null };
+    }
+    return { data, error: null, count: data.length };
+  }
+}
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]> = {};
+  readonly broadcasts: Array<{ topic: string; event: string; payload: unknown }> = [];
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [name, rows] of Object.entries(seed)) {
+      this.tables[name] = rows.map(row => ({ ...row }));
+    }
+  }
+
+  table(name: string): Row[] {
+    return this.tables[name] ??= [];
+  }
+
+  from(name: string): FakeQuery {
+    return new FakeQuery(this.table(name), table => this.table(table));
+  }
+
+  channel(topic: string) {
+    return {
+      send: async (message: { type: string; event: string; payload: unknown }) => {
+        this.broadcasts.push({ topic, event: message.event, payload: message.payload });
+        return 'ok';
+      },
+    };
+  }
+
+  async removeChannel(): Promise<'ok'> {
+    return 'ok';
+  }
+
+  /**
+   * The fake, typed as the client the shared modules take
+   */
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
@@ -0,0 +1,24 @@
+/*
+  # Request Security Tests
+
+  Run with `deno test --allow-env src/supabase/functions/tests/`.
+*/
+
+import assert from 'node:assert/strict';
+import { clientIp } from '../_shared/security.ts';
+
+const request = (headers: Record<string, string>) => new Request('https://example.com', { headers });
+
+Deno.test('clientIp prefers the address Cloudflare saw', () => {
+  assert.equal(clientIp(request({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.1' })), '203.0.113.7');
+});
+
+Deno.test('clientIp ignores hops the client wrote into x-forwarded-for', () => {
+  assert.equal(clientIp(request({ 'x-forwarded-for': '1.2.3.4, 5.6.7.8, 203.0.113.7' })), '203.0.113.7');
+  assert.equal(clientIp(request({ 'x-forwarded-for': '203.0.113.7' })), '203.0.113.7');
+});
+
+Deno.test('clientIp falls back to unknown', () => {
+  assert.equal(clientIp(request({})), 'unknown');
+  assert.equal(clientIp(request({ 'x-forwarded-for': ' ' })), 'unknown');
+});
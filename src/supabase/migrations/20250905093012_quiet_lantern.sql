@@ -0,0 +1,40 @@
+/*
+  # AI Proxy Usage
+
+  1. New Tables
+    - `ai_usage`
+      - `id` (uuid, primary key) - Usage record identifier
+      - `user_id` (text) - Id of the signed-in user, taken from the verified session JWT
+      - `kind` (text) - `transcription`, `chat` or `speech`
+      - `units` (integer) - Audio bytes, prompt characters or spoken characters
+      - `created_at` (timestamp) - Request time
+
+  2. Security
+    - Enable RLS; only the ai-proxy edge function (service role) reads and writes usage
+
+  3. Indexes
+    - Composite index for the rolling 24 hour quota count
+*/
+
+-- Create ai_usage table for per-user quotas
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('transcription', 'chat', 'speech')),
+  units integer DEFAULT 1,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Service role manages usage (for the edge function)
+CREATE POLICY "Service role can manage AI usage"
+  ON ai_usage
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create index for quota lookups
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_kind_created_at ON ai_usage(user_id, kind, created_at);
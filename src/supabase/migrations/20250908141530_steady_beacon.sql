@@ -0,0 +1,76 @@
+/*
+  # SMS Delivery Tracking
+
+  1. New Tables
+    - `sms_deliveries`
+      - `id` (uuid, primary key) - Delivery record identifier
+      - `alert_id` (uuid, foreign key) - Alert the message belongs to
+      - `message_sid` (text, unique) - Twilio message SID
+      - `contact_name` (text) - Contact's name, when known
+      - `phone_number` (text) - Destination number
+      - `status` (text) - Latest Twilio status: queued, sending, sent, delivered, undelivered or failed
+      - `error_code` (text) - Twilio error code for undelivered/failed messages
+      - `created_at` (timestamp) - First time the message was seen
+      - `updated_at` (timestamp) - Last status change
+
+  2. Security
+    - Enable RLS
+    - Users can view deliveries for their own alerts
+    - Only the edge functions (service role) write delivery records
+
+  3. Indexes
+    - Index on alert_id for looking up all messages of an alert
+*/
+
+-- Create sms_deliveries table
+CREATE TABLE IF NOT EXISTS sms_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+  message_sid text UNIQUE NOT NULL,
+  contact_name text,
+  phone_number text,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'undelivered', 'failed')),
+  error_code text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE sms_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for sms_deliveries
+CREATE POLICY "Users can view own deliveries"
+  ON sms_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM emergency_alerts
+      WHERE emergency_alerts.id = sms_deliveries.alert_id
+        AND auth.uid()::text = emergency_alerts.user_id::text
+    )
+  );
+
+-- Service role manages deliveries (for the edge functions)
+CREATE POLICY "Service role can manage deliveries"
+  ON sms_deliveries
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Alerts are created before their messages are sent, then updated with the results
+CREATE POLICY "Service role can update alerts"
+  ON emergency_alerts
+  FOR UPDATE
+  TO service_role
+  USING (true);
+
+-- Create index for per-alert lookups
+CREATE INDEX IF NOT EXISTS idx_sms_deliveries_alert_id ON sms_deliveries(alert_id);
+
+-- Add updated_at trigger for sms_deliveries
+CREATE TRIGGER update_sms_deliveries_updated_at
+  BEFORE UPDATE ON sms_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,75 @@
+/*
+  # Live Location Tracking
+
+  1. New Tables
+    - `tracking_sessions`
+      - `id` (uuid, primary key) - Session identifier
+      - `user_id` (uuid, foreign key) - User being tracked
+      - `token` (text, unique) - Unguessable token in the contact-facing tracking link
+      - `write_key_hash` (text) - SHA-256 of the key the user's device posts updates with
+      - `expires_at` (timestamp) - Link stops working after this time
+      - `ended_at` (timestamp) - Set when the user stops sharing
+      - `created_at` (timestamp) - Session start
+
+    - `location_updates`
+      - `id` (uuid, primary key) - Update identifier
+      - `session_id` (uuid, foreign key) - Tracking session
+      - `latitude` (numeric) - Location latitude
+      - `longitude` (numeric) - Location longitude
+      - `accuracy` (numeric) - Accuracy radius in meters
+      - `recorded_at` (timestamp) - When the device took the fix
+      - `created_at` (timestamp) - When the server received it
+
+  2. Security
+    - Enable RLS on both tables
+    - Only the location-tracking edge function (service role) reads and writes; contacts see
+      positions through the function, by token, and only until the session expires or ends
+
+  3. Indexes
+    - Index on location_updates (session_id, recorded_at) for the breadcrumb trail
+*/
+
+-- Create tracking_sessions table
+CREATE TABLE IF NOT EXISTS tracking_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL,
+  write_key_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create location_updates table
+CREATE TABLE IF NOT EXISTS location_updates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES tracking_sessions(id) ON DELETE CASCADE,
+  latitude numeric NOT NULL,
+  longitude numeric NOT NULL,
+  accuracy numeric,
+  recorded_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE tracking_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_updates ENABLE ROW LEVEL SECURITY;
+
+-- Service role manages tracking (for the edge function)
+CREATE POLICY "Service role can manage tracking sessions"
+  ON tracking_sessions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage location updates"
+  ON location_updates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_tracking_sessions_user_id ON tracking_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_location_updates_session_recorded ON location_updates(session_id, recorded_at);
@@ -0,0 +1,19 @@
+/*
+  # Per-Contact Notification Channels
+
+  1. Changes
+    - `emergency_contacts`
+      - `channel` (text) - How the contact wants to be alerted: sms, email or webhook (default sms)
+      - `email` (text) - Address for the email channel
+      - `webhook_url` (text) - HTTPS endpoint for the webhook channel
+
+  2. Notes
+    - Contacts without an address for their channel are still alerted by SMS
+*/
+
+ALTER TABLE emergency_contacts
+  ADD COLUMN IF NOT EXISTS channel text NOT NULL DEFAULT 'sms'
+    CHECK (channel IN ('sms', 'email', 'webhook')),
+  ADD COLUMN IF NOT EXISTS email text,
+  ADD COLUMN IF NOT EXISTS webhook_url text
+    CHECK (webhook_url IS NULL OR webhook_url LIKE 'https://%');
@@ -0,0 +1,35 @@
+/*
+  # Incident Lifecycle
+
+  1. Changes
+    - `emergency_alerts`
+      - `status` (text) - open, acknowledged, resolved or cancelled (default open)
+      - `acknowledged_at` (timestamp) - First time a contact acknowledged the alert
+      - `resolved_at` (timestamp) - When the user sent the all-clear or cancelled the alert
+      - `resolution_reason` (text) - Optional reason given by the user
+      - `all_clear_data` (jsonb) - Per-contact results of the all-clear message
+
+  2. Notes
+    - Only open and acknowledged incidents can be resolved or cancelled; the send-all-clear
+      function enforces this so the all-clear is sent at most once
+    - Existing alerts are treated as resolved, since nobody will send an all-clear for them
+
+  3. Indexes
+    - Index on (user_id, status) for finding a user's open incidents
+*/
+
+ALTER TABLE emergency_alerts
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'acknowledged', 'resolved', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS acknowledged_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolution_reason text,
+  ADD COLUMN IF NOT EXISTS all_clear_data jsonb;
+
+-- Close alerts that predate the lifecycle
+UPDATE emergency_alerts
+  SET status = 'resolved', resolved_at = created_at
+  WHERE resolved_at IS NULL;
+
+-- Create index for open-incident lookups
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_user_status ON emergency_alerts(user_id, status);
@@ -0,0 +1,136 @@
+/*
+  # Escalation Ladder
+
+  1. New Tables
+    - `escalation_policies`
+      - `user_id` (uuid, primary key, foreign key) - Policy owner
+      - `ack_timeout_minutes` (integer) - Minutes without acknowledgement before each rung (1-60)
+      - `resend_enabled` (boolean) - Re-send the alert to the primary contacts
+      - `notify_secondary` (boolean) - Then alert the secondary contacts
+      - `voice_calls_enabled` (boolean) - Then place automated voice calls to every contact
+      - `updated_at` (timestamp) - Last change
+
+    - `incident_events`
+      - `id` (uuid, primary key) - Event identifier
+      - `alert_id` (uuid, foreign key) - Incident the event belongs to
+      - `event_type` (text) - What happened, e.g. `escalation_resend`
+      - `detail` (jsonb) - Per-contact results and anything else worth keeping
+      - `created_at` (timestamp) - When it happened
+
+  2. Changes
+    - `emergency_alerts`
+      - `escalation_level` (integer) - Rungs climbed so far
+      - `next_escalation_at` (timestamp) - When the next rung is due; null once the ladder is done
+      - `escalation_policy` (jsonb) - Policy in force when the alert was sent
+    - `emergency_contacts`
+      - `priority` (text) - primary (alerted at once) or secondary (alerted by the ladder)
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can view their own policy and the events of their own incidents
+    - Only the edge functions (service role) write
+
+  4. Scheduled Job
+    - pg_cron calls the escalate-incidents function every minute through pg_net
+    - Needs three Vault secrets: `project_url`, `anon_key` and `escalation_cron_secret` (the
+      same value as the function's `ESCALATION_CRON_SECRET`)
+*/
+
+-- Create escalation_policies table
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  ack_timeout_minutes integer NOT NULL DEFAULT 5
+    CHECK (ack_timeout_minutes BETWEEN 1 AND 60),
+  resend_enabled boolean NOT NULL DEFAULT true,
+  notify_secondary boolean NOT NULL DEFAULT true,
+  voice_calls_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create incident_events table
+CREATE TABLE IF NOT EXISTS incident_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  detail jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE emergency_alerts
+  ADD COLUMN IF NOT EXISTS escalation_level integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_escalation_at timestamptz,
+  ADD COLUMN IF NOT EXISTS escalation_policy jsonb;
+
+ALTER TABLE emergency_contacts
+  ADD COLUMN IF NOT EXISTS priority text NOT NULL DEFAULT 'primary'
+    CHECK (priority IN ('primary', 'secondary'));
+
+-- Enable Row Level Security
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for escalation_policies
+CREATE POLICY "Users can view own escalation policy"
+  ON escalation_policies
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role can manage escalation policies"
+  ON escalation_policies
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- RLS Policies for incident_events
+CREATE POLICY "Users can view own incident events"
+  ON incident_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM emergency_alerts
+      WHERE emergency_alerts.id = incident_events.alert_id
+        AND auth.uid()::text = emergency_alerts.user_id::text
+    )
+  );
+
+CREATE POLICY "Service role can manage incident events"
+  ON incident_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create indexes for the scheduled job and the incident timeline
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_next_escalation
+  ON emergency_alerts(next_escalation_at)
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_incident_events_alert_created ON incident_events(alert_id, created_at);
+
+-- Add updated_at trigger for escalation_policies
+CREATE TRIGGER update_escalation_policies_updated_at
+  BEFORE UPDATE ON escalation_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Run the escalation ladder every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'escalate-open-incidents',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/escalate-incidents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'anon_key'),
+      'X-Cron-Secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'escalation_cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,61 @@
+/*
+  # Contact Acknowledgements
+
+  1. New Tables
+    - `contact_acknowledgements`
+      - `id` (uuid, primary key) - Acknowledgement identifier
+      - `alert_id` (uuid, foreign key) - Incident that was acknowledged
+      - `contact_name` (text) - Contact who answered
+      - `phone_number` (text) - Contact's number; one row per contact and alert
+      - `response` (text) - ok, on_my_way or calling
+      - `via` (text) - sms (a reply to the alert) or link (the one-tap ack link)
+      - `acknowledged_at` (timestamp) - When the latest response came in
+      - `created_at` (timestamp) - First response
+
+  2. Security
+    - Enable RLS
+    - Users can view acknowledgements of their own incidents
+    - Only the edge functions (service role) write acknowledgements
+
+  3. Notes
+    - A later reply from the same contact replaces the earlier one (e.g. OK, then ON MY WAY)
+*/
+
+-- Create contact_acknowledgements table
+CREATE TABLE IF NOT EXISTS contact_acknowledgements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+  contact_name text NOT NULL,
+  phone_number text NOT NULL DEFAULT '',
+  response text NOT NULL CHECK (response IN ('ok', 'on_my_way', 'calling')),
+  via text NOT NULL CHECK (via IN ('sms', 'link')),
+  acknowledged_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (alert_id, phone_number)
+);
+
+-- Enable Row Level Security
+ALTER TABLE contact_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for contact_acknowledgements
+CREATE POLICY "Users can view own acknowledgements"
+  ON contact_acknowledgements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM emergency_alerts
+      WHERE emergency_alerts.id = contact_acknowledgements.alert_id
+        AND auth.uid()::text = emergency_alerts.user_id::text
+    )
+  );
+
+CREATE POLICY "Service role can manage acknowledgements"
+  ON contact_acknowledgements
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Index for matching an inbound reply to the contact's latest alert
+CREATE INDEX IF NOT EXISTS idx_sms_deliveries_phone_created ON sms_deliveries(phone_number, created_at);
@@ -0,0 +1,27 @@
+/*
+  # Duplicate Alert Collapsing
+
+  1. Changes
+    - `emergency_alerts`
+      - `idempotency_key` (text, unique) - Key the client sent with the alert request; a retry with
+        the same key gets the original incident back instead of a second round of messages
+      - `trigger_source` (text) - What raised the alert: long_press, voice, threat_detection or
+        emergency_voice
+      - `alert_type` (text) - Which function sent it: AURA_THREAT, SOS_PANIC or DURESS
+
+  2. Notes
+    - Triggers within the dedupe window (`ALERT_DEDUPE_WINDOW_SECONDS` on the alert functions)
+      of an incident still under way are logged to `incident_events` as `duplicate_trigger`
+      instead of alerting the contacts again, but only when that incident is at least as
+      urgent as the trigger (SOS_PANIC above AURA_THREAT); an SOS is never folded into a threat
+      alert
+*/
+
+ALTER TABLE emergency_alerts
+  ADD COLUMN IF NOT EXISTS idempotency_key text UNIQUE,
+  ADD COLUMN IF NOT EXISTS trigger_source text
+    CHECK (trigger_source IS NULL OR trigger_source IN ('long_press', 'voice', 'threat_detection', 'emergency_voice')),
+  ADD COLUMN IF NOT EXISTS alert_type text;
+
+-- Index for finding a user's most recent incident
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_user_created ON emergency_alerts(user_id, created_at DESC);
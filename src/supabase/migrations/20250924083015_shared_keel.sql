@@ -0,0 +1,42 @@
+/*
+  # Profile and Contact Sync
+
+  1. Changes
+    - `emergency_contacts`
+      - `updated_at` (timestamp) - When the contact was last edited, on whichever device edited it
+      - `deleted_at` (timestamp) - Set instead of deleting, so other devices learn about removals
+
+  2. Security
+    - Users sign in through Supabase Auth (anonymously at first, an email can be linked later),
+      so the existing "own profile" and "own contacts" policies now apply to the app itself
+    - Update policies gain WITH CHECK so a row cannot be handed to another user
+
+  3. Notes
+    - The alert functions skip contacts with `deleted_at` set
+    - Conflicts are settled by the client: the newer `updated_at` (or `deleted_at`) wins
+*/
+
+ALTER TABLE emergency_contacts
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON user_profiles;
+CREATE POLICY "Users can update own profile"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = id::text)
+  WITH CHECK (auth.uid()::text = id::text);
+
+DROP POLICY IF EXISTS "Users can update own contacts" ON emergency_contacts;
+CREATE POLICY "Users can update own contacts"
+  ON emergency_contacts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = user_id::text)
+  WITH CHECK (auth.uid()::text = user_id::text);
+
+-- Index for the alert functions, which only read live contacts
+CREATE INDEX IF NOT EXISTS idx_emergency_contacts_user_live
+  ON emergency_contacts(user_id)
+  WHERE deleted_at IS NULL;
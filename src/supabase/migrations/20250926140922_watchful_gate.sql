@@ -0,0 +1,102 @@
+/*
+  # Alert Request Security
+
+  1. New Tables
+    - `security_audit_log`
+      - `id` (uuid, primary key) - Entry identifier
+      - `function_name` (text) - Edge function that rejected the request
+      - `event_type` (text) - missing_token, invalid_token, user_mismatch, rate_limited_user or
+        rate_limited_ip
+      - `claimed_user_id` (text) - User ID the request body named, if any
+      - `auth_user_id` (uuid) - User the JWT belonged to, if it verified
+      - `ip_address` (text) - Client address reported by the edge gateway
+      - `user_agent` (text) - Client user agent
+      - `detail` (jsonb) - Anything else worth keeping, e.g. why the token was refused
+      - `created_at` (timestamp) - When it happened
+
+    - `rate_limit_counters`
+      - `bucket` (text) - What is being counted, e.g. `alerts:user:<id>`
+      - `window_start` (timestamp) - Start of the fixed window
+      - `hits` (integer) - Requests in this window
+
+  2. New Functions
+    - `hit_rate_limit(p_bucket, p_window_seconds)` - Counts one request and returns the total for
+      the current window, in one statement so concurrent requests cannot both slip under the limit
+
+  3. Security
+    - Enable RLS on both tables; only the edge functions (service role) read or write them
+    - `hit_rate_limit` can only be called by the service role
+
+  4. Scheduled Job
+    - pg_cron removes day-old counters every hour
+*/
+
+-- Create security_audit_log table
+CREATE TABLE IF NOT EXISTS security_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name text NOT NULL,
+  event_type text NOT NULL
+    CHECK (event_type IN ('missing_token', 'invalid_token', 'user_mismatch', 'rate_limited_user', 'rate_limited_ip')),
+  claimed_user_id text,
+  auth_user_id uuid,
+  ip_address text,
+  user_agent text,
+  detail jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create rate_limit_counters table
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  bucket text NOT NULL,
+  window_start timestamptz NOT NULL,
+  hits integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, window_start)
+);
+
+-- Enable Row Level Security
+ALTER TABLE security_audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage security audit log"
+  ON security_audit_log
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage rate limit counters"
+  ON rate_limit_counters
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Count a request against a bucket and return the hits so far in this window
+CREATE OR REPLACE FUNCTION hit_rate_limit(p_bucket text, p_window_seconds integer)
+RETURNS integer
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limit_counters (bucket, window_start, hits)
+  VALUES (
+    p_bucket,
+    to_timestamp(floor(extract(epoch FROM now()) / p_window_seconds) * p_window_seconds),
+    1
+  )
+  ON CONFLICT (bucket, window_start)
+  DO UPDATE SET hits = rate_limit_counters.hits + 1
+  RETURNING hits;
+$$;
+
+REVOKE EXECUTE ON FUNCTION hit_rate_limit(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hit_rate_limit(text, integer) TO service_role;
+
+-- Create indexes for reviewing rejected requests
+CREATE INDEX IF NOT EXISTS idx_security_audit_log_created ON security_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_audit_log_ip ON security_audit_log(ip_address, created_at DESC);
+
+-- Counters from windows that ended long ago are never read again
+SELECT cron.schedule(
+  'purge-rate-limit-counters',
+  '17 * * * *',
+  $$ DELETE FROM rate_limit_counters WHERE window_start < now() - interval '1 day' $$
+);
@@ -0,0 +1,23 @@
+/*
+  # Alert History
+
+  1. Security
+    - Users can delete their own alerts from the History view; their incident events, delivery
+      receipts and acknowledgements go with them (ON DELETE CASCADE)
+    - An incident still under way (open or acknowledged) cannot be deleted during its first day,
+      so the escalation ladder and the contacts' ack links keep working. Alerts from before the
+      status lifecycle existed are all `open`, and become deletable after that day.
+
+  2. Notes
+    - Reading uses the existing "Users can view own alerts" policy, and the view policies on
+      `incident_events`, `sms_deliveries` and `contact_acknowledgements`
+*/
+
+CREATE POLICY "Users can delete own alerts"
+  ON emergency_alerts
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid()::text = user_id::text
+    AND (status NOT IN ('open', 'acknowledged') OR created_at < now() - interval '1 day')
+  );
@@ -0,0 +1,15 @@
+/*
+  # Safety Timer Trigger Source
+
+  1. Changes
+    - `emergency_alerts`
+      - `trigger_source` also accepts `safety_timer`: a check-in timer, started by a wake phrase,
+        ran out before the user said they were safe
+*/
+
+ALTER TABLE emergency_alerts
+  DROP CONSTRAINT IF EXISTS emergency_alerts_trigger_source_check;
+
+ALTER TABLE emergency_alerts
+  ADD CONSTRAINT emergency_alerts_trigger_source_check
+    CHECK (trigger_source IS NULL OR trigger_source IN ('long_press', 'voice', 'threat_detection', 'emergency_voice', 'safety_timer'));
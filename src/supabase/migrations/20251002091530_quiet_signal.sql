@@ -0,0 +1,21 @@
+/*
+  # Duress Trigger Sources
+
+  1. Changes
+    - `emergency_alerts`
+      - `trigger_source` also accepts `duress_pin` and `duress_phrase`: the user entered their
+        duress PIN or said their duress phrase while being made to cancel an alert
+      - These alerts are written by send-duress-alert with `alert_data.alert_type = 'DURESS'`
+
+  2. Security
+    - No policy changes; duress alerts are the user's own rows like any other alert
+*/
+
+ALTER TABLE emergency_alerts
+  DROP CONSTRAINT IF EXISTS emergency_alerts_trigger_source_check;
+
+ALTER TABLE emergency_alerts
+  ADD CONSTRAINT emergency_alerts_trigger_source_check
+    CHECK (trigger_source IS NULL OR trigger_source IN (
+      'long_press', 'voice', 'threat_detection', 'emergency_voice', 'safety_timer', 'duress_pin', 'duress_phrase'
+    ));
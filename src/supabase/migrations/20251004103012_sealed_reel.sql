@@ -0,0 +1,184 @@
+/*
+  # Incident Evidence Recording
+
+  1. New Tables
+    - `evidence_sessions`
+      - `id` (uuid, primary key) - One recording; also seeds its hash chain
+      - `user_id` (uuid, foreign key) - User who recorded it
+      - `alert_id` (uuid, foreign key) - Incident the recording belongs to, set once the alert
+        has an id and never changed after that; only cleared (set to null) when the alert itself
+        is deleted, so the evidence outlives it
+      - `encryption_key` (text) - Base64 AES-GCM key for the chunks. Stored apart from the
+        Storage objects, so the bucket alone reveals nothing, and before the first chunk, so the
+        recording can still be decrypted if the phone is taken
+      - `mime_type` (text) - Container of the decrypted chunks, e.g. `audio/webm;codecs=opus`
+      - `started_at` (timestamp) - When recording started
+      - `ended_at` (timestamp) - Set when recording stops normally; missing if it was cut off
+      - `chunk_count` (integer) - Chunks recorded, set with `ended_at`
+      - `head_hash` (text) - Chain hash of the last chunk, set with `ended_at`
+
+    - `evidence_chunks`
+      - `id` (uuid, primary key) - Chunk identifier
+      - `session_id` (uuid, foreign key) - Recording the chunk belongs to
+      - `seq` (integer) - Position in the recording, from 0
+      - `storage_path` (text) - Object in the `evidence` bucket: IV followed by the ciphertext
+      - `sha256` (text) - SHA-256 of the stored object
+      - `prev_hash` (text) - Chain hash of the chunk before (all zeros for the first)
+      - `chain_hash` (text) - SHA-256 of session id, seq, `prev_hash` and `sha256`
+      - `byte_size` (integer) - Size of the stored object
+      - `recorded_at` (timestamp) - When the device finished recording the chunk
+      - `created_at` (timestamp) - When the server received it
+
+  2. Storage
+    - Private `evidence` bucket; objects live under `<user id>/<session id>/`
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can create and read their own sessions and chunks, and can never delete them or
+      change a chunk, so whoever takes the phone cannot erase what was already uploaded
+    - A session can only be updated while it is open, and only to attach its alert (once) or to
+      end it; an attached alert cannot be swapped or detached
+    - `encryption_key` is readable by the user who recorded it, like the rest of their session:
+      the app decrypts recordings for download with the user's own session. The key only keeps
+      the Storage objects unreadable on their own (a leaked bucket, a storage admin); anyone
+      signed in as the user can play the recording, but still cannot change or delete it
+    - Users can upload and read objects in their own folder of the bucket; there is no update
+      or delete policy
+*/
+
+-- Create evidence_sessions table
+CREATE TABLE IF NOT EXISTS evidence_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  alert_id uuid REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+  encryption_key text NOT NULL,
+  mime_type text NOT NULL,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  chunk_count integer,
+  head_hash text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create evidence_chunks table
+CREATE TABLE IF NOT EXISTS evidence_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES evidence_sessions(id) ON DELETE CASCADE,
+  seq integer NOT NULL CHECK (seq >= 0),
+  storage_path text NOT NULL,
+  sha256 text NOT NULL,
+  prev_hash text NOT NULL,
+  chain_hash text NOT NULL,
+  byte_size integer NOT NULL,
+  recorded_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, seq)
+);
+
+-- Enable Row Level Security
+ALTER TABLE evidence_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE evidence_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create own evidence sessions"
+  ON evidence_sessions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = user_id::text AND ended_at IS NULL);
+
+CREATE POLICY "Users can read own evidence sessions"
+  ON evidence_sessions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can update own open evidence sessions"
+  ON evidence_sessions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = user_id::text AND ended_at IS NULL)
+  WITH CHECK (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can add chunks to own open evidence sessions"
+  ON evidence_chunks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM evidence_sessions
+      WHERE evidence_sessions.id = session_id
+        AND auth.uid()::text = evidence_sessions.user_id::text
+        AND evidence_sessions.ended_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can read own evidence chunks"
+  ON evidence_chunks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM evidence_sessions
+      WHERE evidence_sessions.id = session_id
+        AND auth.uid()::text = evidence_sessions.user_id::text
+    )
+  );
+
+CREATE POLICY "Service role can manage evidence sessions"
+  ON evidence_sessions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage evidence chunks"
+  ON evidence_chunks
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Only the alert (once) and the end of the recording may change on a session. An attached
+-- alert stays; the one exception is ON DELETE SET NULL, once the alert row is really gone.
+CREATE OR REPLACE FUNCTION protect_evidence_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.encryption_key IS DISTINCT FROM OLD.encryption_key
+    OR NEW.mime_type IS DISTINCT FROM OLD.mime_type
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR (
+      OLD.alert_id IS NOT NULL
+      AND NEW.alert_id IS DISTINCT FROM OLD.alert_id
+      AND (NEW.alert_id IS NOT NULL OR EXISTS (SELECT 1 FROM emergency_alerts WHERE id = OLD.alert_id))
+    )
+  THEN
+    RAISE EXCEPTION 'evidence session % cannot be rewritten', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_evidence_sessions
+  BEFORE UPDATE ON evidence_sessions
+  FOR EACH ROW EXECUTE FUNCTION protect_evidence_session();
+
+-- Private bucket for the encrypted chunks
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('evidence', 'evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own evidence"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'evidence' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read own evidence"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'evidence' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_evidence_sessions_user_id ON evidence_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_evidence_sessions_alert_id ON evidence_sessions(alert_id);
@@ -1,7 +1,14 @@
+export type NotificationChannelType = 'sms' | 'email' | 'webhook';
+
 export interface EmergencyContact {
   id: string;
   name: string;
   phoneNumber: string;
+  channel?: NotificationChannelType; // defaults to SMS
+  email?: string;
+  webhookUrl?: string;
+  priority?: 'primary' | 'secondary'; // secondary contacts are only alerted on escalation
+  updatedAt?: string; // last local or synced change, for resolving sync conflicts
 }
 
 export interface UserProfile {
@@ -10,6 +17,131 @@ export interface UserProfile {
   emergencyContacts: EmergencyContact[];
   voiceActivationEnabled: boolean;
   voiceActivationLanguage: string;
+  transcription: TranscriptionSettings;
+  speech: SpeechSettings;
+  escalationScripts: EscalationScript[];
+  escalationPolicy: EscalationPolicy;
+  wakePhrases: WakePhrase[];
+  sosCountdownSeconds: number; // grace period to cancel an SOS before it is sent; 0 sends at once
+  updatedAt?: string; // when the synced fields (name) last changed
+}
+
+/**
+ * PBKDF2 hashes of the PINs and phrase that cancel alerts. The duress ones look exactly like a cancel
+ * on screen but silently alert the contacts. Stored on this device only.
+ */
+export interface SafetyCodes {
+  salt: string; // random per install, regenerated whenever the codes are saved
+  iterations: number; // PBKDF2 work factor the PIN hashes were made with
+  cancelPinHash: string;
+  duressPinHash: string | null;
+  duressPhraseHash: string | null;
+  duressPhraseWords: number; // how many heard words to hash together when listening for it
+  duressPhraseIterations: number; // lighter work factor for the phrase, which is checked as it is heard
+}
+
+export type PinVerdict = 'cancel' | 'duress' | 'invalid';
+
+/**
+ * Supabase Auth account the profile and contacts sync to. Anonymous until an email is linked.
+ */
+export interface AuthAccount {
+  userId: string;
+  email: string | null;
+  isAnonymous: boolean;
+  pendingEmail: string | null; // linked but not yet confirmed
+}
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  account: AuthAccount | null;
+  lastSyncedAt: string | null;
+  conflictsResolved: number; // records edited on both sides in the last sync; the newer edit won
+  error: string | null;
+}
+
+/**
+ * What the server does when nobody acknowledges an alert within the timeout
+ */
+export interface EscalationPolicy {
+  ackTimeoutMinutes: number;
+  resendEnabled: boolean;
+  notifySecondary: boolean;
+  voiceCallsEnabled: boolean;
+}
+
+// What saying a wake phrase does
+export type WakePhraseAction = 'sos' | 'silent_alert' | 'fake_call' | 'safety_timer';
+
+export interface WakePhrase {
+  id: string;
+  phrase: string;
+  action: WakePhraseAction;
+  sensitivity: number; // 0 (exact wording only) to 1 (loosest match)
+  variants: Record<string, string[]>; // other wordings by recognition language, e.g. { es: ['ayuda aura'] }
+  timerMinutes?: number; // for safety_timer
+  enabled: boolean;
+}
+
+export interface WakePhraseMatch {
+  phraseId: string;
+  action: WakePhraseAction;
+  matchedText: string; // the phrase or variant that was heard
+  transcript: string;
+  confidence: number; // 0-1
+}
+
+export type TranscriptionProviderId = 'whisper' | 'local' | 'web-speech';
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  model: string;
+  language: string; // ISO-639-1 code, or 'auto' to let the provider detect it
+  localServerUrl: string;
+}
+
+export type SpeechProviderId = 'elevenlabs' | 'browser' | 'local';
+
+export interface SpeechSettings {
+  provider: SpeechProviderId;
+  voice: string; // ElevenLabs voice id, local server voice name, or browser voiceURI
+  rate: number;  // 1.0 = normal speed
+  model: string;
+  localServerUrl: string;
+}
+
+export interface EscalationStep {
+  id: string;
+  text: string;
+  voice: string;     // Overrides the profile voice for this step; empty uses the profile voice
+  delayMs: number;   // Pause after this step before the next one
+  volume: number;    // 0..1
+  sirenAfter: boolean;
+}
+
+export interface EscalationScript {
+  language: string;  // BCP-47 code, matched against the voice recognition language
+  steps: EscalationStep[];
+}
+
+export type EscalationPlaybackStatus = 'idle' | 'playing' | 'paused' | 'finished' | 'stopped';
+
+export type EscalationPhase = 'speaking' | 'siren' | 'waiting';
+
+export interface EscalationProgress {
+  status: EscalationPlaybackStatus;
+  phase: EscalationPhase | null;
+  stepIndex: number;
+  totalSteps: number;
+  step: EscalationStep | null;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  provider: TranscriptionProviderId;
+  language?: string;
 }
 
 export interface Location {
@@ -17,6 +149,27 @@ export interface Location {
   longitude: number;
 }
 
+export interface TrackingPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null; // meters
+  timestamp: string;
+}
+
+export interface TrackingSession {
+  sessionId: string;
+  token: string;    // goes in the contact-facing link; read-only
+  writeKey: string; // stays on this device; needed to post updates
+  expiresAt: string;
+  concealed?: boolean; // this device only: still streaming, but shown as stopped after a duress all-clear
+}
+
+export interface TrackingSnapshot {
+  expiresAt: string;
+  latest: TrackingPoint | null;
+  trail: TrackingPoint[];
+}
+
 export enum AuraState {
   IDLE = 'idle',
   ACTIVE = 'active',
@@ -31,17 +184,235 @@ export interface ApiResponse {
   data?: any;
 }
 
+export type ThreatLevel = 'none' | 'low' | 'elevated' | 'high';
+
+export interface ThreatSignal {
+  phrase: string;
+  weight: number;
+  negated: boolean;
+}
+
+export interface ThreatAssessment {
+  level: ThreatLevel;
+  score: number; // 0..1, includes evidence carried over from earlier turns
+  matchedSignals: ThreatSignal[];
+  rationale: string;
+}
+
+export type ConversationPersona = 'calm' | 'assertive';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: string;
+  persona: ConversationPersona;
+  threatLevel?: ThreatLevel;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
 export interface AudioProcessingResult {
   transcription: string;
-  threat_detected: boolean;
+  threat: ThreatAssessment;
   ai_response: string;
 }
 
-export interface SOSAlertResult {
-  success: boolean;
+export type AlertDispatchMode = 'live' | 'mock' | 'failed';
+
+export type AlertFailureCause =
+  | 'not_configured'  // Supabase URL/key missing, nothing was sent
+  | 'network'         // The edge function could not be reached
+  | 'rejected'        // The edge function answered with an error status
+  | 'undelivered'     // The edge function ran but no contact accepted the message
+  | 'location';       // The alert could not be prepared
+
+export interface ContactDeliveryOutcome {
+  contactName: string;
+  phoneNumber: string;
+  status: 'sent' | 'failed'; // whether the provider accepted the message
+  channel?: NotificationChannelType;
+  messageId?: string;
+  error?: string;
+  deliveryStatus?: SmsDeliveryStatus; // from the provider's delivery receipts
+}
+
+export type SmsDeliveryStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export interface SmsDeliveryRecord {
+  messageSid: string;
+  contactName: string | null;
+  phoneNumber: string | null;
+  status: SmsDeliveryStatus;
+  errorCode: string | null;
+  updatedAt: string;
+}
+
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved' | 'cancelled';
+
+// How the user closes an incident: safe after a real emergency, or a false alarm
+export type IncidentResolution = 'resolved' | 'cancelled';
+
+export interface IncidentState {
+  status: IncidentStatus;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null; // when the user sent the all-clear or cancelled
+  resolutionReason: string | null;
+}
+
+// What a contact answered: seen it, on their way, or calling the user
+export type AckResponse = 'ok' | 'on_my_way' | 'calling';
+
+export interface ContactAcknowledgement {
+  contactName: string;
+  phoneNumber: string;
+  response: AckResponse;
+  via: 'sms' | 'link'; // a reply to the alert SMS, or the one-tap link
+  acknowledgedAt: string;
+}
+
+// The contact-facing ack page (/ack/:token)
+export interface AckDetails {
+  userName: string;
+  contactName: string;
+  alertStatus: IncidentStatus;
+  createdAt: string;
+  response: AckResponse | null;
+  acknowledgedAt: string | null;
+}
+
+export interface AlertStatusSnapshot {
+  deliveries: SmsDeliveryRecord[];
+  incident: IncidentState | null;
+  acknowledgements: ContactAcknowledgement[];
+}
+
+export interface AllClearResult {
+  alertId: string;
+  delivered: boolean; // false when the all-clear could not be recorded on the server
+  message: string;
+  contactsNotified: number;
+  totalContacts: number;
+  incident: IncidentState | null;
+}
+
+// DURESS alerts are never shown on the phone: the user may be made to hand it over
+export type AlertKind = 'SOS' | 'ALERT' | 'DURESS';
+
+export type AlertTriggerSource =
+  | 'long_press' | 'voice' | 'threat_detection' | 'emergency_voice' | 'safety_timer' | 'duress_pin' | 'duress_phrase';
+
+export interface AlertDispatchResult {
+  mode: AlertDispatchMode;
+  delivered: boolean; // true only when at least one contact's message was accepted
   message: string;
-  data?: {
-    contactsNotified: number;
-    timestamp: string;
+  contactsNotified: number;
+  totalContacts: number;
+  outcomes: ContactDeliveryOutcome[];
+  location: Location;
+  timestamp: string;
+  alertId?: string; // server-side alert record, used to look up delivery receipts
+  incident?: IncidentState; // lifecycle of the server-side alert
+  acknowledgements?: ContactAcknowledgement[];
+  idempotencyKey?: string;
+  duplicate?: boolean; // folded into an incident already under way; contacts were not messaged again
+  pendingRetry?: boolean; // queued in the offline outbox and retried in the background
+  error?: {
+    cause: AlertFailureCause;
+    message: string;
+    status?: number;
   };
-}
\ No newline at end of file
+}
+
+// Which edge function sent a past alert
+export type AlertHistoryType = 'SOS_PANIC' | 'AURA_THREAT';
+
+// One row of the History view, from `emergency_alerts`
+export interface AlertHistoryEntry {
+  id: string;
+  alertType: AlertHistoryType;
+  triggerSource: AlertTriggerSource | null; // null for alerts sent before it was recorded
+  createdAt: string;
+  location: Location | null;
+  message: string;
+  contactsNotified: number;
+  outcomes: ContactDeliveryOutcome[];
+  incident: IncidentState;
+}
+
+export interface AlertTimelineEvent {
+  id: string;
+  type: string; // created, an incident_events type (e.g. escalation_resend), delivered, resolved...
+  label: string;
+  timestamp: string;
+}
+
+export interface AlertHistoryDetail extends AlertHistoryEntry {
+  timeline: AlertTimelineEvent[];
+  deliveries: SmsDeliveryRecord[];
+  acknowledgements: ContactAcknowledgement[];
+  evidence: EvidenceRecording[];
+}
+
+/**
+ * Audio recorded during an incident, uploaded as encrypted chunks whose hashes form a chain
+ */
+export interface EvidenceRecording {
+  sessionId: string;
+  alertId: string | null;
+  mimeType: string;
+  startedAt: string;
+  endedAt: string | null; // null when recording was cut off, e.g. the phone was taken
+  chunkCount: number | null;
+  headHash: string | null; // chain hash of the last chunk, set when recording ended normally
+}
+
+export interface EvidenceChunk {
+  sessionId: string;
+  seq: number;
+  storagePath: string;
+  sha256: string; // of the stored object: IV followed by the ciphertext
+  prevHash: string;
+  chainHash: string;
+  byteSize: number;
+  recordedAt: string;
+}
+
+export interface EvidenceVerification {
+  sessionId: string;
+  valid: boolean; // every uploaded chunk matches its hash and links to the one before
+  complete: boolean; // recording ended normally and every chunk up to its head is there
+  chunksChecked: number;
+  brokenAtSeq: number | null;
+  problem: string | null;
+}
+
+export interface AlertRequestPayload {
+  userId: string;
+  latitude: number;
+  longitude: number;
+  idempotencyKey: string;
+  triggerSource: AlertTriggerSource;
+  trackingToken?: string;
+  escalationPolicy?: EscalationPolicy;
+  // Duress alerts only: the incident the user was made to close, and how
+  closesAlertId?: string;
+  resolution?: IncidentResolution;
+  reason?: string;
+}
+
+export interface OutboxEntry {
+  id: string; // same as payload.idempotencyKey
+  kind: AlertKind;
+  endpoint: string;
+  authorization: string;
+  payload: AlertRequestPayload;
+  status: 'pending' | 'retrying' | 'dropped'; // dropped entries stay until the user dismisses them
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number;
+  usesAnonKey?: boolean; // stored without a session; a 401 then means it can never be accepted
+  lastError?: string;
+}